@@ -1,70 +1,116 @@
-import React from 'react';
-import { View, Text, StyleSheet, FlatList, TouchableOpacity } from 'react-native';
+import React, { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, RefreshControl, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useFocusEffect } from 'expo-router';
 import { MaterialIcons } from '@expo/vector-icons';
 import { Image } from 'expo-image';
 import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/hooks/useAuth';
+import { callService } from '@/services/calls';
+import { callHistoryService, MISSED_OUTCOMES } from '@/services/endpoints/calls';
+import { CallRecord } from '@/services/types';
 
-interface Call {
-  id: string;
-  name: string;
-  type: 'incoming' | 'outgoing' | 'missed';
-  callType: 'voice' | 'video';
-  timestamp: string;
-  avatar: string;
-}
+type CallFilter = 'all' | 'missed';
 
-const mockCalls: Call[] = [
-  {
-    id: '1',
-    name: 'Ana Silva',
-    type: 'outgoing',
-    callType: 'video',
-    timestamp: '14:30',
-    avatar: 'https://images.unsplash.com/photo-1494790108755-2616b612db96?w=100&h=100&fit=crop&crop=face',
-  },
-  {
-    id: '2',
-    name: 'João Santos',
-    type: 'missed',
-    callType: 'voice',
-    timestamp: '13:45',
-    avatar: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=100&h=100&fit=crop&crop=face',
-  },
-  {
-    id: '3',
-    name: 'Maria Costa',
-    type: 'incoming',
-    callType: 'voice',
-    timestamp: '12:20',
-    avatar: 'https://images.unsplash.com/photo-1438761681033-6461ffad8d80?w=100&h=100&fit=crop&crop=face',
-  },
+const FILTERS: { key: CallFilter; title: string }[] = [
+  { key: 'all', title: 'Todas' },
+  { key: 'missed', title: 'Perdidas' },
 ];
 
+const DEFAULT_AVATAR = 'https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=100&h=100&fit=crop&crop=face';
+
 export default function CallsScreen() {
-  const getCallIcon = (type: string, callType: string) => {
-    if (type === 'missed') {
-      return { name: 'call-received', color: Colors.error };
+  const { user } = useAuth();
+  const [calls, setCalls] = useState<CallRecord[]>([]);
+  const [filter, setFilter] = useState<CallFilter>('all');
+  const [loading, setLoading] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadCalls = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await callHistoryService.getCallHistory(user.id, { missedOnly: filter === 'missed' });
+      if (!error && data) {
+        setCalls(data);
+      }
+    } catch (error) {
+      console.error('Error loading calls:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [user, filter]);
+
+  // Recarregar ao voltar para a aba: a última chamada pode ter acabado de terminar
+  useFocusEffect(
+    useCallback(() => {
+      loadCalls();
+    }, [loadCalls])
+  );
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadCalls();
+  };
+
+  const handleCallBack = async (call: CallRecord) => {
+    const isOutgoing = call.caller_id === user?.id;
+    const contactId = isOutgoing ? call.callee_id : call.caller_id;
+    const contact = isOutgoing ? call.callee : call.caller;
+    const name = contact?.full_name || contact?.username || 'Usuário';
+
+    try {
+      if (call.call_type === 'video') {
+        await callService.startVideoCall(contactId, name, contact?.avatar_url);
+      } else {
+        await callService.startVoiceCall(contactId, name, contact?.avatar_url);
+      }
+    } catch (error: any) {
+      Alert.alert('Erro', error.message || 'Não foi possível iniciar a chamada');
+    }
+  };
+
+  const getCallIcon = (call: CallRecord): { name: 'call-made' | 'call-received' | 'call-missed'; color: string } => {
+    if (call.caller_id === user?.id) {
+      return { name: 'call-made', color: call.outcome === 'answered' ? Colors.success : Colors.textMuted };
     }
-    if (type === 'outgoing') {
-      return { name: 'call-made', color: Colors.success };
+    if (MISSED_OUTCOMES.includes(call.outcome)) {
+      return { name: 'call-missed', color: Colors.error };
     }
-    return { name: 'call-received', color: Colors.success };
+    return { name: 'call-received', color: call.outcome === 'answered' ? Colors.success : Colors.textMuted };
+  };
+
+  const formatTimestamp = (timestamp: string) => {
+    const date = new Date(timestamp);
+    if (date.toDateString() === new Date().toDateString()) {
+      return date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
+    }
+    return date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
+  };
+
+  const formatDuration = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${(seconds % 60).toString().padStart(2, '0')}`;
   };
 
-  const renderCallItem = ({ item }: { item: Call }) => {
-    const callIcon = getCallIcon(item.type, item.callType);
+  const renderCallItem = ({ item }: { item: CallRecord }) => {
+    const callIcon = getCallIcon(item);
+    const contact = item.caller_id === user?.id ? item.callee : item.caller;
     
     return (
-      <TouchableOpacity style={styles.callItem} activeOpacity={0.7}>
-        <Image source={{ uri: item.avatar }} style={styles.avatar} />
+      <View style={styles.callItem}>
+        <Image source={{ uri: contact?.avatar_url || DEFAULT_AVATAR }} style={styles.avatar} />
         
         <View style={styles.callContent}>
           <View style={styles.callHeader}>
-            <Text style={styles.callName}>{item.name}</Text>
-            <TouchableOpacity style={styles.callButton}>
+            <Text style={styles.callName} numberOfLines={1}>
+              {contact?.full_name || contact?.username || 'Usuário'}
+            </Text>
+            <TouchableOpacity style={styles.callButton} onPress={() => handleCallBack(item)}>
               <MaterialIcons 
-                name={item.callType === 'video' ? 'videocam' : 'call'} 
+                name={item.call_type === 'video' ? 'videocam' : 'call'} 
                 size={20} 
                 color={Colors.primary} 
               />
@@ -73,11 +119,14 @@ export default function CallsScreen() {
           <View style={styles.callDetails}>
             <MaterialIcons name={callIcon.name} size={16} color={callIcon.color} />
             <Text style={[styles.callTime, { color: callIcon.color }]}>
-              {item.timestamp}
+              {formatTimestamp(item.started_at)}
+              {item.outcome === 'answered' && item.duration_seconds > 0
+                ? ` • ${formatDuration(item.duration_seconds)}`
+                : ''}
             </Text>
           </View>
         </View>
-      </TouchableOpacity>
+      </View>
     );
   };
 
@@ -87,17 +136,43 @@ export default function CallsScreen() {
         <Text style={styles.headerTitle}>Chamadas</Text>
       </View>
 
+      <View style={styles.filters}>
+        {FILTERS.map(option => (
+          <TouchableOpacity
+            key={option.key}
+            style={[styles.filterButton, filter === option.key && styles.activeFilter]}
+            onPress={() => setFilter(option.key)}
+          >
+            <Text style={[styles.filterText, filter === option.key && styles.activeFilterText]}>
+              {option.title}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
       <FlatList
-        data={mockCalls}
+        data={calls}
         renderItem={renderCallItem}
         keyExtractor={(item) => item.id}
         style={styles.callsList}
         showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            tintColor={Colors.primary}
+            colors={[Colors.primary]}
+          />
+        }
         ListEmptyComponent={
-          <View style={styles.emptyContainer}>
-            <MaterialIcons name="call" size={48} color={Colors.textMuted} />
-            <Text style={styles.emptyText}>Nenhuma chamada recente</Text>
-          </View>
+          loading ? null : (
+            <View style={styles.emptyContainer}>
+              <MaterialIcons name={filter === 'missed' ? 'call-missed' : 'call'} size={48} color={Colors.textMuted} />
+              <Text style={styles.emptyText}>
+                {filter === 'missed' ? 'Nenhuma chamada perdida' : 'Nenhuma chamada recente'}
+              </Text>
+            </View>
+          )
         }
       />
     </SafeAreaView>
@@ -120,6 +195,31 @@ const styles = StyleSheet.create({
     fontSize: 24,
     fontWeight: 'bold',
   },
+  filters: {
+    flexDirection: 'row',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    gap: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  filterButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: Colors.surface,
+  },
+  activeFilter: {
+    backgroundColor: Colors.primary,
+  },
+  filterText: {
+    color: Colors.textSecondary,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  activeFilterText: {
+    color: Colors.text,
+  },
   callsList: {
     flex: 1,
   },
@@ -147,6 +247,7 @@ const styles = StyleSheet.create({
     marginBottom: 4,
   },
   callName: {
+    flex: 1,
     color: Colors.text,
     fontSize: 16,
     fontWeight: '600',
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { View, Text, StyleSheet, FlatList, TouchableOpacity, RefreshControl } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
@@ -7,48 +7,127 @@ import { Image } from 'expo-image';
 import { Colors } from '@/constants/Colors';
 import { useAuth } from '@/hooks/useAuth';
 import { chatService } from '@/services/endpoints/chat';
+import { AnvicCrypto } from '@/services/encryption';
 import { Conversation, UserProfile } from '@/services/types';
 import UserSearchModal from '@/components/ui/UserSearchModal';
+import CreateGroupModal from '@/components/ui/CreateGroupModal';
+
+const previewKey = (message: { sender_id: string; content: string }) => `${message.sender_id}:${message.content}`;
+
+const sortByActivity = (list: Conversation[]) =>
+  [...list].sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime());
 
 export default function ChatsScreen() {
   const router = useRouter();
   const { user } = useAuth();
   const [conversations, setConversations] = useState<Conversation[]>([]);
-  const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [searchModalVisible, setSearchModalVisible] = useState(false);
+  const [createGroupVisible, setCreateGroupVisible] = useState(false);
+  // Prévias descriptografadas, indexadas pelo remetente e envelope da última mensagem
+  const [openedPreviews, setOpenedPreviews] = useState<{ [envelope: string]: string | null }>({});
+  const openingPreviewsRef = useRef<Set<string>>(new Set());
 
-  useEffect(() => {
-    if (user) {
-      loadConversations();
-      
-      // Subscribe to conversation updates
-      const subscription = chatService.subscribeToConversations(user.id, () => {
-        loadConversations();
-      });
-
-      return () => {
-        subscription.unsubscribe();
-      };
-    }
-  }, [user]);
-
-  const loadConversations = async () => {
+  const loadConversations = useCallback(async () => {
     if (!user) return;
     
-    setLoading(true);
     try {
       const { data, error } = await chatService.getUserConversations(user.id);
       if (!error && data) {
         setConversations(data);
+
+        // A lista já chegou ao aparelho: confirmar entrega das últimas mensagens recebidas
+        data
+          .filter(conv => conv.last_message && conv.last_message.sender_id !== user.id)
+          .forEach(conv => chatService.markMessagesAsDelivered(conv.id, user.id, [conv.last_message!.id]));
       }
     } catch (error) {
       console.error('Error loading conversations:', error);
     } finally {
-      setLoading(false);
       setRefreshing(false);
     }
-  };
+  }, [user]);
+
+  const removeConversation = useCallback((conversationId: string) => {
+    setConversations(prev => prev.filter(c => c.id !== conversationId));
+  }, []);
+
+  // Recarrega só a conversa afetada e reposiciona na lista
+  const patchConversation = useCallback(async (conversationId: string) => {
+    if (!user) return;
+
+    const { data, error } = await chatService.getConversationSummary(user.id, conversationId);
+    if (error) return;
+
+    if (!data || data.is_blocked) {
+      removeConversation(conversationId);
+      return;
+    }
+
+    setConversations(prev => sortByActivity([data, ...prev.filter(c => c.id !== conversationId)]));
+
+    if (data.last_message && data.last_message.sender_id !== user.id) {
+      chatService.markMessagesAsDelivered(data.id, user.id, [data.last_message.id]);
+    }
+  }, [user, removeConversation]);
+
+  const handleConversationChange = useCallback((payload: any) => {
+    if (payload.eventType === 'DELETE') {
+      // Conversa apagada ou usuário removido do grupo
+      const conversationId = payload.table === 'conversations' ? payload.old?.id : payload.old?.conversation_id;
+      if (conversationId) removeConversation(conversationId);
+      return;
+    }
+
+    const conversationId = payload.table === 'conversations' ? payload.new?.id : payload.new?.conversation_id;
+    if (conversationId) patchConversation(conversationId);
+  }, [removeConversation, patchConversation]);
+
+  useEffect(() => {
+    loadConversations();
+  }, [loadConversations]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    conversations.forEach(conversation => {
+      const lastMessage = conversation.last_message;
+      if (!lastMessage?.content) return;
+
+      const key = previewKey(lastMessage);
+      if (openingPreviewsRef.current.has(key)) return;
+
+      const envelope = AnvicCrypto.parseEnvelope(lastMessage.content);
+      if (!envelope) return;
+
+      openingPreviewsRef.current.add(key);
+      AnvicCrypto.openMessage(envelope, user.id, {
+        senderId: lastMessage.sender_id,
+        conversationId: conversation.id,
+      }).then(opened => {
+        // Mensagem adulterada continua só com o cadeado na lista
+        const text = opened.status === 'tampered' ? null : opened.content;
+        setOpenedPreviews(prev => ({ ...prev, [key]: text }));
+      });
+    });
+  }, [conversations, user]);
+
+  // Ids das conversas na lista: entrar ou sair de uma conversa refaz a assinatura com os novos filtros
+  const conversationIdsKey = conversations.map(c => c.id).sort().join(',');
+
+  useEffect(() => {
+    if (!user) return;
+
+    const subscription = chatService.subscribeToConversations(
+      user.id,
+      conversationIdsKey ? conversationIdsKey.split(',') : [],
+      handleConversationChange
+    );
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [user, conversationIdsKey, handleConversationChange]);
 
   const handleRefresh = () => {
     setRefreshing(true);
@@ -69,7 +148,16 @@ export default function ChatsScreen() {
     }
   };
 
-    const handleChatPress = (conversation: Conversation) => {
+  const openGroupChat = (conversation: Conversation) => {
+    router.push(`/chat/${conversation.id}?userName=${conversation.name || 'Grupo'}&avatar=${conversation.avatar_url || ''}&isGroup=1`);
+  };
+
+  const handleChatPress = (conversation: Conversation) => {
+    if (conversation.is_group) {
+      openGroupChat(conversation);
+      return;
+    }
+
     const otherUser = conversation.other_user;
     if (otherUser) {
       router.push(`/chat/${conversation.id}?userName=${otherUser.full_name || otherUser.username}&avatar=${otherUser.avatar_url || ''}&otherUserId=${otherUser.id}`);
@@ -88,7 +176,57 @@ export default function ChatsScreen() {
     }
   };
 
+  const getLastMessagePreview = (conversation: Conversation) => {
+    const lastMessage = conversation.last_message;
+    if (!lastMessage) return conversation.is_group ? 'Grupo criado' : 'Nova conversa';
+
+    const content = AnvicCrypto.parseEnvelope(lastMessage.content)
+      ? openedPreviews[previewKey(lastMessage)] ?? '🔒 Mensagem criptografada'
+      : lastMessage.content;
+    if (!conversation.is_group) return content;
+
+    if (lastMessage.sender_id === user?.id) return `Você: ${content}`;
+    const sender = lastMessage.sender || conversation.participants?.find(p => p.user_id === lastMessage.sender_id)?.user;
+    const senderName = sender?.full_name?.split(' ')[0] || sender?.username;
+    return senderName ? `${senderName}: ${content}` : content;
+  };
+
+  const renderGroupItem = (item: Conversation) => (
+    <TouchableOpacity style={styles.chatItem} activeOpacity={0.7} onPress={() => handleChatPress(item)}>
+      <View style={styles.avatarContainer}>
+        {item.avatar_url ? (
+          <Image source={{ uri: item.avatar_url }} style={styles.avatar} />
+        ) : (
+          <View style={[styles.avatar, styles.groupAvatarPlaceholder]}>
+            <MaterialIcons name="group" size={26} color={Colors.text} />
+          </View>
+        )}
+      </View>
+
+      <View style={styles.chatContent}>
+        <View style={styles.chatHeader}>
+          <Text style={styles.chatName} numberOfLines={1}>{item.name || 'Grupo'}</Text>
+          <Text style={styles.timestamp}>
+            {item.last_message ? formatTimestamp(item.last_message.created_at) : formatTimestamp(item.created_at)}
+          </Text>
+        </View>
+        <View style={styles.messageRow}>
+          <Text style={styles.lastMessage} numberOfLines={1}>
+            {getLastMessagePreview(item)}
+          </Text>
+          {item.unread_count && item.unread_count > 0 && (
+            <View style={styles.unreadBadge}>
+              <Text style={styles.unreadCount}>{item.unread_count}</Text>
+            </View>
+          )}
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+
   const renderChatItem = ({ item }: { item: Conversation }) => {
+    if (item.is_group) return renderGroupItem(item);
+
     const otherUser = item.other_user;
     if (!otherUser) return null;
 
@@ -140,12 +278,20 @@ export default function ChatsScreen() {
     <SafeAreaView style={styles.container} edges={['top']}>
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Anvic</Text>
-        <TouchableOpacity 
-          style={styles.headerButton}
-          onPress={() => setSearchModalVisible(true)}
-        >
-          <MaterialIcons name="add" size={24} color={Colors.primary} />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity 
+            style={styles.headerButton}
+            onPress={() => setCreateGroupVisible(true)}
+          >
+            <MaterialIcons name="group-add" size={24} color={Colors.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={styles.headerButton}
+            onPress={() => setSearchModalVisible(true)}
+          >
+            <MaterialIcons name="add" size={24} color={Colors.primary} />
+          </TouchableOpacity>
+        </View>
       </View>
 
       <FlatList
@@ -176,6 +322,12 @@ export default function ChatsScreen() {
         onClose={() => setSearchModalVisible(false)}
         onUserSelect={handleUserSelect}
       />
+
+      <CreateGroupModal
+        visible={createGroupVisible}
+        onClose={() => setCreateGroupVisible(false)}
+        onGroupCreated={openGroupChat}
+      />
     </SafeAreaView>
   );
 }
@@ -199,6 +351,9 @@ const styles = StyleSheet.create({
     fontSize: 24,
     fontWeight: 'bold',
   },
+  headerActions: {
+    flexDirection: 'row',
+  },
   headerButton: {
     padding: 8,
   },
@@ -222,6 +377,11 @@ const styles = StyleSheet.create({
     height: 50,
     borderRadius: 25,
   },
+  groupAvatarPlaceholder: {
+    backgroundColor: Colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   onlineIndicator: {
     position: 'absolute',
     bottom: 2,
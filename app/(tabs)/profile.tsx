@@ -9,11 +9,13 @@ import { useAuth } from '@/hooks/useAuth';
 import { mediaService } from '@/services/media';
 import { biometricService } from '@/services/biometric';
 import BlockedUsersModal from '@/components/ui/BlockedUsersModal';
+import LinkedDevicesModal from '@/components/ui/LinkedDevicesModal';
 
 export default function ProfileScreen() {
   const router = useRouter();
   const { user, profile, signOut, updateProfile } = useAuth();
   const [blockedUsersModalVisible, setBlockedUsersModalVisible] = useState(false);
+  const [linkedDevicesModalVisible, setLinkedDevicesModalVisible] = useState(false);
   const [editingProfile, setEditingProfile] = useState(false);
   const [editedProfile, setEditedProfile] = useState({
     full_name: profile?.full_name || '',
@@ -171,6 +173,20 @@ export default function ProfileScreen() {
             onPress={() => setBlockedUsersModalVisible(true)}
           />
           
+          <ProfileOption
+            icon="devices"
+            title="Aparelhos Vinculados"
+            subtitle="Gerenciar aparelhos conectados à conta"
+            onPress={() => setLinkedDevicesModalVisible(true)}
+          />
+          
+          <ProfileOption
+            icon="cloud-upload"
+            title="Transferências"
+            subtitle="Envios de arquivos em andamento"
+            onPress={() => router.push('/transfers')}
+          />
+          
           <ProfileOption
             icon="fingerprint"
             title="Autenticação Biométrica"
@@ -206,6 +222,11 @@ export default function ProfileScreen() {
         onClose={() => setBlockedUsersModalVisible(false)}
       />
 
+      <LinkedDevicesModal
+        visible={linkedDevicesModalVisible}
+        onClose={() => setLinkedDevicesModalVisible(false)}
+      />
+
       {/* Edit Profile Modal */}
       {editingProfile && (
         <Modal visible={editingProfile} animationType="slide" presentationStyle="pageSheet">
@@ -20,6 +20,9 @@ import { presenceService } from '@/services/presence';
 import { Themes, FontSizes, FontFamilies, DefaultWallpapers } from '@/constants/Themes';
 import SexyModeButton from '@/components/ui/SexyModeButton';
 import BlockedUsersModal from '@/components/ui/BlockedUsersModal';
+import BackupModal from '@/components/ui/BackupModal';
+import AutoDownloadModal, { NETWORK_LABELS, MEDIA_TYPE_LABELS } from '@/components/ui/AutoDownloadModal';
+import { AutoDownloadNetwork } from '@/services/types';
 
 export default function SettingsScreen() {
   const { settings, updateSettings, resetSettings } = useSettings();
@@ -30,6 +33,13 @@ export default function SettingsScreen() {
   const [showWallpaperModal, setShowWallpaperModal] = useState(false);
   const [blockedUsersModalVisible, setBlockedUsersModalVisible] = useState(false);
   const [showAboutModal, setShowAboutModal] = useState(false);
+  const [backupMode, setBackupMode] = useState<'create' | 'restore' | null>(null);
+  const [autoDownloadNetwork, setAutoDownloadNetwork] = useState<AutoDownloadNetwork | null>(null);
+
+  const autoDownloadSummary = (network: AutoDownloadNetwork) => {
+    const types = settings.autoDownload[network];
+    return types.length > 0 ? types.map(type => MEDIA_TYPE_LABELS[type]).join(', ') : 'Nenhuma mídia';
+  };
 
   const currentTheme = Themes[settings.theme];
   const currentFontSize = FontSizes[settings.fontSize];
@@ -319,7 +329,33 @@ export default function SettingsScreen() {
           />
         </SettingsSection>
 
+        <SettingsSection title="Download Automático de Mídia">
+          {(['wifi', 'cellular', 'roaming'] as AutoDownloadNetwork[]).map(network => (
+            <SettingsItem
+              key={network}
+              icon={network === 'wifi' ? 'wifi' : network === 'cellular' ? 'signal-cellular-alt' : 'public'}
+              title={NETWORK_LABELS[network]}
+              subtitle={autoDownloadSummary(network)}
+              onPress={() => setAutoDownloadNetwork(network)}
+            />
+          ))}
+        </SettingsSection>
+
         <SettingsSection title="Privacidade">
+          <SettingsItem
+            icon="done-all"
+            title="Confirmações de Leitura"
+            subtitle={settings.sendReadReceipts ? 'Outros veem quando você lê as mensagens' : 'Desativadas'}
+            rightComponent={
+              <Switch
+                value={settings.sendReadReceipts}
+                onValueChange={(value) => updateSettings({ sendReadReceipts: value })}
+                trackColor={{ false: currentTheme.border, true: currentTheme.primary }}
+                thumbColor={currentTheme.text}
+              />
+            }
+            showArrow={false}
+          />
           <SettingsItem
             icon="block"
             title="Usuários Bloqueados"
@@ -342,6 +378,21 @@ export default function SettingsScreen() {
           />
         </SettingsSection>
 
+        <SettingsSection title="Backup">
+          <SettingsItem
+            icon="backup"
+            title="Criar Backup"
+            subtitle="Arquivo protegido por senha para levar a outro aparelho"
+            onPress={() => setBackupMode('create')}
+          />
+          <SettingsItem
+            icon="settings-backup-restore"
+            title="Restaurar Backup"
+            subtitle="Importar um backup criado anteriormente"
+            onPress={() => setBackupMode('restore')}
+          />
+        </SettingsSection>
+
         <SettingsSection title="Geral">
           <SettingsItem
             icon="refresh"
@@ -380,6 +431,17 @@ export default function SettingsScreen() {
         visible={blockedUsersModalVisible}
         onClose={() => setBlockedUsersModalVisible(false)}
       />
+
+      <BackupModal
+        visible={backupMode !== null}
+        mode={backupMode || 'create'}
+        onClose={() => setBackupMode(null)}
+      />
+
+      <AutoDownloadModal
+        network={autoDownloadNetwork}
+        onClose={() => setAutoDownloadNetwork(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -6,6 +6,7 @@ import { StatusBar } from 'expo-status-bar';
 import { Colors } from '@/constants/Colors';
 import { AuthProvider } from '@/contexts/AuthContext';
 import { SettingsProvider } from '@/contexts/SettingsContext';
+import CallInterface from '@/components/ui/CallInterface';
 
 SplashScreen.preventAutoHideAsync();
 
@@ -39,7 +40,12 @@ export default function RootLayout() {
           <Stack.Screen name="auth/register" />
           <Stack.Screen name="(tabs)" />
           <Stack.Screen name="chat/[id]" />
+          <Stack.Screen name="link-device" />
+          <Stack.Screen name="restore-backup" />
+          <Stack.Screen name="transfers" />
+          <Stack.Screen name="gallery/[id]" />
         </Stack>
+        <CallInterface />
       </AuthProvider>
     </SettingsProvider>
   );
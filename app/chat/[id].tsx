@@ -10,7 +10,11 @@ import {
   Platform,
   Alert,
   Modal,
+  ActivityIndicator,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
 } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { MaterialIcons } from '@expo/vector-icons';
@@ -18,24 +22,60 @@ import { Image } from 'expo-image';
 import { Colors } from '@/constants/Colors';
 import { useAuth } from '@/hooks/useAuth';
 import { useSettings } from '@/hooks/useSettings';
-import { chatService } from '@/services/endpoints/chat';
-import { Message } from '@/services/types';
+import { chatService, DELETE_FOR_EVERYONE_WINDOW_MS, DeleteMode, MessagePage } from '@/services/endpoints/chat';
+import { ConversationParticipant, Message, MessagePreview, MessageReaction, MessageReceipt } from '@/services/types';
 import { mediaService, MediaFile } from '@/services/media';
+import { mediaStorageService, MediaUpload } from '@/services/media-storage';
+import { transferService, TransferEntry } from '@/services/transfers';
+import { voiceNoteService } from '@/services/voice-notes';
+import { callService } from '@/services/calls';
 import { screenProtection } from '@/services/screenshot-protection';
 import { typingService } from '@/services/typing';
 import { favoritesService } from '@/services/favorites';
+import { outboxService, OutboxEntry } from '@/services/outbox';
+import { AnvicCrypto, OpenedMessage } from '@/services/encryption';
+import { verificationService, ContactKeyRecord } from '@/services/verification';
 import MediaPicker from '@/components/ui/MediaPicker';
 import AudioRecorder from '@/components/ui/AudioRecorder';
 import MessageReactions from '@/components/ui/MessageReactions';
 import MessageActions from '@/components/ui/MessageActions';
 import ReadStatusIndicator from '@/components/ui/ReadStatusIndicator';
 import TypingIndicator from '@/components/ui/TypingIndicator';
+import GroupInfoModal from '@/components/ui/GroupInfoModal';
+import ReplyQuote from '@/components/ui/ReplyQuote';
+import EditHistoryModal from '@/components/ui/EditHistoryModal';
+import ForwardMessageModal from '@/components/ui/ForwardMessageModal';
+import SafetyNumberModal from '@/components/ui/SafetyNumberModal';
+import MediaMessage from '@/components/ui/MediaMessage';
+import MediaUploadList from '@/components/ui/MediaUploadList';
+import FileShareModal from '@/components/ui/FileShareModal';
+
+const MEDIA_LABELS: { [key in MediaFile['type']]: string } = {
+  image: '📷 Foto',
+  video: '🎥 Vídeo',
+  audio: '🎤 Áudio',
+};
+
+// A mesma mensagem chega pelo retorno do envio e pelo realtime; casar por id ou client_id evita duplicatas
+// Envelopes abertos por remetente: o mesmo envelope colado na linha de outra pessoa é verificado de novo
+const openedKey = (message: Pick<Message, 'sender_id' | 'content'>) => `${message.sender_id}:${message.content}`;
+
+const upsertMessage = (list: Message[], message: Message): Message[] => {
+  const index = list.findIndex(m =>
+    m.id === message.id || (!!message.client_id && m.client_id === message.client_id)
+  );
+  if (index === -1) return [...list, message];
+  const next = [...list];
+  next[index] = { ...list[index], ...message };
+  return next;
+};
 
 export default function ChatScreen() {
   const router = useRouter();
   const { user } = useAuth();
   const { settings } = useSettings();
-  const { id: conversationId, userName, avatar, otherUserId } = useLocalSearchParams();
+  const { id: conversationId, userName, avatar, otherUserId, isGroup: isGroupParam, jumpTo } = useLocalSearchParams();
+  const isGroup = isGroupParam === '1';
   
   // States
   const [messages, setMessages] = useState<Message[]>([]);
@@ -43,15 +83,49 @@ export default function ChatScreen() {
   const [loading, setLoading] = useState(false);
   const [sending, setSending] = useState(false);
   const [isBlocked, setIsBlocked] = useState(false);
+  const [deleteWindowMs, setDeleteWindowMs] = useState(DELETE_FOR_EVERYONE_WINDOW_MS);
   const [mediaPickerVisible, setMediaPickerVisible] = useState(false);
   const [selectedMessage, setSelectedMessage] = useState<string | null>(null);
   const [actionsVisible, setActionsVisible] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
   const [otherUserTyping, setOtherUserTyping] = useState(false);
-  const [reactions, setReactions] = useState<{ [messageId: string]: { [emoji: string]: string[] } }>({});
+  const [participants, setParticipants] = useState<ConversationParticipant[]>([]);
+  const [groupInfoVisible, setGroupInfoVisible] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [historyMessage, setHistoryMessage] = useState<Message | null>(null);
+  const [forwardSelection, setForwardSelection] = useState<string[]>([]);
+  const [forwardModalVisible, setForwardModalVisible] = useState(false);
+  const [hasMoreBefore, setHasMoreBefore] = useState(false);
+  const [hasMoreAfter, setHasMoreAfter] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [loadingNewer, setLoadingNewer] = useState(false);
+  const [datePickerVisible, setDatePickerVisible] = useState(false);
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
+  const [safetyNumberVisible, setSafetyNumberVisible] = useState(false);
+  const [contactKeyRecord, setContactKeyRecord] = useState<ContactKeyRecord | null>(null);
+  // Mensagens cifradas já abertas, indexadas pelo envelope (uma edição gera um envelope novo)
+  const [openedMessages, setOpenedMessages] = useState<Record<string, OpenedMessage>>({});
+  const [uploads, setUploads] = useState<MediaUpload[]>([]);
+  const [transfers, setTransfers] = useState<TransferEntry[]>([]);
+  const [fileShareVisible, setFileShareVisible] = useState(false);
   
   const flatListRef = useRef<FlatList>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout>();
+  const pendingScrollRef = useRef<string | null>(null);
+  const handledJumpRef = useRef<string | null>(null);
+  const highlightTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Espelham o estado para callbacks do realtime e da rolagem, que capturam valores antigos
+  const hasMoreAfterRef = useRef(false);
+  const isNearBottomRef = useRef(true);
+  const pageLoadingRef = useRef(false);
+  const acknowledgedIdsRef = useRef<Set<string>>(new Set());
+  const openingEnvelopesRef = useRef<Set<string>>(new Set());
+  const uploadCancelsRef = useRef<Map<string, () => Promise<void>>>(new Map());
+  // Funções recriadas a cada render, chamadas por efeitos que não devem refazer as assinaturas
+  const loadConversationRef = useRef<() => void>(() => {});
+  const scrollToMessageRef = useRef<(messageId: string) => void>(() => {});
 
   // Private mode detection
   const isPrivateMode = settings.sexyModeEnabled;
@@ -65,20 +139,39 @@ export default function ChatScreen() {
     }
   }, [isPrivateMode]);
 
+  // Prazo para apagar para todos definido no servidor
   useEffect(() => {
-    if (conversationId && user && otherUserId) {
-      loadMessages();
-      markAsRead();
-      checkBlockStatus();
+    chatService.getDeleteForEveryoneWindow().then(setDeleteWindowMs);
+  }, []);
+
+  useEffect(() => {
+    if (conversationId && user && (otherUserId || isGroup)) {
+      loadConversationRef.current();
 
       // Subscribe to new messages
       const subscription = chatService.subscribeToMessages(
         conversationId as string,
         (payload) => {
+          if (payload.eventType === 'DELETE' && payload.old) {
+            setMessages(prev => prev.filter(m => m.id !== payload.old.id));
+            return;
+          }
+
+          if (payload.eventType === 'UPDATE' && payload.new) {
+            // Edições: mesclar mantendo os dados relacionados já carregados
+            const updated = payload.new;
+            setMessages(prev => prev.map(m => m.id === updated.id ? { ...m, ...updated } : m));
+            return;
+          }
+
           if (payload.new) {
             const newMsg = payload.new;
-            chatService.getUserProfile(newMsg.sender_id).then(({ data: sender }) => {
-              setMessages(prev => [...prev, { ...newMsg, sender }]);
+            // Vendo um trecho antigo do histórico: a mensagem aparece ao voltar para o fim
+            if (hasMoreAfterRef.current) return;
+
+            // Buscar a mensagem completa para trazer remetente e citação
+            chatService.getMessage(newMsg.id).then(({ data: fullMessage }) => {
+              setMessages(prev => upsertMessage(prev, fullMessage || newMsg));
             });
           }
         }
@@ -94,13 +187,87 @@ export default function ChatScreen() {
         }
       );
 
+      // Reações de todos os participantes em tempo real
+      const reactionsSubscription = chatService.subscribeToReactions(
+        conversationId as string,
+        (payload) => {
+          if (payload.eventType === 'DELETE' && payload.old) {
+            const removedId = payload.old.id;
+            setMessages(prev => prev.map(m =>
+              m.reactions?.some(r => r.id === removedId)
+                ? { ...m, reactions: m.reactions.filter(r => r.id !== removedId) }
+                : m
+            ));
+            return;
+          }
+
+          if (payload.new) {
+            const reaction: MessageReaction = payload.new;
+            setMessages(prev => prev.map(m =>
+              m.id === reaction.message_id ? { ...m, reactions: mergeReaction(m.reactions, reaction) } : m
+            ));
+          }
+        }
+      );
+
+      // Confirmações de entrega e leitura dos destinatários
+      const receiptsSubscription = chatService.subscribeToReceipts(
+        conversationId as string,
+        (payload) => {
+          if (!payload.new) return;
+          const receipt: MessageReceipt = payload.new;
+          setMessages(prev => prev.map(m =>
+            m.id === receipt.message_id
+              ? { ...m, receipts: [...(m.receipts || []).filter(r => r.user_id !== receipt.user_id), receipt] }
+              : m
+          ));
+        }
+      );
+
+      // "Apagar para mim" feito em outro dispositivo
+      const hiddenSubscription = chatService.subscribeToHiddenMessages(user.id, (payload) => {
+        if (payload.new) {
+          setMessages(prev => prev.filter(m => m.id !== payload.new.message_id));
+        }
+      });
+
+      // Mensagens ainda na fila de envio desta conversa
+      const unsubscribeOutbox = outboxService.subscribe((entries) => {
+        setOutboxEntries(entries.filter(entry => entry.conversationId === conversationId));
+      });
+
+      // Confirmação do servidor substitui a mensagem otimista mesmo com o realtime atrasado
+      const unsubscribeSent = outboxService.onSent((sent) => {
+        if (sent.conversation_id !== conversationId || hasMoreAfterRef.current) return;
+        setMessages(prev => upsertMessage(prev, sent));
+      });
+
+      // Arquivos grandes sendo enviados para esta conversa
+      const unsubscribeTransfers = transferService.subscribe((entries) => {
+        setTransfers(entries.filter(entry => entry.conversationId === conversationId));
+      });
+
       return () => {
+        unsubscribeOutbox();
+        unsubscribeSent();
+        unsubscribeTransfers();
         subscription.unsubscribe();
         typingSubscription.unsubscribe();
+        reactionsSubscription.unsubscribe();
+        receiptsSubscription.unsubscribe();
+        hiddenSubscription.unsubscribe();
         typingService.cleanup();
+        voiceNoteService.stop();
       };
     }
-  }, [conversationId, user, otherUserId]);
+  }, [conversationId, user, otherUserId, isGroup]);
+
+  // Mensagens de voz recebidas em sequência tocam uma após a outra
+  useEffect(() => {
+    if (user) {
+      voiceNoteService.setPlaylist(messages, user.id);
+    }
+  }, [messages, user]);
 
   // Auto-destruct messages when leaving private mode chat
   useEffect(() => {
@@ -111,6 +278,65 @@ export default function ChatScreen() {
     };
   }, [isPrivateMode]);
 
+  // Confirmar entrega/leitura das mensagens recebidas assim que aparecem na tela
+  useEffect(() => {
+    if (!conversationId || !user) return;
+
+    const unacknowledged = messages.filter(m =>
+      m.sender_id !== user.id &&
+      !acknowledgedIdsRef.current.has(m.id) &&
+      !m.receipts?.some(r => r.user_id === user.id && (settings.sendReadReceipts ? r.read_at : r.delivered_at))
+    );
+    if (unacknowledged.length === 0) return;
+
+    const ids = unacknowledged.map(m => m.id);
+    ids.forEach(id => acknowledgedIdsRef.current.add(id));
+    chatService
+      .markMessagesAsRead(conversationId as string, user.id, ids, settings.sendReadReceipts)
+      .catch(error => console.error('Error sending receipts:', error));
+  }, [messages, conversationId, user, settings.sendReadReceipts]);
+
+  // Descriptografar e verificar a assinatura das mensagens cifradas que chegaram
+  useEffect(() => {
+    if (!user) return;
+
+    // Citações também: a mensagem citada pode estar fora do trecho carregado
+    const sources = messages.flatMap(message =>
+      message.deleted_at ? [] : [message, message.reply_to].filter((m): m is MessagePreview => !!m?.content)
+    );
+
+    sources.forEach(source => {
+      const key = openedKey(source);
+      if (openingEnvelopesRef.current.has(key)) return;
+
+      const envelope = AnvicCrypto.parseEnvelope(source.content);
+      if (!envelope) return;
+
+      openingEnvelopesRef.current.add(key);
+      AnvicCrypto.openMessage(envelope, user.id, {
+        senderId: source.sender_id,
+        conversationId: conversationId as string,
+      }).then(opened => {
+        setOpenedMessages(prev => ({ ...prev, [key]: opened }));
+      });
+    });
+  }, [messages, user, conversationId]);
+
+  // Rolar até a mensagem alvo (citação ou data) assim que ela estiver na lista
+  useEffect(() => {
+    const targetId = pendingScrollRef.current;
+    if (!targetId) return;
+
+    const index = messages.findIndex(m => m.id === targetId);
+    if (index >= 0) {
+      pendingScrollRef.current = null;
+      setTimeout(() => {
+        flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+        highlightMessage(targetId);
+      }, 100);
+    }
+  }, [messages]);
+
   const showAlert = (title: string, message: string, actions?: any[]) => {
     if (Platform.OS === 'web') {
       console.log(`${title}: ${message}`);
@@ -119,14 +345,23 @@ export default function ChatScreen() {
     }
   };
 
+  const applyPage = (page: MessagePage) => {
+    setHasMoreBefore(page.hasMoreBefore);
+    setHasMoreAfter(page.hasMoreAfter);
+    hasMoreAfterRef.current = page.hasMoreAfter;
+  };
+
+  // Carrega a página mais recente (também usado para voltar ao fim da conversa)
   const loadMessages = async () => {
     if (!conversationId) return;
 
     setLoading(true);
     try {
-      const { data, error } = await chatService.getConversationMessages(conversationId as string);
-      if (!error && data) {
-        setMessages(data);
+      const page = await chatService.getConversationMessages(conversationId as string, user?.id);
+      if (!page.error && page.data) {
+        setMessages(page.data);
+        applyPage(page);
+        isNearBottomRef.current = true;
         setTimeout(() => scrollToBottom(), 100);
       }
     } catch (error) {
@@ -136,6 +371,96 @@ export default function ChatScreen() {
     }
   };
 
+  const loadOlderMessages = async () => {
+    if (!conversationId || !hasMoreBefore || pageLoadingRef.current || messages.length === 0) return;
+
+    pageLoadingRef.current = true;
+    setLoadingOlder(true);
+    try {
+      const page = await chatService.getConversationMessages(conversationId as string, user?.id, {
+        before: messages[0].id,
+      });
+      if (!page.error && page.data) {
+        const olderMessages = page.data;
+        setMessages(prev => {
+          const loadedIds = new Set(prev.map(m => m.id));
+          return [...olderMessages.filter(m => !loadedIds.has(m.id)), ...prev];
+        });
+        setHasMoreBefore(page.hasMoreBefore);
+      }
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    } finally {
+      pageLoadingRef.current = false;
+      setLoadingOlder(false);
+    }
+  };
+
+  const loadNewerMessages = async () => {
+    if (!conversationId || !hasMoreAfter || pageLoadingRef.current || messages.length === 0) return;
+
+    pageLoadingRef.current = true;
+    setLoadingNewer(true);
+    try {
+      const page = await chatService.getConversationMessages(conversationId as string, user?.id, {
+        after: messages[messages.length - 1].id,
+      });
+      if (!page.error && page.data) {
+        const newerMessages = page.data;
+        setMessages(prev => {
+          const loadedIds = new Set(prev.map(m => m.id));
+          return [...prev, ...newerMessages.filter(m => !loadedIds.has(m.id))];
+        });
+        setHasMoreAfter(page.hasMoreAfter);
+        hasMoreAfterRef.current = page.hasMoreAfter;
+      }
+    } catch (error) {
+      console.error('Error loading newer messages:', error);
+    } finally {
+      pageLoadingRef.current = false;
+      setLoadingNewer(false);
+    }
+  };
+
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { contentOffset, contentSize, layoutMeasurement } = event.nativeEvent;
+    isNearBottomRef.current = contentSize.height - (contentOffset.y + layoutMeasurement.height) < 80;
+  };
+
+  const jumpToDate = async (date: Date) => {
+    if (!conversationId) return;
+
+    const startOfDay = new Date(date);
+    startOfDay.setHours(0, 0, 0, 0);
+
+    try {
+      const page = await chatService.getMessagesAroundDate(conversationId as string, startOfDay, user?.id);
+      if (page.error || !page.data || !page.targetId) {
+        showAlert('Sem mensagens', 'Nenhuma mensagem encontrada nessa data');
+        return;
+      }
+
+      pendingScrollRef.current = page.targetId;
+      setMessages(page.data);
+      applyPage(page);
+    } catch (error) {
+      console.error('Error jumping to date:', error);
+    }
+  };
+
+  const loadParticipants = async () => {
+    if (!conversationId) return;
+
+    try {
+      const { data, error } = await chatService.getConversationParticipants(conversationId as string);
+      if (!error && data) {
+        setParticipants(data);
+      }
+    } catch (error) {
+      console.error('Error loading participants:', error);
+    }
+  };
+
   const checkBlockStatus = async () => {
     if (!user || !otherUserId) return;
 
@@ -147,41 +472,158 @@ export default function ChatScreen() {
     }
   };
 
+  const startCall = async (type: 'voice' | 'video') => {
+    if (!otherUserId) return;
+
+    try {
+      if (type === 'video') {
+        await callService.startVideoCall(otherUserId as string, userName as string, avatar as string);
+      } else {
+        await callService.startVoiceCall(otherUserId as string, userName as string, avatar as string);
+      }
+    } catch (error: any) {
+      showAlert('Erro', error.message || 'Não foi possível iniciar a chamada');
+    }
+  };
+
+  // Detectar troca de chave do contato desde a última conversa
+  const checkContactKeys = async () => {
+    if (!user || !otherUserId) return;
+
+    try {
+      const { data: contact } = await chatService.getUserProfile(otherUserId as string);
+      if (!contact) return;
+
+      const { status, record } = await verificationService.checkContactKeys(user.id, otherUserId as string, contact);
+      if (status === 'changed') {
+        // A chave de sessão derivada da chave antiga não serve mais
+        AnvicCrypto.invalidateSessionKeys(conversationId as string);
+      }
+      setContactKeyRecord(record);
+    } catch (error) {
+      console.error('Error checking contact keys:', error);
+    }
+  };
+
+  const dismissKeyChangeWarning = async () => {
+    if (!user || !otherUserId) return;
+
+    const record = await verificationService.acknowledgeKeyChange(user.id, otherUserId as string);
+    setContactKeyRecord(record);
+  };
+
   const markAsRead = async () => {
     if (!conversationId || !user) return;
     
     try {
-      await chatService.markMessagesAsRead(conversationId as string, user.id);
+      await chatService.markMessagesAsRead(conversationId as string, user.id, [], settings.sendReadReceipts);
     } catch (error) {
       console.error('Error marking messages as read:', error);
     }
   };
 
+  loadConversationRef.current = () => {
+    loadMessages();
+    markAsRead();
+    if (isGroup) {
+      loadParticipants();
+    } else {
+      checkBlockStatus();
+      checkContactKeys();
+    }
+  };
+
   const sendMessage = async () => {
+    if (editingMessage) {
+      await saveEdit();
+      return;
+    }
+
     if (!newMessage.trim() || !conversationId || !user || sending || isBlocked) return;
 
     const messageText = newMessage.trim();
+    const replyTarget = replyingTo;
     setNewMessage('');
-    setSending(true);
+    setReplyingTo(null);
 
     // Stop typing indicator
-    await typingService.stopTyping(conversationId as string, user.id);
+    typingService.stopTyping(conversationId as string, user.id);
 
+    // Toda mensagem sai cifrada; sem chave para cifrar, nada é enviado em texto puro
+    let content: string;
     try {
-      const { data, error } = await chatService.sendMessage(
-        conversationId as string,
-        user.id,
-        messageText
-      );
+      const envelope = await AnvicCrypto.encryptMessage(messageText, user.id, conversationId as string, 'text');
+      content = JSON.stringify(envelope);
+      const key = openedKey({ sender_id: user.id, content });
+      setOpenedMessages(prev => ({ ...prev, [key]: { status: 'verified', content: messageText } }));
+      openingEnvelopesRef.current.add(key);
+    } catch (error) {
+      console.error('Error encrypting message:', error);
+      setNewMessage(messageText);
+      setReplyingTo(replyTarget);
+      showAlert('Erro', 'Não foi possível criptografar a mensagem');
+      return;
+    }
+
+    // A fila mostra a mensagem na hora e cuida do envio e das novas tentativas
+    await outboxService.enqueue(conversationId as string, user.id, content, 'text', replyTarget?.id);
+
+    if (hasMoreAfterRef.current) {
+      // Enviada enquanto um trecho antigo estava aberto: voltar para o fim
+      loadMessages();
+    }
+  };
+
+  const handleEdit = (messageId: string) => {
+    const message = messages.find(m => m.id === messageId);
+    if (!message || message.message_type !== 'text') return;
+
+    // Mensagem cifrada: editar o texto aberto, não o envelope
+    const opened = openedMessages[openedKey(message)];
+    if (AnvicCrypto.parseEnvelope(message.content) && !opened?.content) return;
 
-      if (error) {
-        showAlert('Erro', 'Não foi possível enviar a mensagem');
-        setNewMessage(messageText);
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setNewMessage(opened?.content ?? message.content);
+  };
+
+  const cancelEdit = () => {
+    setEditingMessage(null);
+    setNewMessage('');
+  };
+
+  const saveEdit = async () => {
+    if (!editingMessage || !user || sending) return;
+
+    const editedText = newMessage.trim();
+    if (!editedText) return;
+
+    const originalText = openedMessages[openedKey(editingMessage)]?.content ?? editingMessage.content;
+    if (editedText === originalText) {
+      cancelEdit();
+      return;
+    }
+
+    setSending(true);
+    try {
+      // A edição sai cifrada mesmo quando a mensagem original era anterior à criptografia padrão
+      const envelope = await AnvicCrypto.encryptMessage(editedText, user.id, conversationId as string, 'text');
+      const content = JSON.stringify(envelope);
+      const key = openedKey({ sender_id: user.id, content });
+      setOpenedMessages(prev => ({ ...prev, [key]: { status: 'verified', content: editedText } }));
+      openingEnvelopesRef.current.add(key);
+
+      const { data, error } = await chatService.editMessage(editingMessage.id, user.id, content);
+      if (error || !data) {
+        showAlert('Erro', error?.message || 'Não foi possível editar a mensagem');
+        return;
       }
+
+      setMessages(prev => prev.map(m => m.id === data.id ? { ...m, ...data } : m));
+      cancelEdit();
     } catch (error) {
-      console.error('Error sending message:', error);
+      console.error('Error editing message:', error);
       showAlert('Erro', 'Erro de conexão');
-      setNewMessage(messageText);
     } finally {
       setSending(false);
     }
@@ -215,29 +657,54 @@ export default function ChatScreen() {
     }
   };
 
+  // Sobe o arquivo para o Storage e só então envia a mensagem apontando para ele
   const handleMediaSelected = async (media: MediaFile) => {
     if (!conversationId || !user || isBlocked) return;
 
-    setSending(true);
+    // O rótulo vai cifrado como a mídia; sem chave, nada é enviado
+    let label: string;
     try {
-      const mediaMessage = `[${media.type.toUpperCase()}${media.encrypted ? ' 🔒' : ''}] ${media.name}`;
-      
-      const { data, error } = await chatService.sendMessage(
-        conversationId as string,
-        user.id,
-        mediaMessage,
-        media.type
-      );
-
-      if (error) {
-        showAlert('Erro', 'Não foi possível enviar a mídia');
-      }
+      const envelope = await AnvicCrypto.encryptMessage(MEDIA_LABELS[media.type], user.id, conversationId as string, 'text');
+      label = JSON.stringify(envelope);
     } catch (error) {
-      console.error('Error sending media:', error);
-      showAlert('Erro', 'Erro ao enviar mídia');
-    } finally {
-      setSending(false);
+      console.error('Error encrypting media label:', error);
+      showAlert('Erro', 'Não foi possível criptografar a mídia');
+      return;
+    }
+
+    const replyToId = replyingTo?.id;
+    setReplyingTo(null);
+
+    const task = mediaStorageService.startUpload(media, conversationId as string, user.id, progress => {
+      setUploads(prev => prev.map(upload => (upload.id === task.id ? { ...upload, progress } : upload)));
+    });
+    uploadCancelsRef.current.set(task.id, task.cancel);
+    setUploads(prev => [...prev, { id: task.id, conversationId: conversationId as string, media, progress: 0 }]);
+
+    const { data, error } = await task.promise;
+    uploadCancelsRef.current.delete(task.id);
+    setUploads(prev => prev.filter(upload => upload.id !== task.id));
+
+    if (error) {
+      console.error('Error uploading media:', error);
+      showAlert('Erro', 'Não foi possível enviar a mídia');
+      return;
     }
+    if (!data) return; // cancelado
+
+    await outboxService.enqueue(
+      conversationId as string,
+      user.id,
+      label,
+      media.type,
+      replyToId,
+      data.path,
+      { ...media.metadata, size: media.size }
+    );
+  };
+
+  const handleCancelUpload = (uploadId: string) => {
+    uploadCancelsRef.current.get(uploadId)?.();
   };
 
   const handleAudioRecorded = async (audio: MediaFile) => {
@@ -279,35 +746,241 @@ export default function ChatScreen() {
     }
   };
 
+  const isSelectingForward = forwardSelection.length > 0;
+
+  // Mensagem na fila: não tem id no servidor, só permite reenviar ou descartar
+  const handleOutboxPress = (clientId: string) => {
+    const entry = outboxEntries.find(e => e.clientId === clientId);
+    if (!entry) return;
+
+    if (Platform.OS === 'web') {
+      if (confirm('Reenviar mensagem?')) {
+        outboxService.retry(clientId);
+      }
+      return;
+    }
+
+    Alert.alert(
+      entry.status === 'failed' ? 'Falha no envio' : 'Aguardando conexão',
+      entry.status === 'failed' ? 'A mensagem não foi enviada.' : 'A mensagem será enviada assim que possível.',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Descartar', style: 'destructive', onPress: () => outboxService.discard(clientId) },
+        { text: 'Reenviar', onPress: () => outboxService.retry(clientId) },
+      ]
+    );
+  };
+
   const handleMessageLongPress = (messageId: string) => {
+    if (outboxStatusById[messageId]) {
+      handleOutboxPress(messageId);
+      return;
+    }
+
+    const message = messages.find(m => m.id === messageId);
+    if (message?.deleted_at) return;
+
+    if (isSelectingForward) {
+      toggleForwardSelection(messageId);
+      return;
+    }
+
     setSelectedMessage(messageId);
     setActionsVisible(true);
   };
 
+  const handleMessagePress = (messageId: string) => {
+    if (outboxStatusById[messageId] === 'failed') {
+      handleOutboxPress(messageId);
+      return;
+    }
+    if (!isSelectingForward || outboxStatusById[messageId]) return;
+
+    const message = messages.find(m => m.id === messageId);
+    if (message?.deleted_at) return;
+
+    toggleForwardSelection(messageId);
+  };
+
+  const toggleForwardSelection = (messageId: string) => {
+    setForwardSelection(prev =>
+      prev.includes(messageId) ? prev.filter(id => id !== messageId) : [...prev, messageId]
+    );
+  };
+
+  // Encaminhar a partir do menu entra no modo de seleção com a mensagem já marcada
+  const handleForward = (messageId: string) => {
+    setForwardSelection([messageId]);
+  };
+
+  const clearForwardSelection = () => {
+    setForwardSelection([]);
+    setForwardModalVisible(false);
+  };
+
+  // Uma reação por (mensagem, usuário, emoji): substitui a versão otimista ou repetida pelo realtime
+  const mergeReaction = (current: MessageReaction[] | undefined, reaction: MessageReaction) => {
+    const others = (current || []).filter(r =>
+      r.id !== reaction.id && !(r.user_id === reaction.user_id && r.emoji === reaction.emoji)
+    );
+    return [...others, reaction];
+  };
+
+  const updateMessageReactions = (messageId: string, updater: (current: MessageReaction[]) => MessageReaction[]) => {
+    setMessages(prev => prev.map(m => m.id === messageId ? { ...m, reactions: updater(m.reactions || []) } : m));
+  };
+
   const handleAddReaction = async (messageId: string, emoji: string) => {
     if (!user) return;
-    
-    // Update local state
-    setReactions(prev => ({
-      ...prev,
-      [messageId]: {
-        ...prev[messageId],
-        [emoji]: [...(prev[messageId]?.[emoji] || []), user.id]
-      }
-    }));
+
+    const optimistic: MessageReaction = {
+      id: `temp-${Date.now()}`,
+      message_id: messageId,
+      conversation_id: conversationId as string,
+      user_id: user.id,
+      emoji,
+      created_at: new Date().toISOString(),
+    };
+    updateMessageReactions(messageId, current => mergeReaction(current, optimistic));
+
+    const { data, error } = await chatService.addReaction(messageId, conversationId as string, user.id, emoji);
+    if (error || !data) {
+      updateMessageReactions(messageId, current => current.filter(r => r.id !== optimistic.id));
+      showAlert('Erro', 'Não foi possível reagir à mensagem');
+      return;
+    }
+    updateMessageReactions(messageId, current => mergeReaction(current, data));
   };
 
   const handleRemoveReaction = async (messageId: string, emoji: string) => {
     if (!user) return;
-    
-    // Update local state
-    setReactions(prev => ({
-      ...prev,
-      [messageId]: {
-        ...prev[messageId],
-        [emoji]: (prev[messageId]?.[emoji] || []).filter(id => id !== user.id)
+
+    const previous = messages
+      .find(m => m.id === messageId)
+      ?.reactions?.find(r => r.user_id === user.id && r.emoji === emoji);
+    updateMessageReactions(messageId, current =>
+      current.filter(r => !(r.user_id === user.id && r.emoji === emoji))
+    );
+
+    const { error } = await chatService.removeReaction(messageId, user.id, emoji);
+    if (error) {
+      if (previous) updateMessageReactions(messageId, current => mergeReaction(current, previous));
+      showAlert('Erro', 'Não foi possível remover a reação');
+    }
+  };
+
+  // Agrupa as reações por emoji e resolve o nome de quem reagiu
+  const groupReactions = (messageReactions: MessageReaction[] = []) => {
+    const byEmoji: { [emoji: string]: string[] } = {};
+    const names: { [userId: string]: string } = {};
+
+    messageReactions.forEach(reaction => {
+      byEmoji[reaction.emoji] = [...(byEmoji[reaction.emoji] || []), reaction.user_id];
+
+      if (reaction.user_id === user?.id) {
+        names[reaction.user_id] = 'Você';
+      } else {
+        const participant = participants.find(p => p.user_id === reaction.user_id)?.user;
+        names[reaction.user_id] =
+          reaction.user?.full_name || reaction.user?.username ||
+          participant?.full_name || participant?.username ||
+          (!isGroup && userName as string) || 'Usuário';
       }
-    }));
+    });
+
+    return { byEmoji, names };
+  };
+
+  const handleReply = (messageId: string) => {
+    const message = messages.find(m => m.id === messageId);
+    if (message) {
+      if (editingMessage) cancelEdit();
+      setReplyingTo(message);
+    }
+  };
+
+  const highlightMessage = (messageId: string) => {
+    if (highlightTimeoutRef.current) {
+      clearTimeout(highlightTimeoutRef.current);
+    }
+    setHighlightedMessageId(messageId);
+    highlightTimeoutRef.current = setTimeout(() => setHighlightedMessageId(null), 2000);
+  };
+
+  const scrollToMessage = async (messageId: string) => {
+    const index = messages.findIndex(m => m.id === messageId);
+    if (index >= 0) {
+      flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+      highlightMessage(messageId);
+      return;
+    }
+
+    // A mensagem ainda não está carregada: substituir a lista pela janela ao redor dela
+    try {
+      const page = await chatService.getMessagesAround(conversationId as string, messageId, user?.id);
+      if (page.error || !page.data) {
+        showAlert('Mensagem indisponível', 'A mensagem original não foi encontrada');
+        return;
+      }
+
+      pendingScrollRef.current = messageId;
+      setMessages(page.data);
+      applyPage(page);
+    } catch (error) {
+      console.error('Error loading replied message:', error);
+    }
+  };
+  scrollToMessageRef.current = scrollToMessage;
+
+  // Vindo da galeria: posicionar na mensagem escolhida assim que a conversa carregar
+  useEffect(() => {
+    if (!jumpTo || loading || messages.length === 0 || handledJumpRef.current === jumpTo) return;
+    handledJumpRef.current = jumpTo as string;
+    scrollToMessageRef.current(jumpTo as string);
+  }, [jumpTo, loading, messages.length]);
+
+  const handleScrollToIndexFailed = (info: { index: number; averageItemLength: number }) => {
+    // Itens ainda não medidos: aproximar o offset e tentar de novo
+    flatListRef.current?.scrollToOffset({ offset: info.averageItemLength * info.index, animated: false });
+    setTimeout(() => {
+      flatListRef.current?.scrollToIndex({ index: info.index, animated: true, viewPosition: 0.5 });
+    }, 100);
+  };
+
+  const handleContentSizeChange = () => {
+    // Não voltar ao fim enquanto o usuário navega até uma mensagem citada
+    if (pendingScrollRef.current || highlightedMessageId) return;
+    // Só acompanhar novas mensagens se o usuário já estiver no fim (páginas antigas mantêm a posição)
+    if (!isNearBottomRef.current || hasMoreAfterRef.current) return;
+    scrollToBottom();
+  };
+
+  const handleDelete = async (messageId: string, mode: DeleteMode) => {
+    if (!user) return;
+
+    try {
+      if (mode === 'everyone') {
+        const { data, error } = await chatService.deleteMessageForEveryone(messageId, user.id);
+        if (error || !data) {
+          showAlert('Erro', error?.message || 'Não foi possível apagar a mensagem');
+          return;
+        }
+        setMessages(prev => prev.map(m => m.id === data.id ? { ...m, ...data } : m));
+      } else {
+        const { error } = await chatService.deleteMessageForMe(messageId, user.id);
+        if (error) {
+          showAlert('Erro', 'Não foi possível apagar a mensagem');
+          return;
+        }
+        setMessages(prev => prev.filter(m => m.id !== messageId));
+      }
+
+      if (replyingTo?.id === messageId) setReplyingTo(null);
+      if (editingMessage?.id === messageId) cancelEdit();
+    } catch (error) {
+      console.error('Error deleting message:', error);
+      showAlert('Erro', 'Erro de conexão');
+    }
   };
 
   const handleToggleFavorite = async (messageId: string) => {
@@ -351,39 +1024,155 @@ export default function ChatScreen() {
   const getMessageStatus = (message: Message) => {
     if (message.sender_id !== user?.id) return null;
     
-    if (sending) return 'sending';
-    if (message.is_read) return 'read';
-    return 'delivered';
+    if (outboxStatusById[message.id]) return outboxStatusById[message.id];
+    return chatService.getReceiptStatus(message, isGroup ? participants.length - 1 : 1);
+  };
+
+  // Mensagens da fila aparecem no fim até o servidor confirmar (o realtime traz o mesmo client_id)
+  const confirmedClientIds = new Set(messages.map(m => m.client_id).filter(Boolean));
+  const pendingEntries = outboxEntries.filter(entry => !confirmedClientIds.has(entry.clientId));
+  const outboxStatusById: { [clientId: string]: OutboxEntry['status'] } = {};
+  pendingEntries.forEach(entry => {
+    outboxStatusById[entry.clientId] = entry.status;
+  });
+  const displayMessages: Message[] = [
+    ...messages,
+    ...(hasMoreAfter ? [] : pendingEntries.map((entry): Message => {
+      const replied = entry.replyToId ? messages.find(m => m.id === entry.replyToId) : undefined;
+      return {
+        id: entry.clientId,
+        conversation_id: entry.conversationId,
+        sender_id: entry.senderId,
+        content: entry.content,
+        message_type: entry.messageType,
+        reply_to_id: entry.replyToId,
+        media_url: entry.mediaUrl ?? undefined,
+        media_metadata: entry.mediaMetadata,
+        client_id: entry.clientId,
+        is_read: false,
+        created_at: entry.createdAt,
+        reply_to: replied || null,
+      };
+    })),
+  ];
+
+  const renderEncryptedContent = (opened: OpenedMessage | undefined, isMyMessage: boolean) => {
+    if (!opened) {
+      return <Text style={styles.integrityText}>Descriptografando...</Text>;
+    }
+
+    if (opened.status === 'tampered') {
+      return (
+        <View style={styles.integrityRow}>
+          <MaterialIcons name="report" size={16} color={Colors.error} />
+          <Text style={[styles.integrityText, styles.tamperedText]}>
+            Mensagem adulterada: a assinatura não confere
+          </Text>
+        </View>
+      );
+    }
+
+    if (opened.status === 'undecryptable' || opened.content === null) {
+      return (
+        <View style={styles.integrityRow}>
+          <MaterialIcons name="lock" size={16} color={Colors.textMuted} />
+          <Text style={styles.integrityText}>Não foi possível descriptografar esta mensagem</Text>
+        </View>
+      );
+    }
+
+    return (
+      <Text style={[styles.messageText, isMyMessage ? styles.myMessageText : styles.otherMessageText]}>
+        {opened.content}
+        {opened.status === 'verified' ? ' 🔒' : ' 🔓'}
+      </Text>
+    );
   };
 
   const renderMessage = ({ item, index }: { item: Message; index: number }) => {
     const isMyMessage = item.sender_id === user?.id;
-    const showAvatar = !isMyMessage && (index === 0 || messages[index - 1].sender_id !== item.sender_id);
-    const messageReactions = reactions[item.id] || {};
+    const showAvatar = !isMyMessage && (index === 0 || displayMessages[index - 1].sender_id !== item.sender_id);
+    const messageReactions = groupReactions(item.reactions);
+    const avatarUri = isGroup ? item.sender?.avatar_url : avatar as string;
+    const isDeleted = !!item.deleted_at;
+    const isForwardSelected = forwardSelection.includes(item.id);
+    const isEncrypted = !!openedMessages[openedKey(item)] || !!AnvicCrypto.parseEnvelope(item.content);
 
     return (
       <TouchableOpacity
+        onPress={() => handleMessagePress(item.id)}
         onLongPress={() => handleMessageLongPress(item.id)}
         activeOpacity={0.7}
+        style={isForwardSelected && styles.forwardSelectedRow}
       >
         <View style={[styles.messageContainer, isMyMessage ? styles.myMessageContainer : styles.otherMessageContainer]}>
           {showAvatar && !isMyMessage && (
             <Image
               source={{ 
-                uri: avatar as string || 'https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=40&h=40&fit=crop&crop=face'
+                uri: avatarUri || 'https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=40&h=40&fit=crop&crop=face'
               }}
               style={styles.messageAvatar}
             />
           )}
           {!showAvatar && !isMyMessage && <View style={styles.avatarSpacer} />}
           
-          <View style={[styles.messageBubble, isMyMessage ? styles.myMessageBubble : styles.otherMessageBubble]}>
-            <Text style={[styles.messageText, isMyMessage ? styles.myMessageText : styles.otherMessageText]}>
-              {item.content}
-              {isPrivateMode && ' 🔒'}
-            </Text>
+          <View style={[
+            styles.messageBubble,
+            isMyMessage ? styles.myMessageBubble : styles.otherMessageBubble,
+            highlightedMessageId === item.id && styles.highlightedBubble,
+          ]}>
+            {isGroup && showAvatar && (
+              <Text style={styles.senderName}>
+                {item.sender?.full_name || item.sender?.username || 'Usuário'}
+              </Text>
+            )}
+            {item.forwarded_from_message_id && !isDeleted && (
+              <View style={styles.forwardedRow}>
+                <MaterialIcons name="forward" size={14} color={Colors.textMuted} />
+                <Text style={styles.forwardedText} numberOfLines={1}>
+                  Encaminhada
+                  {item.forwarded_from_sender &&
+                    ` de ${item.forwarded_from_sender_id === user?.id
+                      ? 'você'
+                      : item.forwarded_from_sender.full_name || item.forwarded_from_sender.username}`}
+                </Text>
+              </View>
+            )}
+            {item.reply_to && !isDeleted && (
+              <ReplyQuote
+                message={item.reply_to}
+                openedContent={openedMessages[openedKey(item.reply_to)]?.content}
+                currentUserId={user?.id}
+                isMyBubble={isMyMessage}
+                onPress={() => scrollToMessage(item.reply_to!.id)}
+              />
+            )}
+            {isDeleted ? (
+              <View style={styles.deletedRow}>
+                <MaterialIcons name="block" size={14} color={Colors.textMuted} />
+                <Text style={styles.deletedText}>
+                  {isMyMessage ? 'Você apagou esta mensagem' : 'Esta mensagem foi apagada'}
+                </Text>
+              </View>
+            ) : item.media_url ? (
+              <MediaMessage message={item} userId={user?.id || ''} isMyMessage={isMyMessage} />
+            ) : isEncrypted ? (
+              renderEncryptedContent(openedMessages[openedKey(item)], isMyMessage)
+            ) : (
+              <Text style={[styles.messageText, isMyMessage ? styles.myMessageText : styles.otherMessageText]}>
+                {item.content}
+                {isPrivateMode && ' 🔒'}
+              </Text>
+            )}
             
             <View style={styles.messageFooter}>
+              {item.edited_at && !isDeleted && (
+                <TouchableOpacity onPress={() => setHistoryMessage(item)}>
+                  <Text style={[styles.editedBadge, isMyMessage ? styles.myMessageTime : styles.otherMessageTime]}>
+                    editada
+                  </Text>
+                </TouchableOpacity>
+              )}
               <Text style={[styles.messageTime, isMyMessage ? styles.myMessageTime : styles.otherMessageTime]}>
                 {formatMessageTime(item.created_at)}
               </Text>
@@ -394,62 +1183,119 @@ export default function ChatScreen() {
           </View>
         </View>
 
-        <MessageReactions
-          messageId={item.id}
-          reactions={messageReactions}
-          currentUserId={user?.id || ''}
-          onAddReaction={handleAddReaction}
-          onRemoveReaction={handleRemoveReaction}
-        />
+        {!isDeleted && (
+          <MessageReactions
+            messageId={item.id}
+            reactions={messageReactions.byEmoji}
+            reactorNames={messageReactions.names}
+            currentUserId={user?.id || ''}
+            onAddReaction={handleAddReaction}
+            onRemoveReaction={handleRemoveReaction}
+          />
+        )}
       </TouchableOpacity>
     );
   };
 
+  const selectedMessageData = selectedMessage ? messages.find(m => m.id === selectedMessage) : undefined;
+
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       <KeyboardAvoidingView style={styles.container} behavior={Platform.OS === 'ios' ? 'padding' : 'height'}>
         {/* Header */}
-        <View style={[styles.header, isPrivateMode && styles.privateHeader]}>
-          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
-            <MaterialIcons name="arrow-back" size={24} color={Colors.text} />
-          </TouchableOpacity>
-          
-          <View style={styles.headerInfo}>
-            <Image
-              source={{ 
-                uri: avatar as string || 'https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=40&h=40&fit=crop&crop=face'
-              }}
-              style={styles.headerAvatar}
-            />
-            <View style={styles.headerText}>
-              <Text style={styles.headerName}>
-                {userName || 'Usuário'}
-                {isPrivateMode && ' 😈'}
-              </Text>
-              <Text style={styles.headerStatus}>
-                {isBlocked ? 'Bloqueado' : 
-                 otherUserTyping ? 'digitando...' :
-                 isPrivateMode ? 'Modo Privado Ativo' : 'online'}
-              </Text>
-            </View>
+        {isSelectingForward ? (
+          <View style={[styles.header, isPrivateMode && styles.privateHeader]}>
+            <TouchableOpacity onPress={clearForwardSelection} style={styles.backButton}>
+              <MaterialIcons name="close" size={24} color={Colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.selectionTitle}>
+              {forwardSelection.length} {forwardSelection.length === 1 ? 'selecionada' : 'selecionadas'}
+            </Text>
+            <TouchableOpacity style={styles.headerButton} onPress={() => setForwardModalVisible(true)}>
+              <MaterialIcons name="forward" size={24} color={Colors.primary} />
+            </TouchableOpacity>
           </View>
+        ) : (
+          <View style={[styles.header, isPrivateMode && styles.privateHeader]}>
+            <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+              <MaterialIcons name="arrow-back" size={24} color={Colors.text} />
+            </TouchableOpacity>
+            
+            <TouchableOpacity
+              style={styles.headerInfo}
+              onPress={() => isGroup && setGroupInfoVisible(true)}
+              activeOpacity={isGroup ? 0.7 : 1}
+            >
+              {isGroup && !avatar ? (
+                <View style={[styles.headerAvatar, styles.groupAvatarPlaceholder]}>
+                  <MaterialIcons name="group" size={20} color={Colors.text} />
+                </View>
+              ) : (
+                <Image
+                  source={{ 
+                    uri: avatar as string || 'https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=40&h=40&fit=crop&crop=face'
+                  }}
+                  style={styles.headerAvatar}
+                />
+              )}
+              <View style={styles.headerText}>
+                <Text style={styles.headerName}>
+                  {userName || (isGroup ? 'Grupo' : 'Usuário')}
+                  {isPrivateMode && ' 😈'}
+                </Text>
+                <Text style={styles.headerStatus}>
+                  {isBlocked ? 'Bloqueado' : 
+                   otherUserTyping ? 'digitando...' :
+                   isPrivateMode ? 'Modo Privado Ativo' :
+                   isGroup ? `${participants.length} participantes` : 'online'}
+                </Text>
+              </View>
+            </TouchableOpacity>
 
-          <View style={styles.headerActions}>
-            {!isBlocked && (
-              <>
-                <TouchableOpacity style={styles.headerButton}>
-                  <MaterialIcons name="videocam" size={24} color={Colors.primary} />
+            <View style={styles.headerActions}>
+              {!isBlocked && !isGroup && (
+                <>
+                  <TouchableOpacity style={styles.headerButton} onPress={() => startCall('video')}>
+                    <MaterialIcons name="videocam" size={24} color={Colors.primary} />
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.headerButton} onPress={() => startCall('voice')}>
+                    <MaterialIcons name="call" size={24} color={Colors.primary} />
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.headerButton} onPress={() => setSafetyNumberVisible(true)}>
+                    <MaterialIcons
+                      name={contactKeyRecord?.keyChangedAt ? 'warning' : 'verified-user'}
+                      size={24}
+                      color={
+                        contactKeyRecord?.keyChangedAt ? Colors.warning :
+                        contactKeyRecord?.verified ? Colors.success : Colors.primary
+                      }
+                    />
+                  </TouchableOpacity>
+                </>
+              )}
+              <TouchableOpacity style={styles.headerButton} onPress={() => setDatePickerVisible(true)}>
+                <MaterialIcons name="event" size={24} color={Colors.primary} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.headerButton}
+                onPress={() => router.push(
+                  `/gallery/${conversationId}?userName=${userName}&avatar=${avatar || ''}&otherUserId=${otherUserId || ''}&isGroup=${isGroupParam || ''}`
+                )}
+              >
+                <MaterialIcons name="perm-media" size={24} color={Colors.primary} />
+              </TouchableOpacity>
+              {isGroup ? (
+                <TouchableOpacity style={styles.headerButton} onPress={() => setGroupInfoVisible(true)}>
+                  <MaterialIcons name="info-outline" size={24} color={Colors.primary} />
                 </TouchableOpacity>
-                <TouchableOpacity style={styles.headerButton}>
-                  <MaterialIcons name="call" size={24} color={Colors.primary} />
+              ) : (
+                <TouchableOpacity style={styles.headerButton} onPress={handleBlockUser}>
+                  <MaterialIcons name="block" size={24} color={Colors.error} />
                 </TouchableOpacity>
-              </>
-            )}
-            <TouchableOpacity style={styles.headerButton} onPress={handleBlockUser}>
-              <MaterialIcons name="block" size={24} color={Colors.error} />
-            </TouchableOpacity>
+              )}
+            </View>
           </View>
-        </View>
+        )}
 
         {/* Private Mode Warning */}
         {isPrivateMode && (
@@ -461,16 +1307,43 @@ export default function ChatScreen() {
           </View>
         )}
 
+        {/* Key Change Warning */}
+        {!isGroup && contactKeyRecord?.keyChangedAt && (
+          <View style={styles.keyChangeWarning}>
+            <MaterialIcons name="warning" size={18} color={Colors.warning} />
+            <Text style={styles.keyChangeText}>
+              O número de segurança com {userName || 'este contato'} mudou
+            </Text>
+            <TouchableOpacity onPress={() => setSafetyNumberVisible(true)}>
+              <Text style={styles.keyChangeAction}>Verificar</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={dismissKeyChangeWarning} style={styles.keyChangeDismiss}>
+              <MaterialIcons name="close" size={18} color={Colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Messages */}
         <FlatList
           ref={flatListRef}
-          data={messages}
+          data={displayMessages}
           renderItem={renderMessage}
           keyExtractor={(item) => item.id}
           style={styles.messagesList}
           contentContainerStyle={styles.messagesContent}
           showsVerticalScrollIndicator={false}
-          onContentSizeChange={scrollToBottom}
+          onContentSizeChange={handleContentSizeChange}
+          onScrollToIndexFailed={handleScrollToIndexFailed}
+          onScroll={handleScroll}
+          scrollEventThrottle={100}
+          onStartReached={loadOlderMessages}
+          onStartReachedThreshold={0.2}
+          onEndReached={loadNewerMessages}
+          onEndReachedThreshold={0.2}
+          maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
+          ListHeaderComponent={
+            loadingOlder ? <ActivityIndicator color={Colors.primary} style={styles.pageLoader} /> : null
+          }
           ListEmptyComponent={
             !loading ? (
               <View style={styles.emptyContainer}>
@@ -484,7 +1357,9 @@ export default function ChatScreen() {
             ) : null
           }
           ListFooterComponent={
-            otherUserTyping ? (
+            loadingNewer ? (
+              <ActivityIndicator color={Colors.primary} style={styles.pageLoader} />
+            ) : otherUserTyping ? (
               <TypingIndicator 
                 isTyping={otherUserTyping} 
                 userName={userName as string} 
@@ -493,9 +1368,66 @@ export default function ChatScreen() {
           }
         />
 
+        {hasMoreAfter && (
+          <TouchableOpacity style={styles.jumpToLatestButton} onPress={loadMessages}>
+            <MaterialIcons name="keyboard-arrow-down" size={24} color={Colors.text} />
+          </TouchableOpacity>
+        )}
+
+        {datePickerVisible && (
+          <DateTimePicker
+            value={new Date()}
+            mode="date"
+            display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+            maximumDate={new Date()}
+            onChange={(event, date) => {
+              setDatePickerVisible(Platform.OS === 'ios' && event.type !== 'set');
+              if (event.type === 'set' && date) jumpToDate(date);
+            }}
+          />
+        )}
+
         {/* Input */}
+        {!isBlocked && <MediaUploadList uploads={uploads} onCancel={handleCancelUpload} />}
+
+        {!isBlocked && transfers.length > 0 && (
+          <TouchableOpacity style={styles.transfersBanner} onPress={() => router.push('/transfers')}>
+            <MaterialIcons
+              name={transfers.some(t => t.status === 'failed') ? 'error-outline' : 'cloud-upload'}
+              size={18}
+              color={transfers.some(t => t.status === 'failed') ? Colors.error : Colors.primary}
+            />
+            <Text style={styles.transfersBannerText}>
+              {transfers.length === 1 ? '1 arquivo sendo enviado' : `${transfers.length} arquivos sendo enviados`}
+            </Text>
+            <MaterialIcons name="chevron-right" size={20} color={Colors.textMuted} />
+          </TouchableOpacity>
+        )}
+
         {!isBlocked && (
           <View style={[styles.inputContainer, isPrivateMode && styles.privateInputContainer]}>
+            {editingMessage && (
+              <View style={styles.editComposer}>
+                <MaterialIcons name="edit" size={18} color={Colors.primaryLight} />
+                <View style={styles.editComposerText}>
+                  <Text style={styles.editComposerTitle}>Editando mensagem</Text>
+                  <Text style={styles.editComposerPreview} numberOfLines={1}>{editingMessage.content}</Text>
+                </View>
+                <TouchableOpacity onPress={cancelEdit} style={styles.editComposerClose}>
+                  <MaterialIcons name="close" size={18} color={Colors.textMuted} />
+                </TouchableOpacity>
+              </View>
+            )}
+            {replyingTo && (
+              <ReplyQuote
+                message={replyingTo}
+                openedContent={openedMessages[openedKey(replyingTo)]?.content}
+                currentUserId={user?.id}
+                onPress={() => scrollToMessage(replyingTo.id)}
+                onDismiss={() => setReplyingTo(null)}
+                style={styles.replyComposer}
+              />
+            )}
             <View style={styles.inputRow}>
               <TouchableOpacity 
                 style={styles.attachButton}
@@ -506,8 +1438,8 @@ export default function ChatScreen() {
               
               <AudioRecorder
                 onAudioRecorded={handleAudioRecorded}
-                enableEncryption={isPrivateMode}
                 userId={user?.id}
+                conversationId={conversationId as string}
                 style={styles.audioButton}
               />
               
@@ -527,7 +1459,7 @@ export default function ChatScreen() {
                 disabled={!newMessage.trim() || sending}
               >
                 <MaterialIcons 
-                  name="send" 
+                  name={editingMessage ? 'check' : 'send'}
                   size={20} 
                   color={!newMessage.trim() || sending ? Colors.textMuted : Colors.text} 
                 />
@@ -547,8 +1479,16 @@ export default function ChatScreen() {
           visible={mediaPickerVisible}
           onClose={() => setMediaPickerVisible(false)}
           onMediaSelected={handleMediaSelected}
-          enableEncryption={isPrivateMode}
+          onPickFile={() => setFileShareVisible(true)}
+          privateMode={isPrivateMode}
           userId={user?.id}
+          conversationId={conversationId as string}
+        />
+
+        <FileShareModal
+          visible={fileShareVisible}
+          onClose={() => setFileShareVisible(false)}
+          conversationId={conversationId as string}
         />
 
         {/* Message Actions Modal */}
@@ -556,15 +1496,59 @@ export default function ChatScreen() {
           visible={actionsVisible}
           onClose={() => setActionsVisible(false)}
           messageId={selectedMessage || ''}
-          isOwnMessage={selectedMessage ? messages.find(m => m.id === selectedMessage)?.sender_id === user?.id : false}
+          isOwnMessage={selectedMessageData?.sender_id === user?.id}
           isFavorited={false}
-          onEdit={(messageId) => console.log('Edit:', messageId)}
-          onDelete={(messageId) => console.log('Delete:', messageId)}
+          canDeleteForEveryone={
+            !!selectedMessageData &&
+            selectedMessageData.sender_id === user?.id &&
+            chatService.canDeleteForEveryone(selectedMessageData.created_at, deleteWindowMs)
+          }
+          deleteWindowMs={deleteWindowMs}
+          onEdit={handleEdit}
+          onDelete={handleDelete}
           onToggleFavorite={handleToggleFavorite}
-          onReply={(messageId) => console.log('Reply:', messageId)}
-          onForward={(messageId) => console.log('Forward:', messageId)}
+          onReply={handleReply}
+          onForward={handleForward}
           onCopy={(messageId) => console.log('Copy:', messageId)}
         />
+
+        <ForwardMessageModal
+          visible={forwardModalVisible}
+          onClose={() => setForwardModalVisible(false)}
+          messageIds={forwardSelection}
+          onForwarded={clearForwardSelection}
+        />
+
+        {!isGroup && otherUserId && (
+          <SafetyNumberModal
+            visible={safetyNumberVisible}
+            onClose={() => setSafetyNumberVisible(false)}
+            conversationId={conversationId as string}
+            contactId={otherUserId as string}
+            contactName={(userName as string) || 'Usuário'}
+            onRecordChange={setContactKeyRecord}
+          />
+        )}
+
+        <EditHistoryModal
+          visible={!!historyMessage}
+          onClose={() => setHistoryMessage(null)}
+          message={historyMessage ? messages.find(m => m.id === historyMessage.id) || historyMessage : null}
+        />
+
+        {isGroup && (
+          <GroupInfoModal
+            visible={groupInfoVisible}
+            onClose={() => {
+              setGroupInfoVisible(false);
+              loadParticipants();
+            }}
+            conversationId={conversationId as string}
+            groupName={userName as string || 'Grupo'}
+            groupAvatar={avatar as string || undefined}
+            onLeftGroup={() => router.back()}
+          />
+        )}
       </KeyboardAvoidingView>
     </SafeAreaView>
   );
@@ -602,6 +1586,11 @@ const styles = StyleSheet.create({
     borderRadius: 18,
     marginRight: 12,
   },
+  groupAvatarPlaceholder: {
+    backgroundColor: Colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   headerText: {
     flex: 1,
   },
@@ -636,6 +1625,45 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     marginLeft: 8,
   },
+  transfersBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+    backgroundColor: Colors.surface,
+  },
+  transfersBannerText: {
+    flex: 1,
+    color: Colors.textSecondary,
+    fontSize: 13,
+    marginLeft: 8,
+  },
+  keyChangeWarning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.warning + '20',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.warning + '40',
+  },
+  keyChangeText: {
+    flex: 1,
+    color: Colors.text,
+    fontSize: 13,
+    marginLeft: 8,
+  },
+  keyChangeAction: {
+    color: Colors.warning,
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  keyChangeDismiss: {
+    marginLeft: 12,
+  },
   messagesList: {
     flex: 1,
   },
@@ -679,6 +1707,51 @@ const styles = StyleSheet.create({
     backgroundColor: Colors.surface,
     borderBottomLeftRadius: 6,
   },
+  highlightedBubble: {
+    borderWidth: 2,
+    borderColor: Colors.warning,
+  },
+  pageLoader: {
+    paddingVertical: 12,
+  },
+  jumpToLatestButton: {
+    position: 'absolute',
+    right: 16,
+    bottom: 90,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: Colors.surface,
+    alignItems: 'center',
+    justifyContent: 'center',
+    elevation: 4,
+  },
+  forwardSelectedRow: {
+    backgroundColor: Colors.primary + '30',
+  },
+  forwardedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  forwardedText: {
+    color: Colors.textMuted,
+    fontSize: 12,
+    fontStyle: 'italic',
+    marginLeft: 4,
+  },
+  selectionTitle: {
+    flex: 1,
+    color: Colors.text,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  senderName: {
+    color: Colors.primaryLight,
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
   messageText: {
     fontSize: 16,
     lineHeight: 20,
@@ -698,6 +1771,36 @@ const styles = StyleSheet.create({
   messageTime: {
     fontSize: 11,
   },
+  deletedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  integrityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexShrink: 1,
+  },
+  integrityText: {
+    color: Colors.textMuted,
+    fontSize: 15,
+    fontStyle: 'italic',
+    marginLeft: 6,
+    flexShrink: 1,
+  },
+  tamperedText: {
+    color: Colors.error,
+  },
+  deletedText: {
+    color: Colors.textMuted,
+    fontSize: 15,
+    fontStyle: 'italic',
+    marginLeft: 6,
+  },
+  editedBadge: {
+    fontSize: 11,
+    fontStyle: 'italic',
+    marginRight: 6,
+  },
   myMessageTime: {
     color: Colors.text,
     opacity: 0.7,
@@ -720,6 +1823,34 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'flex-end',
   },
+  replyComposer: {
+    marginBottom: 8,
+  },
+  editComposer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surfaceVariant,
+    borderRadius: 8,
+    paddingLeft: 10,
+    marginBottom: 8,
+  },
+  editComposerText: {
+    flex: 1,
+    marginLeft: 8,
+    paddingVertical: 6,
+  },
+  editComposerTitle: {
+    color: Colors.primaryLight,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  editComposerPreview: {
+    color: Colors.textSecondary,
+    fontSize: 13,
+  },
+  editComposerClose: {
+    padding: 8,
+  },
   attachButton: {
     marginRight: 8,
     padding: 8,
@@ -0,0 +1,354 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+  Linking,
+  useWindowDimensions,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/hooks/useAuth';
+import { useMediaPreview } from '@/hooks/useMediaPreview';
+import { chatService, SharedMediaKind } from '@/services/endpoints/chat';
+import { mediaStorageService } from '@/services/media-storage';
+import { Message } from '@/services/types';
+import MediaMessage from '@/components/ui/MediaMessage';
+import MediaViewer from '@/components/ui/MediaViewer';
+
+const TABS: { kind: SharedMediaKind; title: string }[] = [
+  { kind: 'media', title: 'Mídia' },
+  { kind: 'files', title: 'Arquivos' },
+  { kind: 'links', title: 'Links' },
+  { kind: 'audio', title: 'Áudio' },
+];
+
+const EMPTY_MESSAGES: { [key in SharedMediaKind]: string } = {
+  media: 'Nenhuma foto ou vídeo nesta conversa',
+  files: 'Nenhum arquivo nesta conversa',
+  links: 'Nenhum link nesta conversa',
+  audio: 'Nenhum áudio nesta conversa',
+};
+
+const GRID_COLUMNS = 3;
+const URL_REGEX = /https?:\/\/[^\s]+/g;
+
+// Galeria da conversa: fotos, vídeos, arquivos, links e áudios compartilhados
+export default function ConversationGalleryScreen() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const { width } = useWindowDimensions();
+  const { id: conversationId, userName, avatar, otherUserId, isGroup } = useLocalSearchParams();
+  const [activeTab, setActiveTab] = useState<SharedMediaKind>('media');
+  const [items, setItems] = useState<Message[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+
+  const loadItems = useCallback(async (kind: SharedMediaKind, before?: string) => {
+    if (!conversationId) return;
+
+    setLoading(true);
+    try {
+      const { data, hasMore: more, error } = await chatService.getSharedMedia(
+        conversationId as string,
+        kind,
+        user?.id,
+        { before }
+      );
+      if (!error && data) {
+        setItems(prev => (before ? [...prev, ...data] : data));
+        setHasMore(more);
+      }
+    } catch (error) {
+      console.error('Error loading shared media:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [conversationId, user?.id]);
+
+  useEffect(() => {
+    setItems([]);
+    setHasMore(false);
+    loadItems(activeTab);
+  }, [activeTab, loadItems]);
+
+  const loadMore = () => {
+    if (loading || !hasMore || items.length === 0) return;
+    loadItems(activeTab, items[items.length - 1].created_at);
+  };
+
+  // Volta para a conversa e posiciona na mensagem original
+  const jumpToMessage = (message: Message) => {
+    router.navigate(
+      `/chat/${conversationId}?userName=${userName}&avatar=${avatar || ''}&otherUserId=${otherUserId || ''}&isGroup=${isGroup || ''}&jumpTo=${message.id}`
+    );
+  };
+
+  const openFile = async (message: Message) => {
+    if (!message.media_url || !user) return;
+    // Arquivos enviados cifrados são abertos a partir da cópia descriptografada no aparelho
+    const { data: uri } = await mediaStorageService.resolveMediaUri(message.media_url, user.id);
+    if (uri) Linking.openURL(uri);
+  };
+
+  const formatDate = (timestamp: string) =>
+    new Date(timestamp).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric' });
+
+  const renderMediaCell = ({ item, index }: { item: Message; index: number }) => (
+    <TouchableOpacity
+      style={{ width: width / GRID_COLUMNS, height: width / GRID_COLUMNS, padding: 1 }}
+      onPress={() => setViewerIndex(index)}
+      activeOpacity={0.8}
+    >
+      <GridThumbnail message={item} userId={user?.id || ''} />
+    </TouchableOpacity>
+  );
+
+  const renderListItem = ({ item }: { item: Message }) => {
+    const links = activeTab === 'links' ? item.content.match(URL_REGEX) || [] : [];
+
+    return (
+      <View style={styles.listItem}>
+        <View style={styles.listContent}>
+          {activeTab === 'audio' && (
+            <MediaMessage message={item} userId={user?.id || ''} isMyMessage={false} />
+          )}
+          {activeTab === 'files' && (
+            <TouchableOpacity style={styles.fileRow} onPress={() => openFile(item)}>
+              <MaterialIcons name="insert-drive-file" size={28} color={Colors.primary} />
+              <FileName message={item} />
+            </TouchableOpacity>
+          )}
+          {links.map(link => (
+            <TouchableOpacity key={link} onPress={() => Linking.openURL(link)}>
+              <Text style={styles.linkText} numberOfLines={2}>{link}</Text>
+            </TouchableOpacity>
+          ))}
+          <Text style={styles.itemMeta}>
+            {item.sender_id === user?.id ? 'Você' : item.sender?.full_name || item.sender?.username || 'Usuário'}
+            {' • '}
+            {formatDate(item.created_at)}
+          </Text>
+        </View>
+        <TouchableOpacity style={styles.jumpButton} onPress={() => jumpToMessage(item)}>
+          <MaterialIcons name="chat" size={20} color={Colors.textSecondary} />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <MaterialIcons name="arrow-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>{userName || 'Conversa'}</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <View style={styles.tabs}>
+        {TABS.map(tab => (
+          <TouchableOpacity
+            key={tab.kind}
+            style={[styles.tab, activeTab === tab.kind && styles.activeTab]}
+            onPress={() => setActiveTab(tab.kind)}
+          >
+            <Text style={[styles.tabText, activeTab === tab.kind && styles.activeTabText]}>{tab.title}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <FlatList
+        key={activeTab === 'media' ? 'grid' : 'list'}
+        data={items}
+        numColumns={activeTab === 'media' ? GRID_COLUMNS : 1}
+        renderItem={activeTab === 'media' ? renderMediaCell : renderListItem}
+        keyExtractor={(item) => item.id}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListEmptyComponent={
+          loading ? null : (
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyText}>{EMPTY_MESSAGES[activeTab]}</Text>
+            </View>
+          )
+        }
+        ListFooterComponent={
+          loading ? <ActivityIndicator color={Colors.primary} style={styles.loadingIndicator} /> : null
+        }
+      />
+
+      <MediaViewer
+        visible={viewerIndex !== null}
+        items={activeTab === 'media' ? items : []}
+        initialIndex={viewerIndex ?? 0}
+        userId={user?.id || ''}
+        onClose={() => setViewerIndex(null)}
+        onJumpToMessage={jumpToMessage}
+      />
+    </SafeAreaView>
+  );
+}
+
+// O nome do arquivo vai cifrado no conteúdo da mensagem
+function FileName({ message }: { message: Message }) {
+  const { label } = useMediaPreview(message);
+
+  return (
+    <Text style={styles.fileName} numberOfLines={2}>
+      {label?.replace(/^📎 /, '') || 'Arquivo'}
+    </Text>
+  );
+}
+
+function GridThumbnail({ message, userId }: { message: Message; userId: string }) {
+  const [uri, setUri] = useState<string | null>(null);
+  const isVideo = message.message_type === 'video';
+  const { blurhash } = useMediaPreview(message);
+
+  useEffect(() => {
+    if (!message.media_url || isVideo) return;
+
+    let cancelled = false;
+    mediaStorageService.resolveMediaUri(message.media_url, userId).then(({ data }) => {
+      if (!cancelled && data) setUri(data);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [message.media_url, userId, isVideo]);
+
+  return (
+    <View style={styles.thumbnail}>
+      {!isVideo && (
+        <Image
+          source={uri ? { uri } : null}
+          placeholder={blurhash ? { blurhash } : undefined}
+          style={styles.thumbnailImage}
+          contentFit="cover"
+          transition={150}
+        />
+      )}
+      {isVideo && <MaterialIcons name="play-circle-outline" size={36} color={Colors.text} />}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    flex: 1,
+    color: Colors.text,
+    fontSize: 18,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginHorizontal: 12,
+  },
+  placeholder: {
+    width: 32,
+  },
+  tabs: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  tab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  activeTab: {
+    borderBottomColor: Colors.primary,
+  },
+  tabText: {
+    color: Colors.textSecondary,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  activeTabText: {
+    color: Colors.primary,
+  },
+  thumbnail: {
+    flex: 1,
+    backgroundColor: Colors.surfaceVariant,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  thumbnailImage: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  listItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.divider,
+  },
+  listContent: {
+    flex: 1,
+  },
+  fileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  fileName: {
+    flex: 1,
+    color: Colors.text,
+    fontSize: 15,
+    marginLeft: 12,
+  },
+  linkText: {
+    color: Colors.primary,
+    fontSize: 14,
+    textDecorationLine: 'underline',
+    marginBottom: 4,
+  },
+  itemMeta: {
+    color: Colors.textMuted,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  jumpButton: {
+    padding: 8,
+    marginLeft: 8,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    color: Colors.textSecondary,
+    fontSize: 15,
+  },
+  loadingIndicator: {
+    paddingVertical: 20,
+  },
+});
@@ -7,6 +7,8 @@ import { Colors } from '@/constants/Colors';
 import { useAuth } from '@/hooks/useAuth';
 import { AnvicDiagnostics, DiagnosticResult } from '@/services/diagnostics';
 import { autoFix } from '@/services/autofix';
+import { AnvicCrypto } from '@/services/encryption';
+import { backupService } from '@/services/backup';
 
 export default function SplashScreen() {
   const router = useRouter();
@@ -49,29 +51,34 @@ export default function SplashScreen() {
       setSystemReady(true);
       
       // Navegação após diagnóstico
-      setTimeout(() => {
-        if (user) {
-          router.replace('/(tabs)/chats');
-        } else {
-          router.replace('/auth/login');
-        }
-      }, 1000);
+      setTimeout(navigateNext, 1000);
 
     } catch (error) {
       console.error('Erro no diagnóstico:', error);
       setDiagnosticMessage('⚠️ Iniciando em modo básico...');
       
       // Fallback: iniciar normalmente após 2 segundos
-      setTimeout(() => {
-        if (user) {
-          router.replace('/(tabs)/chats');
-        } else {
-          router.replace('/auth/login');
-        }
-      }, 2000);
+      setTimeout(navigateNext, 2000);
     }
   };
 
+  const navigateNext = async () => {
+    if (!user) {
+      router.replace('/auth/login');
+      return;
+    }
+
+    // Primeiro login neste aparelho: oferecer restaurar um backup antes de tudo
+    if (await backupService.shouldOfferRestore(user.id).catch(() => false)) {
+      router.replace('/restore-backup');
+      return;
+    }
+
+    // Aparelho novo numa conta que já tem chaves precisa ser vinculado antes de abrir as conversas
+    const needsLink = await AnvicCrypto.needsDeviceLink(user.id).catch(() => false);
+    router.replace(needsLink ? '/link-device' : '/(tabs)/chats');
+  };
+
   const getHealthColor = () => {
     const errorCount = diagnosticResults.filter(r => r.status === 'error').length;
     const warningCount = diagnosticResults.filter(r => r.status === 'warning').length;
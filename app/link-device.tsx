@@ -0,0 +1,212 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Alert, Platform } from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import QRCode from 'react-native-qrcode-svg';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/hooks/useAuth';
+import { AnvicCrypto } from '@/services/encryption';
+import { deviceService } from '@/services/devices';
+import { UserDevice } from '@/services/types';
+import BackupModal from '@/components/ui/BackupModal';
+
+// Aparelho novo numa conta existente: exibe o QR para um aparelho já vinculado ler
+export default function LinkDeviceScreen() {
+  const router = useRouter();
+  const { user, signOut } = useAuth();
+  const [payload, setPayload] = useState<string | null>(null);
+  const [linking, setLinking] = useState(false);
+  const [backupModalVisible, setBackupModalVisible] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let subscription: any = null;
+    let cancelled = false;
+
+    const handleDevice = async (device: UserDevice) => {
+      if (!device.sealed_identity || cancelled) return;
+
+      setLinking(true);
+      const linked = await deviceService.completeLink(user.id, device);
+      if (linked) {
+        router.replace('/(tabs)/chats');
+      } else {
+        setLinking(false);
+        showAlert('Erro', 'Não foi possível receber as chaves. Gere um novo código e tente novamente');
+      }
+    };
+
+    const prepare = async () => {
+      // Renovar o registro mantém o código válido enquanto a tela está aberta
+      const { data: device } = await deviceService.registerDevice(user.id);
+      if (cancelled) return;
+
+      setPayload(await deviceService.getLinkPayload());
+      subscription = await deviceService.subscribeToDevice(handleDevice);
+
+      // Chaves entregues enquanto o app estava fechado
+      if (device?.sealed_identity) {
+        handleDevice(device);
+      }
+    };
+
+    prepare();
+
+    return () => {
+      cancelled = true;
+      subscription?.unsubscribe();
+    };
+  }, [user, router]);
+
+  const showAlert = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      console.log(`${title}: ${message}`);
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  const startFresh = async () => {
+    if (!user) return;
+
+    try {
+      await deviceService.revokeOtherDevices(user.id);
+      await AnvicCrypto.resetIdentityKeys(user.id);
+      await deviceService.markLinked();
+      router.replace('/(tabs)/chats');
+    } catch (error) {
+      console.error('Error resetting identity keys:', error);
+      showAlert('Erro', 'Não foi possível gerar novas chaves');
+    }
+  };
+
+  const handleStartFresh = () => {
+    const message =
+      'Novas chaves serão geradas e os outros aparelhos serão desconectados. As mensagens criptografadas anteriores ficarão ilegíveis e seus contatos verão um aviso de troca de chave.';
+
+    if (Platform.OS === 'web') {
+      if (confirm(message)) {
+        startFresh();
+      }
+    } else {
+      Alert.alert('Começar sem vincular?', message, [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Continuar', style: 'destructive', onPress: startFresh },
+      ]);
+    }
+  };
+
+  // Backup com as chaves atuais da conta dispensa a vinculação
+  const handleRestored = async () => {
+    if (!user) return;
+
+    if (!(await AnvicCrypto.needsDeviceLink(user.id))) {
+      router.replace('/(tabs)/chats');
+    }
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    router.replace('/auth/login');
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.content}>
+        <MaterialIcons name="devices" size={48} color={Colors.primary} />
+        <Text style={styles.title}>Vincular este aparelho</Text>
+        <Text style={styles.description}>
+          Sua conta já está ativa em outro aparelho. Abra o Anvic nele, vá em Perfil → Aparelhos vinculados → Vincular
+          novo aparelho e leia o código abaixo.
+        </Text>
+
+        <View style={styles.qrContainer}>
+          {payload && !linking ? (
+            <QRCode value={payload} size={220} backgroundColor="#FFFFFF" />
+          ) : (
+            <ActivityIndicator color={Colors.primary} size="large" />
+          )}
+        </View>
+
+        {linking && <Text style={styles.linkingText}>Recebendo chaves...</Text>}
+      </View>
+
+      <View style={styles.footer}>
+        <TouchableOpacity style={styles.footerButton} onPress={() => setBackupModalVisible(true)}>
+          <Text style={styles.footerButtonText}>Restaurar de um backup</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.footerButton} onPress={handleStartFresh}>
+          <Text style={styles.footerButtonText}>Não tenho acesso ao outro aparelho</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.footerButton} onPress={handleSignOut}>
+          <Text style={[styles.footerButtonText, styles.signOutText]}>Sair</Text>
+        </TouchableOpacity>
+      </View>
+
+      <BackupModal
+        visible={backupModalVisible}
+        mode="restore"
+        onClose={() => setBackupModalVisible(false)}
+        onRestored={handleRestored}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+  },
+  title: {
+    color: Colors.text,
+    fontSize: 22,
+    fontWeight: 'bold',
+    marginTop: 16,
+    marginBottom: 12,
+  },
+  description: {
+    color: Colors.textSecondary,
+    fontSize: 15,
+    lineHeight: 22,
+    textAlign: 'center',
+    marginBottom: 32,
+  },
+  qrContainer: {
+    width: 252,
+    height: 252,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+  },
+  linkingText: {
+    color: Colors.primary,
+    fontSize: 14,
+    marginTop: 16,
+  },
+  footer: {
+    paddingHorizontal: 32,
+    paddingBottom: 16,
+  },
+  footerButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+  },
+  footerButtonText: {
+    color: Colors.primary,
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  signOutText: {
+    color: Colors.error,
+  },
+});
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/hooks/useAuth';
+import { AnvicCrypto } from '@/services/encryption';
+import { backupService } from '@/services/backup';
+import BackupModal from '@/components/ui/BackupModal';
+
+// Primeiro login neste aparelho: restaurar um backup ou começar do zero
+export default function RestoreBackupScreen() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const [backupModalVisible, setBackupModalVisible] = useState(false);
+
+  const continueToApp = async () => {
+    if (!user) {
+      router.replace('/auth/login');
+      return;
+    }
+
+    await backupService.markRestoreOffered(user.id);
+
+    // Sem as chaves no backup, o aparelho ainda precisa ser vinculado
+    const needsLink = await AnvicCrypto.needsDeviceLink(user.id).catch(() => false);
+    router.replace(needsLink ? '/link-device' : '/(tabs)/chats');
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.content}>
+        <MaterialIcons name="settings-backup-restore" size={48} color={Colors.primary} />
+        <Text style={styles.title}>Restaurar backup</Text>
+        <Text style={styles.description}>
+          Se você criou um backup do Anvic em outro aparelho, restaure agora suas configurações, favoritas, mensagens
+          agendadas e o acesso às conversas criptografadas.
+        </Text>
+
+        <TouchableOpacity style={styles.restoreButton} onPress={() => setBackupModalVisible(true)}>
+          <Text style={styles.restoreButtonText}>Restaurar de um arquivo</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.footer}>
+        <TouchableOpacity style={styles.footerButton} onPress={continueToApp}>
+          <Text style={styles.footerButtonText}>Pular</Text>
+        </TouchableOpacity>
+      </View>
+
+      <BackupModal
+        visible={backupModalVisible}
+        mode="restore"
+        onClose={() => setBackupModalVisible(false)}
+        onRestored={continueToApp}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+  },
+  title: {
+    color: Colors.text,
+    fontSize: 22,
+    fontWeight: 'bold',
+    marginTop: 16,
+    marginBottom: 12,
+  },
+  description: {
+    color: Colors.textSecondary,
+    fontSize: 15,
+    lineHeight: 22,
+    textAlign: 'center',
+    marginBottom: 32,
+  },
+  restoreButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 32,
+  },
+  restoreButtonText: {
+    color: Colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  footer: {
+    paddingHorizontal: 32,
+    paddingBottom: 16,
+  },
+  footerButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+  },
+  footerButtonText: {
+    color: Colors.primary,
+    fontSize: 15,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,204 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, FlatList, Alert, Platform } from 'react-native';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { transferService, TransferEntry } from '@/services/transfers';
+import { fileService } from '@/services/file-sharing';
+
+const STATUS_LABELS: { [key in TransferEntry['status']]: string } = {
+  uploading: 'Enviando',
+  paused: 'Pausado',
+  failed: 'Falhou',
+};
+
+// Envios de arquivos grandes em andamento, pausados ou com falha
+export default function TransfersScreen() {
+  const router = useRouter();
+  const [transfers, setTransfers] = useState<TransferEntry[]>([]);
+
+  useEffect(() => {
+    return transferService.subscribe(setTransfers);
+  }, []);
+
+  const handleCancel = (transfer: TransferEntry) => {
+    const confirmCancel = () => {
+      transferService.cancel(transfer.id);
+    };
+
+    if (Platform.OS === 'web') {
+      if (confirm(`Cancelar o envio de ${transfer.file.name}?`)) {
+        confirmCancel();
+      }
+    } else {
+      Alert.alert('Cancelar envio', `O envio de ${transfer.file.name} será descartado.`, [
+        { text: 'Voltar', style: 'cancel' },
+        { text: 'Cancelar envio', style: 'destructive', onPress: confirmCancel },
+      ]);
+    }
+  };
+
+  const renderTransfer = ({ item }: { item: TransferEntry }) => {
+    // O que sobe é a cópia cifrada, um pouco maior que o arquivo original
+    const uploadSize = item.uploadSize ?? item.file.size;
+    const progress = uploadSize > 0 ? item.bytesSent / uploadSize : 0;
+    const isFailed = item.status === 'failed';
+
+    return (
+      <View style={styles.transferItem}>
+        <View style={styles.fileIcon}>
+          <MaterialIcons
+            name={fileService.getFileIcon(item.file.type) as any}
+            size={24}
+            color={isFailed ? Colors.error : Colors.primary}
+          />
+        </View>
+
+        <View style={styles.transferInfo}>
+          <Text style={styles.fileName} numberOfLines={1}>{item.file.name}</Text>
+          <View style={styles.progressTrack}>
+            <View
+              style={[
+                styles.progressFill,
+                { width: `${Math.round(progress * 100)}%` },
+                item.status !== 'uploading' && styles.progressInactive,
+              ]}
+            />
+          </View>
+          <Text style={[styles.transferMeta, isFailed && styles.failedText]} numberOfLines={1}>
+            {STATUS_LABELS[item.status]} • {fileService.formatFileSize(item.bytesSent)} de{' '}
+            {fileService.formatFileSize(uploadSize)}
+            {isFailed && item.lastError ? ` • ${item.lastError}` : ''}
+          </Text>
+        </View>
+
+        {item.status === 'uploading' ? (
+          <TouchableOpacity style={styles.actionButton} onPress={() => transferService.pause(item.id)}>
+            <MaterialIcons name="pause" size={24} color={Colors.primary} />
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity style={styles.actionButton} onPress={() => transferService.resume(item.id)}>
+            <MaterialIcons name={isFailed ? 'refresh' : 'play-arrow'} size={24} color={Colors.primary} />
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={styles.actionButton} onPress={() => handleCancel(item)}>
+          <MaterialIcons name="close" size={22} color={Colors.textSecondary} />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <MaterialIcons name="arrow-back" size={24} color={Colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Transferências</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {transfers.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <MaterialIcons name="cloud-done" size={48} color={Colors.textMuted} />
+          <Text style={styles.emptyText}>Nenhum envio em andamento</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={transfers}
+          renderItem={renderTransfer}
+          keyExtractor={(item) => item.id}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    color: Colors.text,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 32,
+  },
+  transferItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.divider,
+  },
+  fileIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: Colors.surfaceVariant,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 16,
+  },
+  transferInfo: {
+    flex: 1,
+  },
+  fileName: {
+    color: Colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: Colors.border,
+    overflow: 'hidden',
+    marginBottom: 6,
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: Colors.primary,
+  },
+  progressInactive: {
+    backgroundColor: Colors.textMuted,
+  },
+  transferMeta: {
+    color: Colors.textSecondary,
+    fontSize: 12,
+  },
+  failedText: {
+    color: Colors.error,
+  },
+  actionButton: {
+    padding: 8,
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyText: {
+    color: Colors.textSecondary,
+    fontSize: 16,
+    marginTop: 12,
+  },
+});
@@ -1,10 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   TouchableOpacity,
   Animated,
+  PanResponder,
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { Colors } from '@/constants/Colors';
@@ -14,18 +15,38 @@ interface AudioRecorderProps {
   onAudioRecorded: (audio: MediaFile) => void;
   enableEncryption?: boolean;
   userId?: string;
+  conversationId?: string;
   style?: any;
 }
 
+// Arrastar o dedo para a esquerda cancela; para cima trava a gravação sem precisar segurar
+const CANCEL_DISTANCE = 120;
+const LOCK_DISTANCE = 80;
+const MIN_RECORDING_MS = 1000;
+
 export default function AudioRecorder({ 
   onAudioRecorded, 
-  enableEncryption = false,
+  enableEncryption = true,
   userId,
+  conversationId,
   style 
 }: AudioRecorderProps) {
   const [isRecording, setIsRecording] = useState(false);
+  const [isLocked, setIsLocked] = useState(false);
+  const [showHoldHint, setShowHoldHint] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
   const [pulseAnim] = useState(new Animated.Value(1));
+  const [slideAnim] = useState(new Animated.Value(0));
+
+  // O PanResponder é criado uma vez: o estado do gesto fica em refs
+  const startPromiseRef = useRef<Promise<boolean> | null>(null);
+  const pressStartRef = useRef(0);
+  const lockedRef = useRef(false);
+  const cancelledRef = useRef(false);
+  const onAudioRecordedRef = useRef(onAudioRecorded);
+  onAudioRecordedRef.current = onAudioRecorded;
+  const optionsRef = useRef({ enableEncryption, userId, conversationId });
+  optionsRef.current = { enableEncryption, userId, conversationId };
 
   useEffect(() => {
     let interval: NodeJS.Timeout;
@@ -63,21 +84,37 @@ export default function AudioRecorder({
     }
   }, [isRecording, pulseAnim]);
 
+  useEffect(() => {
+    if (!showHoldHint) return;
+    const timeout = setTimeout(() => setShowHoldHint(false), 1500);
+    return () => clearTimeout(timeout);
+  }, [showHoldHint]);
+
   const startRecording = async () => {
     const success = await mediaService.startAudioRecording();
     if (success) {
       setIsRecording(true);
       setRecordingTime(0);
     }
+    return success;
+  };
+
+  const resetGesture = () => {
+    lockedRef.current = false;
+    startPromiseRef.current = null;
+    setIsLocked(false);
+    slideAnim.setValue(0);
   };
 
   const stopRecording = async () => {
-    const audioFile = await mediaService.stopAudioRecording(enableEncryption, userId);
+    const { enableEncryption, userId, conversationId } = optionsRef.current;
+    const audioFile = await mediaService.stopAudioRecording(enableEncryption, userId, conversationId);
     setIsRecording(false);
     setRecordingTime(0);
-    
+    resetGesture();
+
     if (audioFile) {
-      onAudioRecorded(audioFile);
+      onAudioRecordedRef.current(audioFile);
     }
   };
 
@@ -85,15 +122,63 @@ export default function AudioRecorder({
     await mediaService.cancelRecording();
     setIsRecording(false);
     setRecordingTime(0);
+    resetGesture();
   };
 
+  // Soltar o dedo envia; toques curtos demais só mostram a dica de segurar
+  const finishPress = async () => {
+    const started = await startPromiseRef.current;
+    if (cancelledRef.current || lockedRef.current || !started) return;
+
+    if (Date.now() - pressStartRef.current < MIN_RECORDING_MS) {
+      setShowHoldHint(true);
+      await cancelRecording();
+      return;
+    }
+    await stopRecording();
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => !lockedRef.current,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => {
+        cancelledRef.current = false;
+        pressStartRef.current = Date.now();
+        startPromiseRef.current = startRecording();
+      },
+      onPanResponderMove: (_, gesture) => {
+        if (cancelledRef.current || lockedRef.current) return;
+
+        slideAnim.setValue(Math.min(gesture.dx, 0));
+
+        if (gesture.dx < -CANCEL_DISTANCE) {
+          cancelledRef.current = true;
+          startPromiseRef.current?.then(started => {
+            if (started) cancelRecording();
+          });
+        } else if (gesture.dy < -LOCK_DISTANCE) {
+          lockedRef.current = true;
+          setIsLocked(true);
+          slideAnim.setValue(0);
+        }
+      },
+      onPanResponderRelease: () => {
+        finishPress();
+      },
+      onPanResponderTerminate: () => {
+        finishPress();
+      },
+    })
+  ).current;
+
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
-  if (isRecording) {
+  if (isRecording && isLocked) {
     return (
       <View style={[styles.recordingContainer, style]}>
         <View style={styles.recordingInfo}>
@@ -108,7 +193,7 @@ export default function AudioRecorder({
             onPress={cancelRecording}
             activeOpacity={0.7}
           >
-            <MaterialIcons name="close" size={24} color={Colors.error} />
+            <MaterialIcons name="delete-outline" size={24} color={Colors.error} />
           </TouchableOpacity>
           
           <TouchableOpacity
@@ -116,26 +201,53 @@ export default function AudioRecorder({
             onPress={stopRecording}
             activeOpacity={0.7}
           >
-            <MaterialIcons name="stop" size={28} color={Colors.text} />
+            <MaterialIcons name="send" size={22} color={Colors.text} />
           </TouchableOpacity>
         </View>
       </View>
     );
   }
 
+  // Enquanto o dedo está no botão o mesmo View continua respondendo ao gesto
   return (
-    <TouchableOpacity
-      style={[styles.recordButton, style]}
-      onPress={startRecording}
-      activeOpacity={0.7}
+    <View
+      {...panResponder.panHandlers}
+      style={isRecording ? [styles.recordingContainer, style] : [styles.recordButton, style]}
     >
-      <MaterialIcons name="mic" size={24} color={Colors.primary} />
-      {enableEncryption && (
-        <View style={styles.encryptionIndicator}>
-          <MaterialIcons name="lock" size={12} color="#ff6b6b" />
-        </View>
+      {isRecording ? (
+        <>
+          <View style={styles.lockHint}>
+            <MaterialIcons name="lock-open" size={18} color={Colors.textSecondary} />
+            <MaterialIcons name="keyboard-arrow-up" size={18} color={Colors.textSecondary} />
+          </View>
+          <View style={styles.recordingInfo}>
+            <Animated.View style={[styles.recordingDot, { transform: [{ scale: pulseAnim }] }]} />
+            <Text style={styles.recordingTime}>{formatTime(recordingTime)}</Text>
+          </View>
+          <Animated.View style={[styles.slideHint, { transform: [{ translateX: slideAnim }] }]}>
+            <MaterialIcons name="chevron-left" size={20} color={Colors.textSecondary} />
+            <Text style={styles.slideHintText}>Deslize para cancelar</Text>
+          </Animated.View>
+          <View style={styles.stopButton}>
+            <MaterialIcons name="mic" size={22} color={Colors.text} />
+          </View>
+        </>
+      ) : (
+        <>
+          <MaterialIcons name="mic" size={24} color={Colors.primary} />
+          {enableEncryption && (
+            <View style={styles.encryptionIndicator}>
+              <MaterialIcons name="lock" size={12} color="#ff6b6b" />
+            </View>
+          )}
+          {showHoldHint && (
+            <View style={styles.holdHint} pointerEvents="none">
+              <Text style={styles.holdHintText}>Segure para gravar</Text>
+            </View>
+          )}
+        </>
       )}
-    </TouchableOpacity>
+    </View>
   );
 }
 
@@ -198,6 +310,39 @@ const styles = StyleSheet.create({
     padding: 8,
     marginRight: 8,
   },
+  lockHint: {
+    position: 'absolute',
+    right: 4,
+    top: -56,
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 6,
+  },
+  slideHint: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  slideHintText: {
+    color: Colors.textSecondary,
+    fontSize: 13,
+  },
+  holdHint: {
+    position: 'absolute',
+    bottom: 48,
+    left: 0,
+    width: 140,
+    backgroundColor: Colors.surfaceVariant,
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+  },
+  holdHintText: {
+    color: Colors.text,
+    fontSize: 12,
+  },
   stopButton: {
     backgroundColor: Colors.primary,
     width: 40,
@@ -0,0 +1,132 @@
+import React from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, Switch } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { useSettings } from '@/hooks/useSettings';
+import { AutoDownloadMediaType, AutoDownloadNetwork } from '@/services/types';
+
+interface AutoDownloadModalProps {
+  network: AutoDownloadNetwork | null;
+  onClose: () => void;
+}
+
+export const NETWORK_LABELS: { [key in AutoDownloadNetwork]: string } = {
+  wifi: 'Com Wi-Fi',
+  cellular: 'Com dados móveis',
+  roaming: 'Em roaming',
+};
+
+export const MEDIA_TYPE_LABELS: { [key in AutoDownloadMediaType]: string } = {
+  image: 'Fotos',
+  audio: 'Áudio',
+  video: 'Vídeos',
+  file: 'Documentos',
+};
+
+const MEDIA_TYPE_ICONS: { [key in AutoDownloadMediaType]: string } = {
+  image: 'photo',
+  audio: 'mic',
+  video: 'videocam',
+  file: 'insert-drive-file',
+};
+
+const MEDIA_TYPES: AutoDownloadMediaType[] = ['image', 'audio', 'video', 'file'];
+
+// Escolha dos tipos de mídia baixados sozinhos em uma rede
+export default function AutoDownloadModal({ network, onClose }: AutoDownloadModalProps) {
+  const { settings, updateSettings } = useSettings();
+
+  const enabledTypes = network ? settings.autoDownload[network] : [];
+
+  const toggleType = (type: AutoDownloadMediaType, enabled: boolean) => {
+    if (!network) return;
+
+    updateSettings({
+      autoDownload: {
+        ...settings.autoDownload,
+        [network]: enabled
+          ? MEDIA_TYPES.filter(t => t === type || enabledTypes.includes(t))
+          : enabledTypes.filter(t => t !== type),
+      },
+    });
+  };
+
+  return (
+    <Modal visible={network !== null} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <MaterialIcons name="close" size={24} color={Colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{network ? NETWORK_LABELS[network] : ''}</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        <Text style={styles.description}>
+          Mídias fora desta lista aparecem com o tamanho e só são baixadas quando você tocar nelas.
+        </Text>
+
+        {MEDIA_TYPES.map(type => (
+          <View key={type} style={styles.typeItem}>
+            <MaterialIcons name={MEDIA_TYPE_ICONS[type] as any} size={24} color={Colors.primary} />
+            <Text style={styles.typeLabel}>{MEDIA_TYPE_LABELS[type]}</Text>
+            <Switch
+              value={enabledTypes.includes(type)}
+              onValueChange={(value) => toggleType(type, value)}
+              trackColor={{ false: Colors.border, true: Colors.primary }}
+              thumbColor={Colors.text}
+            />
+          </View>
+        ))}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    color: Colors.text,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 32,
+  },
+  description: {
+    color: Colors.textSecondary,
+    fontSize: 14,
+    lineHeight: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  typeItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.divider,
+  },
+  typeLabel: {
+    flex: 1,
+    color: Colors.text,
+    fontSize: 16,
+    marginLeft: 16,
+  },
+});
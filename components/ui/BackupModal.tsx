@@ -0,0 +1,304 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { useAuth } from '@/hooks/useAuth';
+import { useSettings } from '@/hooks/useSettings';
+import { backupService, BackupManifest } from '@/services/backup';
+
+interface BackupModalProps {
+  visible: boolean;
+  mode: 'create' | 'restore';
+  onClose: () => void;
+  onRestored?: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const SECTION_LABELS: { [key: string]: string } = {
+  settings: 'Configurações',
+  favorites: 'Favoritas',
+  scheduled: 'Agendadas',
+  outbox: 'Não enviadas',
+  calls: 'Chamadas',
+  games: 'Jogos',
+  contactKeys: 'Contatos verificados',
+  identity: 'Chaves do histórico',
+};
+
+export default function BackupModal({ visible, mode, onClose, onRestored }: BackupModalProps) {
+  const { user } = useAuth();
+  const { reloadSettings } = useSettings();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [backup, setBackup] = useState<{ uri: string; manifest: BackupManifest } | null>(null);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      setPassphrase('');
+      setConfirmation('');
+      setBackup(null);
+    }
+  }, [visible]);
+
+  const showAlert = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      console.log(`${title}: ${message}`);
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!user) return;
+
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      showAlert('Senha fraca', `Use pelo menos ${MIN_PASSPHRASE_LENGTH} caracteres`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      showAlert('Erro', 'As senhas não conferem');
+      return;
+    }
+
+    setWorking(true);
+    try {
+      await backupService.createBackup(user.id, passphrase);
+      onClose();
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      showAlert('Erro', 'Não foi possível criar o backup');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handlePickBackup = async () => {
+    try {
+      const picked = await backupService.pickBackup();
+      if (picked) {
+        setBackup(picked);
+      }
+    } catch (error: any) {
+      showAlert('Erro', error.message || 'Não foi possível abrir o arquivo');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!user || !backup) return;
+
+    setWorking(true);
+    try {
+      const result = await backupService.restoreBackup(backup.uri, user.id, passphrase);
+      await reloadSettings();
+
+      const message = result.identityRestored
+        ? 'Seus dados e o acesso às conversas criptografadas foram restaurados'
+        : 'Seus dados foram restaurados. As chaves do backup não são mais as da sua conta, então mensagens criptografadas antigas podem continuar ilegíveis';
+      showAlert('Backup restaurado', message);
+
+      onRestored?.();
+      onClose();
+    } catch (error: any) {
+      showAlert('Erro', error.message || 'Não foi possível restaurar o backup');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const renderManifest = (manifest: BackupManifest) => (
+    <View style={styles.manifestCard}>
+      <Text style={styles.manifestTitle}>
+        Backup de {new Date(manifest.createdAt).toLocaleString('pt-BR')}
+      </Text>
+      {Object.entries(manifest.sections)
+        .filter(([, count]) => count > 0)
+        .map(([section, count]) => (
+          <Text key={section} style={styles.manifestItem}>
+            {SECTION_LABELS[section] || section}: {count}
+          </Text>
+        ))}
+    </View>
+  );
+
+  const renderCreate = () => (
+    <>
+      <Text style={styles.description}>
+        O backup inclui configurações, favoritas, mensagens agendadas, histórico de chamadas e as chaves que permitem
+        ler suas conversas criptografadas. Sem a senha não é possível restaurá-lo.
+      </Text>
+      <TextInput
+        style={styles.input}
+        placeholder="Senha do backup"
+        placeholderTextColor={Colors.textSecondary}
+        value={passphrase}
+        onChangeText={setPassphrase}
+        secureTextEntry
+        autoCapitalize="none"
+      />
+      <TextInput
+        style={styles.input}
+        placeholder="Confirmar senha"
+        placeholderTextColor={Colors.textSecondary}
+        value={confirmation}
+        onChangeText={setConfirmation}
+        secureTextEntry
+        autoCapitalize="none"
+      />
+      <TouchableOpacity style={styles.primaryButton} onPress={handleCreate} disabled={working}>
+        {working ? (
+          <ActivityIndicator color={Colors.text} size="small" />
+        ) : (
+          <Text style={styles.primaryButtonText}>Criar e compartilhar</Text>
+        )}
+      </TouchableOpacity>
+    </>
+  );
+
+  const renderRestore = () => (
+    <>
+      <Text style={styles.description}>
+        Escolha o arquivo .anvicbackup salvo anteriormente e informe a senha usada ao criá-lo.
+      </Text>
+      <TouchableOpacity style={styles.pickButton} onPress={handlePickBackup} disabled={working}>
+        <MaterialIcons name="folder-open" size={22} color={Colors.primary} />
+        <Text style={styles.pickText}>{backup ? 'Escolher outro arquivo' : 'Escolher arquivo'}</Text>
+      </TouchableOpacity>
+
+      {backup && (
+        <>
+          {renderManifest(backup.manifest)}
+          <TextInput
+            style={styles.input}
+            placeholder="Senha do backup"
+            placeholderTextColor={Colors.textSecondary}
+            value={passphrase}
+            onChangeText={setPassphrase}
+            secureTextEntry
+            autoCapitalize="none"
+          />
+          <TouchableOpacity style={styles.primaryButton} onPress={handleRestore} disabled={working || !passphrase}>
+            {working ? (
+              <ActivityIndicator color={Colors.text} size="small" />
+            ) : (
+              <Text style={styles.primaryButtonText}>Restaurar</Text>
+            )}
+          </TouchableOpacity>
+        </>
+      )}
+    </>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <MaterialIcons name="close" size={24} color={Colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{mode === 'create' ? 'Criar Backup' : 'Restaurar Backup'}</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        <View style={styles.content}>{mode === 'create' ? renderCreate() : renderRestore()}</View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    color: Colors.text,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 32,
+  },
+  content: {
+    padding: 20,
+  },
+  description: {
+    color: Colors.textSecondary,
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 20,
+  },
+  input: {
+    backgroundColor: Colors.surface,
+    color: Colors.text,
+    fontSize: 16,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    marginBottom: 12,
+  },
+  primaryButton: {
+    backgroundColor: Colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  primaryButtonText: {
+    color: Colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  pickButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    marginBottom: 12,
+  },
+  pickText: {
+    color: Colors.primary,
+    fontSize: 16,
+    fontWeight: '500',
+    marginLeft: 12,
+  },
+  manifestCard: {
+    backgroundColor: Colors.surfaceVariant,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  manifestTitle: {
+    color: Colors.text,
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  manifestItem: {
+    color: Colors.textSecondary,
+    fontSize: 13,
+    marginBottom: 2,
+  },
+});
@@ -6,45 +6,70 @@ import {
   TouchableOpacity,
   Modal,
   Animated,
-  Dimensions,
+  Alert,
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { Image } from 'expo-image';
+import * as Haptics from 'expo-haptics';
+import { RTCView } from 'react-native-webrtc';
 import { Colors } from '@/constants/Colors';
-import { callService, CallSession } from '@/services/calls';
+import { callService, CallState } from '@/services/calls';
+import { HangupReason } from '@/services/call-signaling';
 
-interface CallInterfaceProps {
-  visible: boolean;
-  onClose: () => void;
-  callSession: CallSession | null;
-  userAvatar?: string;
-  userName?: string;
-  isIncoming?: boolean;
-}
+const OUTCOME_LABELS: { [key in HangupReason]: string } = {
+  ended: 'Chamada encerrada',
+  declined: 'Chamada recusada',
+  failed: 'Falha na conexão',
+  busy: 'Ocupado',
+  missed: 'Não atendida',
+};
+
+const RING_HAPTIC_INTERVAL_MS = 1500;
 
-export default function CallInterface({
-  visible,
-  onClose,
-  callSession,
-  userAvatar,
-  userName = 'Usuário',
-  isIncoming = false,
-}: CallInterfaceProps) {
+// Tela cheia de chamada, montada uma vez no layout raiz: aparece sozinha ao ligar,
+// ao receber uma chamada (em qualquer tela) e some quando a chamada termina
+export default function CallInterface() {
+  const [callState, setCallState] = useState<CallState>(callService.getState());
   const [callDuration, setCallDuration] = useState(0);
-  const [isMuted, setIsMuted] = useState(false);
-  const [isSpeakerOn, setIsSpeakerOn] = useState(false);
   const [pulseAnim] = useState(new Animated.Value(1));
 
+  // Depois de encerrada, a chamada continua na tela por alguns segundos com o resultado
+  const callSession = callState.session ?? callState.endedCall;
+  const { isMuted, isSpeakerOn, isCameraOn, localStream, remoteStream } = callState;
+  const isRinging = callSession?.direction === 'incoming' && callSession.status === 'calling';
+
   useEffect(() => {
-    let interval: NodeJS.Timeout;
+    return callService.subscribe(setCallState);
+  }, []);
+
+  // Vibração enquanto toca (o toque sai do InCallManager)
+  useEffect(() => {
+    if (!isRinging) return;
+
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    const interval = setInterval(() => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    }, RING_HAPTIC_INTERVAL_MS);
 
-    if (callSession?.status === 'active') {
-      // Iniciar contador de duração
-      interval = setInterval(() => {
-        setCallDuration(prev => prev + 1);
+    return () => clearInterval(interval);
+  }, [isRinging]);
+
+  useEffect(() => {
+    if (callSession?.status === 'active' && callSession.connectedAt) {
+      // Contador a partir do momento em que a mídia começou a fluir
+      const connectedAt = new Date(callSession.connectedAt).getTime();
+      setCallDuration(Math.floor((Date.now() - connectedAt) / 1000));
+      const interval = setInterval(() => {
+        setCallDuration(Math.floor((Date.now() - connectedAt) / 1000));
       }, 1000);
 
-      // Animação de pulso para chamada ativa
+      return () => clearInterval(interval);
+    }
+  }, [callSession?.status, callSession?.connectedAt]);
+
+  useEffect(() => {
+    if (callSession?.status === 'active' || isRinging) {
+      // Animação de pulso para chamada ativa ou tocando
       const pulseAnimation = Animated.loop(
         Animated.sequence([
           Animated.timing(pulseAnim, {
@@ -62,15 +87,10 @@ export default function CallInterface({
       pulseAnimation.start();
 
       return () => {
-        clearInterval(interval);
         pulseAnimation.stop();
       };
     }
-
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, [callSession?.status, pulseAnim]);
+  }, [callSession?.status, isRinging, pulseAnim]);
 
   const formatDuration = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
@@ -80,68 +100,105 @@ export default function CallInterface({
 
   const handleAcceptCall = async () => {
     if (callSession) {
-      await callService.acceptCall(callSession.id);
-      setCallDuration(0);
+      try {
+        await callService.acceptCall(callSession.id);
+      } catch (error: any) {
+        Alert.alert('Erro', error.message || 'Não foi possível atender a chamada');
+      }
     }
   };
 
   const handleEndCall = async () => {
     if (callSession) {
       await callService.endCall(callSession.id);
-      onClose();
     }
   };
 
   const toggleMute = () => {
-    setIsMuted(!isMuted);
+    callService.setMuted(!isMuted);
   };
 
   const toggleSpeaker = () => {
-    setIsSpeakerOn(!isSpeakerOn);
+    callService.setSpeakerOn(!isSpeakerOn);
   };
 
-  if (!visible || !callSession) return null;
+  const toggleCamera = () => {
+    callService.setCameraOn(!isCameraOn);
+  };
+
+  if (!callSession) return null;
 
   const isVideoCall = callSession.type === 'video';
   const isActive = callSession.status === 'active';
   const isCalling = callSession.status === 'calling';
+  const isEnded = callSession.status === 'ended';
+  const isIncoming = callSession.direction === 'incoming';
+  const showRemoteVideo = isVideoCall && isActive && remoteStream;
+  const userName = callSession.peerName || 'Usuário';
+  const outcome = callSession.endReason ? OUTCOME_LABELS[callSession.endReason] : OUTCOME_LABELS.ended;
 
   return (
-    <Modal visible={visible} animationType="slide" presentationStyle="fullScreen">
+    <Modal visible animationType="slide" presentationStyle="fullScreen" onRequestClose={handleEndCall}>
       <View style={[styles.container, isVideoCall && styles.videoContainer]}>
+        {/* Área de vídeo (para videochamadas), atrás dos controles */}
+        {isVideoCall && (
+          <View style={styles.videoArea}>
+            {showRemoteVideo ? (
+              <RTCView streamURL={remoteStream.toURL()} objectFit="cover" style={styles.remoteVideo} />
+            ) : (
+              <View style={styles.remoteVideo} />
+            )}
+            {localStream && isCameraOn && (
+              <RTCView
+                streamURL={localStream.toURL()}
+                objectFit="cover"
+                mirror
+                zOrder={1}
+                style={styles.localVideo}
+              />
+            )}
+          </View>
+        )}
+
         {/* Header com informações da chamada */}
         <View style={styles.header}>
           <Text style={styles.callType}>
             {isVideoCall ? 'Videochamada' : 'Chamada de Voz'}
           </Text>
           <Text style={styles.callStatus}>
-            {isActive ? formatDuration(callDuration) : 
+            {isEnded ? outcome :
+             isActive ? formatDuration(callDuration) : 
              isCalling ? (isIncoming ? 'Chamada recebida' : 'Chamando...') : 
              'Conectando...'}
           </Text>
         </View>
 
-        {/* Avatar e nome do usuário */}
+        {/* Avatar e nome do usuário (na videochamada, só até o vídeo remoto chegar) */}
         <View style={styles.userInfo}>
-          <Animated.View style={[styles.avatarContainer, { transform: [{ scale: pulseAnim }] }]}>
-            <Image
-              source={{ 
-                uri: userAvatar || 'https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=200&h=200&fit=crop&crop=face'
-              }}
-              style={styles.avatar}
-            />
-            {isActive && (
-              <View style={styles.activeIndicator}>
-                <MaterialIcons name="call" size={20} color={Colors.success} />
-              </View>
-            )}
-          </Animated.View>
-          <Text style={styles.userName}>{userName}</Text>
-          <Text style={styles.callStatusSubtitle}>
-            {isActive ? 'Conectado' : 
-             isCalling ? (isIncoming ? 'Quer falar com você' : 'Aguardando resposta...') : 
-             'Conectando...'}
-          </Text>
+          {!showRemoteVideo && (
+            <>
+              <Animated.View style={[styles.avatarContainer, { transform: [{ scale: pulseAnim }] }]}>
+                <Image
+                  source={{ 
+                    uri: callSession.peerAvatar || 'https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=200&h=200&fit=crop&crop=face'
+                  }}
+                  style={styles.avatar}
+                />
+                {isActive && (
+                  <View style={styles.activeIndicator}>
+                    <MaterialIcons name="call" size={20} color={Colors.success} />
+                  </View>
+                )}
+              </Animated.View>
+              <Text style={styles.userName}>{userName}</Text>
+              <Text style={styles.callStatusSubtitle}>
+                {isEnded ? outcome :
+                 isActive ? 'Conectado' : 
+                 isCalling ? (isIncoming ? 'Quer falar com você' : 'Aguardando resposta...') : 
+                 'Conectando...'}
+              </Text>
+            </>
+          )}
         </View>
 
         {/* Controles da chamada */}
@@ -171,37 +228,34 @@ export default function CallInterface({
               </TouchableOpacity>
 
               {isVideoCall && (
-                <TouchableOpacity style={styles.controlButton}>
-                  <MaterialIcons name="videocam" size={24} color={Colors.text} />
+                <TouchableOpacity
+                  style={[styles.controlButton, !isCameraOn && styles.controlButtonActive]}
+                  onPress={toggleCamera}
+                >
+                  <MaterialIcons 
+                    name={isCameraOn ? 'videocam' : 'videocam-off'} 
+                    size={24} 
+                    color={isCameraOn ? Colors.text : Colors.error} 
+                  />
                 </TouchableOpacity>
               )}
             </View>
           )}
 
-          <View style={styles.mainControls}>
-            {isCalling && isIncoming && (
-              <TouchableOpacity style={styles.acceptButton} onPress={handleAcceptCall}>
-                <MaterialIcons name="call" size={32} color={Colors.text} />
-              </TouchableOpacity>
-            )}
-
-            <TouchableOpacity style={styles.endCallButton} onPress={handleEndCall}>
-              <MaterialIcons name="call-end" size={32} color={Colors.text} />
-            </TouchableOpacity>
-          </View>
-        </View>
+          {!isEnded && (
+            <View style={styles.mainControls}>
+              {isRinging && (
+                <TouchableOpacity style={styles.acceptButton} onPress={handleAcceptCall}>
+                  <MaterialIcons name="call" size={32} color={Colors.text} />
+                </TouchableOpacity>
+              )}
 
-        {/* Área de vídeo (para videochamadas) */}
-        {isVideoCall && (
-          <View style={styles.videoArea}>
-            <View style={styles.remoteVideo}>
-              <Text style={styles.videoPlaceholder}>Vídeo do {userName}</Text>
-            </View>
-            <View style={styles.localVideo}>
-              <Text style={styles.videoPlaceholder}>Seu vídeo</Text>
+              <TouchableOpacity style={styles.endCallButton} onPress={handleEndCall}>
+                <MaterialIcons name="call-end" size={32} color={Colors.text} />
+              </TouchableOpacity>
             </View>
-          </View>
-        )}
+          )}
+        </View>
       </View>
     </Modal>
   );
@@ -321,8 +375,6 @@ const styles = StyleSheet.create({
   remoteVideo: {
     flex: 1,
     backgroundColor: '#1a1a1a',
-    alignItems: 'center',
-    justifyContent: 'center',
   },
   localVideo: {
     position: 'absolute',
@@ -332,11 +384,6 @@ const styles = StyleSheet.create({
     height: 160,
     backgroundColor: '#2a2a2a',
     borderRadius: 12,
-    alignItems: 'center',
-    justifyContent: 'center',
-  },
-  videoPlaceholder: {
-    color: Colors.textMuted,
-    fontSize: 14,
+    overflow: 'hidden',
   },
 });
\ No newline at end of file
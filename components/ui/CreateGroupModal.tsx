@@ -0,0 +1,328 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  FlatList,
+  ActivityIndicator,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
+import { Colors } from '@/constants/Colors';
+import { chatService } from '@/services/endpoints/chat';
+import { Conversation, UserProfile } from '@/services/types';
+import { useAuth } from '@/hooks/useAuth';
+
+interface CreateGroupModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onGroupCreated: (conversation: Conversation) => void;
+}
+
+export default function CreateGroupModal({ visible, onClose, onGroupCreated }: CreateGroupModalProps) {
+  const { user } = useAuth();
+  const [groupName, setGroupName] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [selectedUsers, setSelectedUsers] = useState<UserProfile[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+
+  const searchUsers = useCallback(async (query: string) => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await chatService.searchUsers(query, user.id);
+      if (!error && data) {
+        setUsers(data.filter(u => u.id !== user.id));
+      }
+    } catch (error) {
+      console.error('Error searching users:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (searchQuery.trim().length > 0) {
+      searchUsers(searchQuery.trim());
+    } else {
+      setUsers([]);
+    }
+  }, [searchQuery, searchUsers]);
+
+  const resetState = () => {
+    setGroupName('');
+    setSearchQuery('');
+    setUsers([]);
+    setSelectedUsers([]);
+  };
+
+  const handleClose = () => {
+    resetState();
+    onClose();
+  };
+
+  const toggleUser = (selected: UserProfile) => {
+    setSelectedUsers(prev =>
+      prev.some(u => u.id === selected.id)
+        ? prev.filter(u => u.id !== selected.id)
+        : [...prev, selected]
+    );
+  };
+
+  const handleCreate = async () => {
+    if (!user || !groupName.trim() || selectedUsers.length === 0 || creating) return;
+
+    setCreating(true);
+    try {
+      const { data, error } = await chatService.createGroupConversation(
+        user.id,
+        groupName.trim(),
+        selectedUsers.map(u => u.id)
+      );
+
+      if (!error && data) {
+        onGroupCreated(data);
+        handleClose();
+      }
+    } catch (error) {
+      console.error('Error creating group:', error);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const canCreate = groupName.trim().length > 0 && selectedUsers.length > 0 && !creating;
+
+  const renderUserItem = ({ item }: { item: UserProfile }) => {
+    const isSelected = selectedUsers.some(u => u.id === item.id);
+
+    return (
+      <TouchableOpacity style={styles.userItem} onPress={() => toggleUser(item)}>
+        <Image
+          source={{ uri: item.avatar_url || 'https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=100&h=100&fit=crop&crop=face' }}
+          style={styles.avatar}
+        />
+        <View style={styles.userInfo}>
+          <Text style={styles.userName}>{item.full_name || item.username || 'Usuário'}</Text>
+          <Text style={styles.userHandle}>@{item.username}</Text>
+        </View>
+        <MaterialIcons
+          name={isSelected ? 'check-circle' : 'radio-button-unchecked'}
+          size={24}
+          color={isSelected ? Colors.primary : Colors.textMuted}
+        />
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+            <MaterialIcons name="close" size={24} color={Colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Novo Grupo</Text>
+          <TouchableOpacity onPress={handleCreate} disabled={!canCreate} style={styles.createButton}>
+            {creating ? (
+              <ActivityIndicator color={Colors.primary} size="small" />
+            ) : (
+              <Text style={[styles.createText, !canCreate && styles.createTextDisabled]}>Criar</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.nameContainer}>
+          <MaterialIcons name="group" size={20} color={Colors.textMuted} style={styles.searchIcon} />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Nome do grupo"
+            placeholderTextColor={Colors.textMuted}
+            value={groupName}
+            onChangeText={setGroupName}
+            maxLength={60}
+          />
+        </View>
+
+        {selectedUsers.length > 0 && (
+          <View style={styles.selectedContainer}>
+            {selectedUsers.map(selected => (
+              <TouchableOpacity key={selected.id} style={styles.chip} onPress={() => toggleUser(selected)}>
+                <Text style={styles.chipText}>{selected.full_name || selected.username}</Text>
+                <MaterialIcons name="close" size={14} color={Colors.text} />
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        <View style={styles.searchContainer}>
+          <MaterialIcons name="search" size={20} color={Colors.textMuted} style={styles.searchIcon} />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Adicionar participantes..."
+            placeholderTextColor={Colors.textMuted}
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+          />
+        </View>
+
+        <View style={styles.content}>
+          {loading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator color={Colors.primary} size="large" />
+            </View>
+          ) : users.length > 0 ? (
+            <FlatList
+              data={users}
+              renderItem={renderUserItem}
+              keyExtractor={(item) => item.id}
+              showsVerticalScrollIndicator={false}
+            />
+          ) : (
+            <View style={styles.emptyContainer}>
+              <MaterialIcons name="group-add" size={48} color={Colors.textMuted} />
+              <Text style={styles.emptyText}>
+                {searchQuery.trim().length > 0 ? 'Nenhum usuário encontrado' : 'Busque usuários para adicionar ao grupo'}
+              </Text>
+            </View>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    color: Colors.text,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  createButton: {
+    padding: 4,
+    minWidth: 40,
+    alignItems: 'flex-end',
+  },
+  createText: {
+    color: Colors.primary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  createTextDisabled: {
+    color: Colors.textMuted,
+  },
+  nameContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.inputBackground,
+    borderRadius: 20,
+    marginHorizontal: 20,
+    marginTop: 16,
+    paddingHorizontal: 16,
+  },
+  selectedContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginHorizontal: 20,
+    marginTop: 12,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.primary,
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    gap: 4,
+  },
+  chipText: {
+    color: Colors.text,
+    fontSize: 13,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.inputBackground,
+    borderRadius: 20,
+    marginHorizontal: 20,
+    marginVertical: 16,
+    paddingHorizontal: 16,
+  },
+  searchIcon: {
+    marginRight: 12,
+  },
+  searchInput: {
+    flex: 1,
+    color: Colors.text,
+    fontSize: 16,
+    paddingVertical: 12,
+  },
+  content: {
+    flex: 1,
+  },
+  userItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  avatar: {
+    width: 50,
+    height: 50,
+    borderRadius: 25,
+    marginRight: 16,
+  },
+  userInfo: {
+    flex: 1,
+  },
+  userName: {
+    color: Colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  userHandle: {
+    color: Colors.textMuted,
+    fontSize: 14,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 20,
+  },
+  emptyText: {
+    color: Colors.textMuted,
+    fontSize: 16,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,202 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { chatService } from '@/services/endpoints/chat';
+import { Message, MessageRevision } from '@/services/types';
+
+interface EditHistoryModalProps {
+  visible: boolean;
+  onClose: () => void;
+  message: Message | null;
+}
+
+export default function EditHistoryModal({ visible, onClose, message }: EditHistoryModalProps) {
+  const [revisions, setRevisions] = useState<MessageRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const messageId = message?.id;
+  const editedAt = message?.edited_at;
+
+  const loadRevisions = useCallback(async (id: string) => {
+    setLoading(true);
+    try {
+      const { data, error } = await chatService.getMessageRevisions(id);
+      if (!error && data) {
+        setRevisions(data);
+      }
+    } catch (error) {
+      console.error('Error loading revisions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Recarregar quando a mensagem for editada de novo com o histórico aberto
+  useEffect(() => {
+    if (visible && messageId) {
+      loadRevisions(messageId);
+    } else {
+      setRevisions([]);
+    }
+  }, [visible, messageId, editedAt, loadRevisions]);
+
+  const formatDateTime = (timestamp: string) => {
+    const date = new Date(timestamp);
+    return date.toLocaleString('pt-BR', {
+      day: '2-digit',
+      month: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const renderRevision = ({ item, index }: { item: MessageRevision; index: number }) => {
+    // Cada revisão guarda o texto que existia antes da edição feita em created_at
+    const previousRevision = revisions[index + 1];
+    const writtenAt = previousRevision ? previousRevision.created_at : message?.created_at;
+
+    return (
+      <View style={styles.revisionItem}>
+        <Text style={styles.revisionContent}>{item.content}</Text>
+        <Text style={styles.revisionMeta}>
+          {writtenAt ? `Escrita em ${formatDateTime(writtenAt)} • ` : ''}
+          Substituída em {formatDateTime(item.created_at)}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <MaterialIcons name="close" size={24} color={Colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Histórico de Edições</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        {message && (
+          <View style={styles.currentSection}>
+            <Text style={styles.sectionLabel}>Versão atual</Text>
+            <Text style={styles.currentContent}>{message.content}</Text>
+            {message.edited_at && (
+              <Text style={styles.revisionMeta}>Editada em {formatDateTime(message.edited_at)}</Text>
+            )}
+          </View>
+        )}
+
+        <Text style={[styles.sectionLabel, styles.listLabel]}>Versões anteriores</Text>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator color={Colors.primary} size="large" />
+          </View>
+        ) : (
+          <FlatList
+            data={revisions}
+            renderItem={renderRevision}
+            keyExtractor={(item) => item.id}
+            showsVerticalScrollIndicator={false}
+            ListEmptyComponent={
+              <View style={styles.emptyContainer}>
+                <MaterialIcons name="history" size={48} color={Colors.textMuted} />
+                <Text style={styles.emptyText}>Nenhuma edição registrada</Text>
+              </View>
+            }
+          />
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    color: Colors.text,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 32,
+  },
+  currentSection: {
+    backgroundColor: Colors.surface,
+    margin: 20,
+    padding: 16,
+    borderRadius: 12,
+  },
+  sectionLabel: {
+    color: Colors.textMuted,
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  listLabel: {
+    marginHorizontal: 20,
+  },
+  currentContent: {
+    color: Colors.text,
+    fontSize: 16,
+    lineHeight: 22,
+    marginBottom: 6,
+  },
+  revisionItem: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.divider,
+  },
+  revisionContent: {
+    color: Colors.textSecondary,
+    fontSize: 15,
+    lineHeight: 20,
+    marginBottom: 6,
+  },
+  revisionMeta: {
+    color: Colors.textMuted,
+    fontSize: 12,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 60,
+  },
+  emptyText: {
+    color: Colors.textMuted,
+    fontSize: 16,
+    marginTop: 16,
+  },
+});
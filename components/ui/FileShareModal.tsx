@@ -6,34 +6,54 @@ import {
   Modal,
   TouchableOpacity,
   ScrollView,
+  Alert,
+  Platform,
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
 import { Colors } from '@/constants/Colors';
 import { fileService, SharedFile } from '@/services/file-sharing';
+import { transferService } from '@/services/transfers';
+import { useAuth } from '@/hooks/useAuth';
 
 interface FileShareModalProps {
   visible: boolean;
   onClose: () => void;
-  onFileSelected: (file: SharedFile) => void;
+  conversationId?: string;
+  onFileSelected?: (file: SharedFile) => void;
 }
 
 export default function FileShareModal({
   visible,
   onClose,
+  conversationId,
   onFileSelected,
 }: FileShareModalProps) {
+  const { user } = useAuth();
   const [loading, setLoading] = useState(false);
 
+  const showAlert = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      console.log(`${title}: ${message}`);
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
   const handlePickFile = async () => {
     setLoading(true);
     try {
       const file = await fileService.pickDocument();
       if (file) {
-        onFileSelected(file);
+        // Envio retomável: continua em segundo plano e após quedas de conexão
+        if (conversationId && user) {
+          await transferService.enqueue(conversationId, user.id, file);
+        }
+        onFileSelected?.(file);
         onClose();
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('Erro ao selecionar arquivo:', error);
+      showAlert('Erro', error.message || 'Não foi possível enviar o arquivo');
     } finally {
       setLoading(false);
     }
@@ -125,6 +145,10 @@ export default function FileShareModal({
               <MaterialIcons name="cloud-upload" size={20} color={Colors.warning} />
               <Text style={styles.limitText}>Upload seguro e criptografado</Text>
             </View>
+            <View style={styles.limitItem}>
+              <MaterialIcons name="sync" size={20} color={Colors.primary} />
+              <Text style={styles.limitText}>Envios continuam de onde pararam se a conexão cair</Text>
+            </View>
           </View>
 
           <TouchableOpacity
@@ -0,0 +1,302 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
+import { Colors } from '@/constants/Colors';
+import { chatService } from '@/services/endpoints/chat';
+import { forwardingService } from '@/services/forwarding';
+import { Conversation, UserProfile } from '@/services/types';
+import { useAuth } from '@/hooks/useAuth';
+import UserSearchModal from '@/components/ui/UserSearchModal';
+
+interface ForwardMessageModalProps {
+  visible: boolean;
+  onClose: () => void;
+  messageIds: string[];
+  onForwarded?: () => void;
+}
+
+export default function ForwardMessageModal({ visible, onClose, messageIds, onForwarded }: ForwardMessageModalProps) {
+  const { user } = useAuth();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [forwarding, setForwarding] = useState(false);
+  const [searchModalVisible, setSearchModalVisible] = useState(false);
+
+  const loadConversations = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await chatService.getUserConversations(user.id);
+      if (!error && data) {
+        setConversations(data);
+      }
+    } catch (error) {
+      console.error('Error loading conversations:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (visible) {
+      loadConversations();
+    } else {
+      setSelectedIds([]);
+    }
+  }, [visible, loadConversations]);
+
+  const showAlert = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      console.log(`${title}: ${message}`);
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  const toggleConversation = (conversationId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(conversationId)
+        ? prev.filter(id => id !== conversationId)
+        : [...prev, conversationId]
+    );
+  };
+
+  // Usuário sem conversa existente: criar a conversa e já deixá-la selecionada
+  const handleUserSelect = async (selectedUser: UserProfile) => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await chatService.getOrCreateConversation(user.id, selectedUser.id);
+      if (error || !data) return;
+
+      setConversations(prev =>
+        prev.some(c => c.id === data.id) ? prev : [{ ...data, other_user: selectedUser }, ...prev]
+      );
+      setSelectedIds(prev => (prev.includes(data.id) ? prev : [...prev, data.id]));
+    } catch (error) {
+      console.error('Error creating conversation:', error);
+    }
+  };
+
+  const handleForward = async () => {
+    if (!user || selectedIds.length === 0 || messageIds.length === 0 || forwarding) return;
+
+    setForwarding(true);
+    try {
+      const { data: results, error } = await forwardingService.forwardMessages(messageIds, user.id, selectedIds);
+      if (error) {
+        showAlert('Erro', error.message || 'Não foi possível encaminhar');
+        return;
+      }
+
+      const blocked = results.filter(r => r.status === 'blocked').length;
+      const failed = results.filter(r => r.status === 'failed').length;
+
+      if (blocked > 0 || failed > 0) {
+        const parts = [];
+        if (blocked > 0) parts.push(`${blocked} conversa(s) com usuários bloqueados foram ignoradas`);
+        if (failed > 0) parts.push(`${failed} conversa(s) falharam`);
+        showAlert('Encaminhamento parcial', parts.join('\n'));
+      }
+
+      onForwarded?.();
+      onClose();
+    } catch (error) {
+      console.error('Error forwarding messages:', error);
+      showAlert('Erro', 'Erro de conexão');
+    } finally {
+      setForwarding(false);
+    }
+  };
+
+  const getConversationTitle = (conversation: Conversation) => {
+    if (conversation.is_group) return conversation.name || 'Grupo';
+    return conversation.other_user?.full_name || conversation.other_user?.username || 'Usuário';
+  };
+
+  const getConversationAvatar = (conversation: Conversation) => {
+    return conversation.is_group ? conversation.avatar_url : conversation.other_user?.avatar_url;
+  };
+
+  const renderConversation = ({ item }: { item: Conversation }) => {
+    const isSelected = selectedIds.includes(item.id);
+    const avatarUri = getConversationAvatar(item);
+
+    return (
+      <TouchableOpacity style={styles.conversationItem} onPress={() => toggleConversation(item.id)}>
+        {avatarUri ? (
+          <Image source={{ uri: avatarUri }} style={styles.avatar} />
+        ) : (
+          <View style={[styles.avatar, styles.avatarPlaceholder]}>
+            <MaterialIcons name={item.is_group ? 'group' : 'person'} size={24} color={Colors.text} />
+          </View>
+        )}
+        <Text style={styles.conversationName} numberOfLines={1}>{getConversationTitle(item)}</Text>
+        <MaterialIcons
+          name={isSelected ? 'check-circle' : 'radio-button-unchecked'}
+          size={24}
+          color={isSelected ? Colors.primary : Colors.textMuted}
+        />
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <MaterialIcons name="close" size={24} color={Colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>
+            Encaminhar {messageIds.length > 1 ? `${messageIds.length} mensagens` : 'mensagem'}
+          </Text>
+          <TouchableOpacity onPress={() => setSearchModalVisible(true)} style={styles.closeButton}>
+            <MaterialIcons name="person-search" size={24} color={Colors.primary} />
+          </TouchableOpacity>
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator color={Colors.primary} size="large" />
+          </View>
+        ) : (
+          <FlatList
+            data={conversations}
+            renderItem={renderConversation}
+            keyExtractor={(item) => item.id}
+            style={styles.list}
+            showsVerticalScrollIndicator={false}
+            ListEmptyComponent={
+              <View style={styles.emptyContainer}>
+                <MaterialIcons name="forum" size={48} color={Colors.textMuted} />
+                <Text style={styles.emptyText}>Nenhuma conversa encontrada</Text>
+              </View>
+            }
+          />
+        )}
+
+        <TouchableOpacity
+          style={[styles.forwardButton, (selectedIds.length === 0 || forwarding) && styles.forwardButtonDisabled]}
+          onPress={handleForward}
+          disabled={selectedIds.length === 0 || forwarding}
+        >
+          {forwarding ? (
+            <ActivityIndicator color={Colors.text} size="small" />
+          ) : (
+            <>
+              <MaterialIcons name="forward" size={20} color={Colors.text} />
+              <Text style={styles.forwardButtonText}>
+                Enviar{selectedIds.length > 0 ? ` (${selectedIds.length})` : ''}
+              </Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <UserSearchModal
+        visible={searchModalVisible}
+        onClose={() => setSearchModalVisible(false)}
+        onUserSelect={handleUserSelect}
+      />
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    color: Colors.text,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  list: {
+    flex: 1,
+  },
+  conversationItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    marginRight: 16,
+  },
+  avatarPlaceholder: {
+    backgroundColor: Colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  conversationName: {
+    flex: 1,
+    color: Colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+    marginRight: 12,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 80,
+  },
+  emptyText: {
+    color: Colors.textMuted,
+    fontSize: 16,
+    marginTop: 16,
+  },
+  forwardButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.primary,
+    marginHorizontal: 20,
+    marginBottom: 40,
+    paddingVertical: 16,
+    borderRadius: 12,
+    gap: 8,
+  },
+  forwardButtonDisabled: {
+    opacity: 0.5,
+  },
+  forwardButtonText: {
+    color: Colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,379 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
+import { Colors } from '@/constants/Colors';
+import { chatService } from '@/services/endpoints/chat';
+import { AnvicCrypto } from '@/services/encryption';
+import { ConversationParticipant, ParticipantRole, UserProfile } from '@/services/types';
+import { useAuth } from '@/hooks/useAuth';
+import UserSearchModal from '@/components/ui/UserSearchModal';
+
+interface GroupInfoModalProps {
+  visible: boolean;
+  onClose: () => void;
+  conversationId: string;
+  groupName: string;
+  groupAvatar?: string;
+  onLeftGroup: () => void;
+}
+
+const ROLE_LABELS: { [key in ParticipantRole]: string } = {
+  owner: 'Dono',
+  admin: 'Admin',
+  member: 'Membro',
+};
+
+export default function GroupInfoModal({
+  visible,
+  onClose,
+  conversationId,
+  groupName,
+  groupAvatar,
+  onLeftGroup,
+}: GroupInfoModalProps) {
+  const { user } = useAuth();
+  const [participants, setParticipants] = useState<ConversationParticipant[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [searchModalVisible, setSearchModalVisible] = useState(false);
+
+  const loadParticipants = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await chatService.getConversationParticipants(conversationId);
+      if (!error && data) {
+        setParticipants(data);
+      }
+    } catch (error) {
+      console.error('Error loading participants:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [conversationId]);
+
+  useEffect(() => {
+    if (visible) {
+      loadParticipants();
+    }
+  }, [visible, loadParticipants]);
+
+  const myRole = participants.find(p => p.user_id === user?.id)?.role;
+  const canManage = myRole === 'owner' || myRole === 'admin';
+
+  const showAlert = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      console.log(`${title}: ${message}`);
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  // Mudança de membros troca a chave do grupo; se falhar, a próxima mudança tenta de novo
+  const rotateGroupKey = async (excludeUserId?: string) => {
+    if (!user) return;
+
+    try {
+      await AnvicCrypto.rotateGroupKey(conversationId, user.id, excludeUserId);
+    } catch (error) {
+      console.error('Erro ao trocar a chave do grupo:', error);
+    }
+  };
+
+  const handleAddParticipant = async (selected: UserProfile) => {
+    if (!user) return;
+
+    const { error } = await chatService.addGroupParticipants(conversationId, user.id, [selected.id]);
+    if (error) {
+      showAlert('Erro', error.message || 'Não foi possível adicionar o participante');
+      return;
+    }
+    await rotateGroupKey();
+    loadParticipants();
+  };
+
+  const handleRemove = async (participant: ConversationParticipant) => {
+    if (!user) return;
+
+    const { error } = await chatService.removeGroupParticipant(conversationId, user.id, participant.user_id);
+    if (error) {
+      showAlert('Erro', error.message || 'Não foi possível remover o participante');
+      return;
+    }
+    await rotateGroupKey();
+    loadParticipants();
+  };
+
+  const handleToggleAdmin = async (participant: ConversationParticipant) => {
+    if (!user) return;
+
+    const newRole: ParticipantRole = participant.role === 'admin' ? 'member' : 'admin';
+    const { error } = await chatService.updateParticipantRole(conversationId, user.id, participant.user_id, newRole);
+    if (error) {
+      showAlert('Erro', error.message || 'Não foi possível alterar a função');
+      return;
+    }
+    loadParticipants();
+  };
+
+  const handleParticipantPress = (participant: ConversationParticipant) => {
+    if (!canManage || participant.user_id === user?.id || participant.role === 'owner') return;
+
+    const name = participant.user?.full_name || participant.user?.username || 'Usuário';
+    const actions: any[] = [{ text: 'Cancelar', style: 'cancel' }];
+
+    if (myRole === 'owner') {
+      actions.push({
+        text: participant.role === 'admin' ? 'Remover admin' : 'Tornar admin',
+        onPress: () => handleToggleAdmin(participant),
+      });
+    }
+    if (myRole === 'owner' || participant.role === 'member') {
+      actions.push({ text: 'Remover do grupo', style: 'destructive', onPress: () => handleRemove(participant) });
+    }
+
+    if (Platform.OS === 'web') {
+      if (confirm(`Remover ${name} do grupo?`)) {
+        handleRemove(participant);
+      }
+    } else {
+      Alert.alert(name, undefined, actions);
+    }
+  };
+
+  const handleLeave = () => {
+    if (!user) return;
+
+    const confirmLeave = async () => {
+      // Chave nova só para quem fica; girada antes de sair, enquanto ainda é participante
+      await rotateGroupKey(user.id);
+      const { error } = await chatService.leaveGroup(conversationId, user.id);
+      if (error) {
+        showAlert('Erro', 'Não foi possível sair do grupo');
+        return;
+      }
+      onClose();
+      onLeftGroup();
+    };
+
+    if (Platform.OS === 'web') {
+      if (confirm(`Sair de ${groupName}?`)) {
+        confirmLeave();
+      }
+    } else {
+      Alert.alert(
+        'Sair do Grupo',
+        `Deseja sair de ${groupName}?`,
+        [
+          { text: 'Cancelar', style: 'cancel' },
+          { text: 'Sair', style: 'destructive', onPress: confirmLeave },
+        ]
+      );
+    }
+  };
+
+  const renderParticipant = ({ item }: { item: ConversationParticipant }) => (
+    <TouchableOpacity style={styles.participantItem} onPress={() => handleParticipantPress(item)} activeOpacity={0.7}>
+      <Image
+        source={{ uri: item.user?.avatar_url || 'https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=100&h=100&fit=crop&crop=face' }}
+        style={styles.avatar}
+      />
+      <View style={styles.participantInfo}>
+        <Text style={styles.participantName}>
+          {item.user_id === user?.id ? 'Você' : item.user?.full_name || item.user?.username || 'Usuário'}
+        </Text>
+        <Text style={styles.participantHandle}>@{item.user?.username}</Text>
+      </View>
+      {item.role !== 'member' && (
+        <View style={styles.roleBadge}>
+          <Text style={styles.roleText}>{ROLE_LABELS[item.role]}</Text>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <MaterialIcons name="close" size={24} color={Colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Dados do Grupo</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        <View style={styles.groupSection}>
+          <Image
+            source={{ uri: groupAvatar || 'https://images.unsplash.com/photo-1522071820081-009f0129c71c?w=150&h=150&fit=crop' }}
+            style={styles.groupAvatar}
+          />
+          <Text style={styles.groupName}>{groupName}</Text>
+          <Text style={styles.groupMeta}>{participants.length} participantes</Text>
+        </View>
+
+        {canManage && (
+          <TouchableOpacity style={styles.addButton} onPress={() => setSearchModalVisible(true)}>
+            <MaterialIcons name="person-add" size={22} color={Colors.primary} />
+            <Text style={styles.addText}>Adicionar participantes</Text>
+          </TouchableOpacity>
+        )}
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator color={Colors.primary} size="large" />
+          </View>
+        ) : (
+          <FlatList
+            data={participants}
+            renderItem={renderParticipant}
+            keyExtractor={(item) => item.user_id}
+            style={styles.list}
+            showsVerticalScrollIndicator={false}
+          />
+        )}
+
+        <TouchableOpacity style={styles.leaveButton} onPress={handleLeave}>
+          <MaterialIcons name="exit-to-app" size={22} color={Colors.error} />
+          <Text style={styles.leaveText}>Sair do grupo</Text>
+        </TouchableOpacity>
+      </View>
+
+      <UserSearchModal
+        visible={searchModalVisible}
+        onClose={() => setSearchModalVisible(false)}
+        onUserSelect={handleAddParticipant}
+      />
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    color: Colors.text,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 32,
+  },
+  groupSection: {
+    alignItems: 'center',
+    paddingVertical: 24,
+  },
+  groupAvatar: {
+    width: 90,
+    height: 90,
+    borderRadius: 45,
+    marginBottom: 12,
+  },
+  groupName: {
+    color: Colors.text,
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  groupMeta: {
+    color: Colors.textMuted,
+    fontSize: 14,
+    marginTop: 4,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: Colors.divider,
+  },
+  addText: {
+    color: Colors.primary,
+    fontSize: 16,
+    fontWeight: '500',
+    marginLeft: 16,
+  },
+  list: {
+    flex: 1,
+  },
+  participantItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    marginRight: 16,
+  },
+  participantInfo: {
+    flex: 1,
+  },
+  participantName: {
+    color: Colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  participantHandle: {
+    color: Colors.textMuted,
+    fontSize: 13,
+  },
+  roleBadge: {
+    backgroundColor: Colors.primary + '30',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  roleText: {
+    color: Colors.primaryLight,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  leaveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(239, 68, 68, 0.1)',
+    marginHorizontal: 20,
+    marginBottom: 40,
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  leaveText: {
+    color: Colors.error,
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
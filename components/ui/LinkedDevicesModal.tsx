@@ -0,0 +1,339 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { Colors } from '@/constants/Colors';
+import { deviceService } from '@/services/devices';
+import { UserDevice } from '@/services/types';
+import { useAuth } from '@/hooks/useAuth';
+
+interface LinkedDevicesModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const PLATFORM_ICONS: { [key: string]: keyof typeof MaterialIcons.glyphMap } = {
+  ios: 'phone-iphone',
+  android: 'phone-android',
+  web: 'computer',
+};
+
+export default function LinkedDevicesModal({ visible, onClose }: LinkedDevicesModalProps) {
+  const { user } = useAuth();
+  const [permission, requestPermission] = useCameraPermissions();
+  const [devices, setDevices] = useState<UserDevice[]>([]);
+  const [currentDeviceId, setCurrentDeviceId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const [approving, setApproving] = useState(false);
+  const [revokingDeviceId, setRevokingDeviceId] = useState<string | null>(null);
+
+  const loadDevices = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const [{ data, error }, deviceId] = await Promise.all([
+        deviceService.getDevices(user.id),
+        deviceService.getDeviceId(),
+      ]);
+      if (!error && data) {
+        setDevices(data);
+      }
+      setCurrentDeviceId(deviceId);
+    } catch (error) {
+      console.error('Error loading devices:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (visible && user) {
+      loadDevices();
+    } else {
+      setScanning(false);
+    }
+  }, [visible, user, loadDevices]);
+
+  const showAlert = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      console.log(`${title}: ${message}`);
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  const handleStartScan = async () => {
+    if (!permission?.granted) {
+      const result = await requestPermission();
+      if (!result.granted) {
+        showAlert('Permissão necessária', 'Precisamos de acesso à câmera para ler o código');
+        return;
+      }
+    }
+    setScanning(true);
+  };
+
+  const handleScanned = async ({ data }: { data: string }) => {
+    if (!scanning || approving || !user) return;
+    setScanning(false);
+    setApproving(true);
+
+    try {
+      const { error } = await deviceService.approveDevice(user.id, data);
+      if (error) {
+        showAlert('Erro', error.message || 'Não foi possível vincular o aparelho');
+        return;
+      }
+      showAlert('Aparelho vinculado', 'As chaves foram enviadas. O novo aparelho já pode abrir suas conversas');
+      loadDevices();
+    } finally {
+      setApproving(false);
+    }
+  };
+
+  const handleRevoke = (device: UserDevice) => {
+    const confirmRevoke = () => {
+      performRevoke(device.id);
+    };
+
+    if (Platform.OS === 'web') {
+      if (confirm(`Desconectar ${device.device_name}?`)) {
+        confirmRevoke();
+      }
+    } else {
+      Alert.alert(
+        'Desconectar Aparelho',
+        `${device.device_name} será desconectado e apagará as chaves da sua conta.`,
+        [
+          { text: 'Cancelar', style: 'cancel' },
+          { text: 'Desconectar', style: 'destructive', onPress: confirmRevoke },
+        ]
+      );
+    }
+  };
+
+  const performRevoke = async (deviceId: string) => {
+    if (!user) return;
+
+    setRevokingDeviceId(deviceId);
+    try {
+      const { error } = await deviceService.revokeDevice(user.id, deviceId);
+      if (error) {
+        showAlert('Erro', 'Não foi possível desconectar o aparelho');
+        return;
+      }
+      setDevices(prev => prev.filter(device => device.id !== deviceId));
+
+      // O aparelho desconectado conhecia as chaves atuais dos grupos: novas mensagens usam outras
+      const { error: rotateError } = await deviceService.rotateGroupKeys(user.id);
+      if (rotateError) {
+        console.error('Error rotating group keys:', rotateError);
+        showAlert('Erro', 'O aparelho foi desconectado, mas não foi possível trocar as chaves de todos os grupos');
+      }
+    } catch (error) {
+      console.error('Error revoking device:', error);
+      showAlert('Erro', 'Erro de conexão');
+    } finally {
+      setRevokingDeviceId(null);
+    }
+  };
+
+  const renderDevice = ({ item }: { item: UserDevice }) => {
+    const isCurrent = item.id === currentDeviceId;
+
+    return (
+      <View style={styles.deviceItem}>
+        <View style={styles.deviceIcon}>
+          <MaterialIcons name={PLATFORM_ICONS[item.platform] || 'devices'} size={24} color={Colors.primary} />
+        </View>
+        <View style={styles.deviceInfo}>
+          <Text style={styles.deviceName}>{item.device_name}</Text>
+          <Text style={styles.deviceMeta}>
+            {isCurrent ? 'Este aparelho' : `Ativo em ${new Date(item.last_seen_at).toLocaleDateString('pt-BR')}`}
+          </Text>
+        </View>
+        {!isCurrent && (
+          <TouchableOpacity
+            style={styles.revokeButton}
+            onPress={() => handleRevoke(item)}
+            disabled={revokingDeviceId === item.id}
+          >
+            {revokingDeviceId === item.id ? (
+              <ActivityIndicator color={Colors.error} size="small" />
+            ) : (
+              <MaterialIcons name="logout" size={22} color={Colors.error} />
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <MaterialIcons name="close" size={24} color={Colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Aparelhos Vinculados</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        {scanning ? (
+          <View style={styles.scannerContainer}>
+            <CameraView
+              style={styles.scanner}
+              facing="back"
+              barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+              onBarcodeScanned={handleScanned}
+            />
+            <Text style={styles.scannerHint}>Aponte para o código exibido no novo aparelho</Text>
+            <TouchableOpacity style={styles.cancelScanButton} onPress={() => setScanning(false)}>
+              <Text style={styles.cancelScanText}>Cancelar</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <>
+            <TouchableOpacity style={styles.linkButton} onPress={handleStartScan} disabled={approving}>
+              {approving ? (
+                <ActivityIndicator color={Colors.primary} size="small" />
+              ) : (
+                <MaterialIcons name="qr-code-scanner" size={22} color={Colors.primary} />
+              )}
+              <Text style={styles.linkText}>Vincular novo aparelho</Text>
+            </TouchableOpacity>
+
+            {loading ? (
+              <View style={styles.loadingContainer}>
+                <ActivityIndicator color={Colors.primary} size="large" />
+              </View>
+            ) : (
+              <FlatList
+                data={devices}
+                renderItem={renderDevice}
+                keyExtractor={(item) => item.id}
+                showsVerticalScrollIndicator={false}
+              />
+            )}
+          </>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    color: Colors.text,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 32,
+  },
+  linkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderColor: Colors.divider,
+  },
+  linkText: {
+    color: Colors.primary,
+    fontSize: 16,
+    fontWeight: '500',
+    marginLeft: 16,
+  },
+  deviceItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.divider,
+  },
+  deviceIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: Colors.surfaceVariant,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 16,
+  },
+  deviceInfo: {
+    flex: 1,
+  },
+  deviceName: {
+    color: Colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  deviceMeta: {
+    color: Colors.textSecondary,
+    fontSize: 13,
+  },
+  revokeButton: {
+    padding: 8,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  scannerContainer: {
+    flex: 1,
+    padding: 20,
+  },
+  scanner: {
+    flex: 1,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  scannerHint: {
+    color: Colors.textSecondary,
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  cancelScanButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+  },
+  cancelScanText: {
+    color: Colors.primary,
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,249 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Linking } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
+import { Video, ResizeMode } from 'expo-av';
+import { Colors } from '@/constants/Colors';
+import { useSettings } from '@/hooks/useSettings';
+import { useMediaPreview } from '@/hooks/useMediaPreview';
+import { mediaStorageService } from '@/services/media-storage';
+import { autoDownloadService } from '@/services/auto-download';
+import { fileService } from '@/services/file-sharing';
+import { MediaMetadata, Message } from '@/services/types';
+import VoiceNotePlayer from './VoiceNotePlayer';
+
+interface MediaMessageProps {
+  message: Message;
+  userId: string;
+  isMyMessage: boolean;
+}
+
+const IMAGE_WIDTH = 220;
+const IMAGE_MIN_HEIGHT = 120;
+const IMAGE_MAX_HEIGHT = 320;
+
+// Proporção original da foto, limitada para não gerar balões muito altos ou achatados
+const getImageSize = (metadata?: MediaMetadata | null) => {
+  if (!metadata?.width || !metadata?.height) {
+    return { width: IMAGE_WIDTH, height: IMAGE_WIDTH };
+  }
+  const height = (IMAGE_WIDTH * metadata.height) / metadata.width;
+  return { width: IMAGE_WIDTH, height: Math.min(Math.max(height, IMAGE_MIN_HEIGHT), IMAGE_MAX_HEIGHT) };
+};
+
+export default function MediaMessage({ message, userId, isMyMessage }: MediaMessageProps) {
+  const { settings } = useSettings();
+  const [uri, setUri] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [network, setNetwork] = useState(autoDownloadService.getNetwork());
+  const [downloadRequested, setDownloadRequested] = useState(false);
+  const { blurhash, label } = useMediaPreview(message);
+  const fileName = label?.replace(/^📎 /, '') || 'Arquivo';
+
+  useEffect(() => {
+    return autoDownloadService.subscribe(setNetwork);
+  }, []);
+
+  // Quem enviou já tem a mídia; as recebidas seguem a política de download automático
+  const shouldLoad =
+    isMyMessage ||
+    downloadRequested ||
+    autoDownloadService.shouldAutoDownload(message, settings.autoDownload, network);
+
+  useEffect(() => {
+    // Mensagens de voz são carregadas pelo player compartilhado só quando tocadas
+    if (!message.media_url || message.message_type === 'audio' || !shouldLoad) return;
+
+    let cancelled = false;
+    setUri(null);
+    setFailed(false);
+
+    mediaStorageService.resolveMediaUri(message.media_url, userId).then(({ data, error }) => {
+      if (cancelled) return;
+      if (error || !data) {
+        console.error('Error loading media:', error);
+        setFailed(true);
+      } else {
+        autoDownloadService.markDownloaded(message.media_url!);
+        setUri(data);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [message.media_url, message.message_type, userId, shouldLoad]);
+
+  if (failed) {
+    return (
+      <View style={styles.unavailable}>
+        <MaterialIcons name="broken-image" size={20} color={Colors.textMuted} />
+        <Text style={styles.unavailableText}>Mídia indisponível</Text>
+      </View>
+    );
+  }
+
+  if (message.message_type === 'audio') {
+    return <VoiceNotePlayer message={message} isMyMessage={isMyMessage} pendingDownload={!shouldLoad} />;
+  }
+
+  // O blurhash chega junto com a mensagem e ocupa o lugar da foto enquanto ela baixa
+  const sizeLabel = message.media_metadata?.size ? fileService.formatFileSize(message.media_metadata.size) : null;
+
+  if (!shouldLoad) {
+    if (message.message_type === 'file') {
+      return (
+        <TouchableOpacity style={styles.fileContainer} onPress={() => setDownloadRequested(true)}>
+          <MaterialIcons name="insert-drive-file" size={32} color={Colors.primary} />
+          <View style={styles.fileInfo}>
+            <Text style={[styles.fileName, isMyMessage && styles.myFileName]} numberOfLines={2}>
+              {fileName}
+            </Text>
+            {sizeLabel && <Text style={styles.fileSize}>{sizeLabel}</Text>}
+          </View>
+          <MaterialIcons name="file-download" size={22} color={Colors.textSecondary} />
+        </TouchableOpacity>
+      );
+    }
+
+    return (
+      <TouchableOpacity
+        style={[
+          styles.downloadPlaceholder,
+          message.message_type === 'video' ? styles.video : [styles.image, getImageSize(message.media_metadata)],
+        ]}
+        onPress={() => setDownloadRequested(true)}
+        activeOpacity={0.8}
+      >
+        {blurhash && (
+          <Image placeholder={{ blurhash }} style={StyleSheet.absoluteFill} contentFit="cover" />
+        )}
+        <View style={styles.downloadBadge}>
+          <MaterialIcons name="file-download" size={22} color={Colors.text} />
+          {sizeLabel && <Text style={styles.downloadSize}>{sizeLabel}</Text>}
+        </View>
+      </TouchableOpacity>
+    );
+  }
+  if (message.message_type === 'image' && (uri || blurhash)) {
+    return (
+      <Image
+        source={uri ? { uri } : null}
+        placeholder={blurhash ? { blurhash } : undefined}
+        style={[styles.image, getImageSize(message.media_metadata)]}
+        contentFit="cover"
+        transition={150}
+      />
+    );
+  }
+
+  if (!uri) {
+    return (
+      <View style={[styles.loading, message.message_type === 'file' && styles.fileLoading]}>
+        <ActivityIndicator color={Colors.primary} size="small" />
+      </View>
+    );
+  }
+
+  switch (message.message_type) {
+    case 'video':
+      return (
+        <Video
+          source={{ uri }}
+          style={styles.video}
+          useNativeControls
+          resizeMode={ResizeMode.CONTAIN}
+        />
+      );
+    case 'file':
+      return (
+        <TouchableOpacity style={styles.fileContainer} onPress={() => Linking.openURL(uri)}>
+          <MaterialIcons name="insert-drive-file" size={32} color={Colors.primary} />
+          <Text style={[styles.fileName, isMyMessage && styles.myFileName]} numberOfLines={2}>
+            {fileName}
+          </Text>
+          <MaterialIcons name="file-download" size={22} color={Colors.textSecondary} />
+        </TouchableOpacity>
+      );
+    default:
+      return null;
+  }
+}
+
+const styles = StyleSheet.create({
+  image: {
+    borderRadius: 12,
+    marginBottom: 4,
+  },
+  video: {
+    width: 240,
+    height: 180,
+    borderRadius: 12,
+    marginBottom: 4,
+    backgroundColor: '#000000',
+  },
+  loading: {
+    width: 220,
+    height: 160,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  fileLoading: {
+    height: 44,
+  },
+  unavailable: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  unavailableText: {
+    color: Colors.textMuted,
+    fontSize: 14,
+    fontStyle: 'italic',
+    marginLeft: 6,
+  },
+  fileContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: 240,
+    paddingVertical: 4,
+  },
+  fileName: {
+    flex: 1,
+    color: Colors.textSecondary,
+    fontSize: 14,
+    marginHorizontal: 8,
+  },
+  myFileName: {
+    color: Colors.text,
+  },
+  fileInfo: {
+    flex: 1,
+  },
+  fileSize: {
+    color: Colors.textMuted,
+    fontSize: 12,
+    marginHorizontal: 8,
+    marginTop: 2,
+  },
+  downloadPlaceholder: {
+    backgroundColor: Colors.surfaceVariant,
+    alignItems: 'center',
+    justifyContent: 'center',
+    overflow: 'hidden',
+  },
+  downloadBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 18,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  downloadSize: {
+    color: Colors.text,
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+});
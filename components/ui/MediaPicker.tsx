@@ -11,22 +11,31 @@ import {
 import { MaterialIcons } from '@expo/vector-icons';
 import { Colors } from '@/constants/Colors';
 import { mediaService, MediaFile } from '@/services/media';
+import { useSettings } from '@/hooks/useSettings';
 
 interface MediaPickerProps {
   visible: boolean;
   onClose: () => void;
   onMediaSelected: (media: MediaFile) => void;
+  onPickFile?: () => void;
   enableEncryption?: boolean;
+  // Só muda a aparência; a criptografia depende de enableEncryption
+  privateMode?: boolean;
   userId?: string;
+  conversationId?: string;
 }
 
 export default function MediaPicker({ 
   visible, 
   onClose, 
   onMediaSelected, 
-  enableEncryption = false,
-  userId 
+  onPickFile,
+  enableEncryption = true,
+  privateMode = false,
+  userId,
+  conversationId
 }: MediaPickerProps) {
+  const { settings } = useSettings();
   const [loading, setLoading] = useState(false);
 
   const showAlert = (title: string, message: string) => {
@@ -46,13 +55,17 @@ export default function MediaPicker({
 
       switch (action) {
         case 'camera':
-          result = await mediaService.capturePhoto(enableEncryption, userId);
+          result = await mediaService.capturePhoto(enableEncryption, userId, conversationId, {
+            highQuality: settings.highQualityImages,
+          });
           break;
         case 'gallery':
-          result = await mediaService.pickImage(enableEncryption, userId);
+          result = await mediaService.pickImage(enableEncryption, userId, conversationId, {
+            highQuality: settings.highQualityImages,
+          });
           break;
         case 'video':
-          result = await mediaService.captureVideo(enableEncryption, userId);
+          result = await mediaService.captureVideo(enableEncryption, userId, conversationId);
           break;
         default:
           break;
@@ -114,16 +127,16 @@ export default function MediaPicker({
             <MaterialIcons name="close" size={24} color={Colors.text} />
           </TouchableOpacity>
           <Text style={styles.headerTitle}>
-            {enableEncryption ? 'Mídia Privada 😈' : 'Selecionar Mídia'}
+            {privateMode ? 'Mídia Privada 😈' : 'Selecionar Mídia'}
           </Text>
           <View style={styles.placeholder} />
         </View>
 
-        {enableEncryption && (
+        {privateMode && (
           <View style={styles.privacyNotice}>
             <MaterialIcons name="security" size={20} color="#ff6b6b" />
             <Text style={styles.privacyText}>
-              Modo Privado Ativo - Mídia será criptografada
+              Modo Privado Ativo - Capturas de tela bloqueadas
             </Text>
           </View>
         )}
@@ -153,6 +166,19 @@ export default function MediaPicker({
             color="#F59E0B"
           />
 
+          {onPickFile && (
+            <MediaOption
+              icon="attach-file"
+              title="Arquivo"
+              subtitle="Documentos e arquivos de até 100MB"
+              onPress={() => {
+                onClose();
+                onPickFile();
+              }}
+              color="#45B7D1"
+            />
+          )}
+
           {/* Opção de áudio será implementada no chat */}
         </View>
 
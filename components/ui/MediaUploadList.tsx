@@ -0,0 +1,88 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { MediaUpload } from '@/services/media-storage';
+
+interface MediaUploadListProps {
+  uploads: MediaUpload[];
+  onCancel: (uploadId: string) => void;
+}
+
+const MEDIA_ICONS: { [key in MediaUpload['media']['type']]: keyof typeof MaterialIcons.glyphMap } = {
+  image: 'image',
+  video: 'videocam',
+  audio: 'mic',
+};
+
+// Envios de mídia em andamento, exibidos acima do campo de mensagem
+export default function MediaUploadList({ uploads, onCancel }: MediaUploadListProps) {
+  if (uploads.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      {uploads.map(upload => (
+        <View key={upload.id} style={styles.uploadRow}>
+          <MaterialIcons name={MEDIA_ICONS[upload.media.type]} size={20} color={Colors.primary} />
+          <View style={styles.uploadInfo}>
+            <Text style={styles.uploadName} numberOfLines={1}>
+              Enviando {upload.media.name}
+            </Text>
+            <View style={styles.progressTrack}>
+              <View style={[styles.progressFill, { width: `${Math.round(upload.progress * 100)}%` }]} />
+            </View>
+          </View>
+          <Text style={styles.percentText}>{Math.round(upload.progress * 100)}%</Text>
+          <TouchableOpacity onPress={() => onCancel(upload.id)} style={styles.cancelButton}>
+            <MaterialIcons name="close" size={20} color={Colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+    backgroundColor: Colors.surface,
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+  },
+  uploadRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  uploadInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  uploadName: {
+    color: Colors.text,
+    fontSize: 13,
+    marginBottom: 6,
+  },
+  progressTrack: {
+    height: 3,
+    borderRadius: 2,
+    backgroundColor: Colors.border,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: Colors.primary,
+  },
+  percentText: {
+    color: Colors.textSecondary,
+    fontSize: 12,
+    marginLeft: 12,
+    minWidth: 36,
+    textAlign: 'right',
+  },
+  cancelButton: {
+    padding: 4,
+    marginLeft: 4,
+  },
+});
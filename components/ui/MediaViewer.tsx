@@ -0,0 +1,261 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+  Platform,
+  useWindowDimensions,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Image } from 'expo-image';
+import { Video, ResizeMode } from 'expo-av';
+import { Colors } from '@/constants/Colors';
+import { useMediaPreview } from '@/hooks/useMediaPreview';
+import { mediaStorageService } from '@/services/media-storage';
+import { Message } from '@/services/types';
+
+interface MediaViewerProps {
+  visible: boolean;
+  items: Message[];
+  initialIndex: number;
+  userId: string;
+  onClose: () => void;
+  onJumpToMessage: (message: Message) => void;
+}
+
+// Fotos e vídeos da conversa em tela cheia, deslizando entre eles
+export default function MediaViewer({
+  visible,
+  items,
+  initialIndex,
+  userId,
+  onClose,
+  onJumpToMessage,
+}: MediaViewerProps) {
+  const { width } = useWindowDimensions();
+  const [currentIndex, setCurrentIndex] = useState(initialIndex);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) setCurrentIndex(initialIndex);
+  }, [visible, initialIndex]);
+
+  const current = items[currentIndex];
+
+  const showAlert = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      console.log(`${title}: ${message}`);
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  const handleScrollEnd = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    setCurrentIndex(Math.round(event.nativeEvent.contentOffset.x / width));
+  };
+
+  const handleSave = async () => {
+    if (!current?.media_url || saving) return;
+
+    setSaving(true);
+    try {
+      const { error } = await mediaStorageService.saveToLibrary(
+        current.media_url,
+        userId,
+        current.message_type === 'video' ? 'video' : 'image'
+      );
+      if (error) {
+        showAlert('Erro', error.message || 'Não foi possível salvar no aparelho');
+      } else {
+        showAlert('Salvo', current.message_type === 'video' ? 'Vídeo salvo na galeria' : 'Foto salva na galeria');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleJump = () => {
+    if (!current) return;
+    onClose();
+    onJumpToMessage(current);
+  };
+
+  return (
+    <Modal visible={visible} animationType="fade" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <MaterialIcons name="close" size={26} color={Colors.text} />
+          </TouchableOpacity>
+          <View style={styles.headerInfo}>
+            {current && (
+              <>
+                <Text style={styles.senderName} numberOfLines={1}>
+                  {current.sender_id === userId
+                    ? 'Você'
+                    : current.sender?.full_name || current.sender?.username || 'Usuário'}
+                </Text>
+                <Text style={styles.dateText}>
+                  {new Date(current.created_at).toLocaleString('pt-BR', {
+                    day: '2-digit',
+                    month: '2-digit',
+                    year: 'numeric',
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  })}
+                </Text>
+              </>
+            )}
+          </View>
+          <TouchableOpacity onPress={handleJump} style={styles.headerButton}>
+            <MaterialIcons name="chat" size={24} color={Colors.text} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleSave} style={styles.headerButton} disabled={saving}>
+            {saving ? (
+              <ActivityIndicator color={Colors.text} size="small" />
+            ) : (
+              <MaterialIcons name="file-download" size={24} color={Colors.text} />
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <FlatList
+          data={items}
+          horizontal
+          pagingEnabled
+          showsHorizontalScrollIndicator={false}
+          initialScrollIndex={initialIndex}
+          getItemLayout={(_, index) => ({ length: width, offset: width * index, index })}
+          onMomentumScrollEnd={handleScrollEnd}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item, index }) => (
+            <View style={{ width }}>
+              <ViewerItem message={item} userId={userId} isActive={index === currentIndex} />
+            </View>
+          )}
+        />
+
+        {items.length > 1 && (
+          <Text style={styles.counter}>
+            {currentIndex + 1} de {items.length}
+          </Text>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+function ViewerItem({ message, userId, isActive }: { message: Message; userId: string; isActive: boolean }) {
+  const [uri, setUri] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const { blurhash } = useMediaPreview(message);
+
+  useEffect(() => {
+    if (!message.media_url) return;
+
+    let cancelled = false;
+    mediaStorageService.resolveMediaUri(message.media_url, userId).then(({ data, error }) => {
+      if (cancelled) return;
+      if (error || !data) {
+        setFailed(true);
+      } else {
+        setUri(data);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [message.media_url, userId]);
+
+  if (failed) {
+    return (
+      <View style={styles.centered}>
+        <MaterialIcons name="broken-image" size={48} color={Colors.textMuted} />
+        <Text style={styles.unavailableText}>Mídia indisponível</Text>
+      </View>
+    );
+  }
+
+  if (message.message_type === 'video') {
+    return uri ? (
+      <Video
+        source={{ uri }}
+        style={styles.media}
+        useNativeControls
+        shouldPlay={isActive}
+        resizeMode={ResizeMode.CONTAIN}
+      />
+    ) : (
+      <View style={styles.centered}>
+        <ActivityIndicator color={Colors.primary} size="large" />
+      </View>
+    );
+  }
+
+  return (
+    <Image
+      source={uri ? { uri } : null}
+      placeholder={blurhash ? { blurhash } : undefined}
+      style={styles.media}
+      contentFit="contain"
+      transition={150}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  headerButton: {
+    padding: 8,
+  },
+  headerInfo: {
+    flex: 1,
+    marginHorizontal: 8,
+  },
+  senderName: {
+    color: Colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  dateText: {
+    color: Colors.textSecondary,
+    fontSize: 12,
+  },
+  media: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  unavailableText: {
+    color: Colors.textMuted,
+    fontSize: 14,
+    marginTop: 8,
+  },
+  counter: {
+    color: Colors.textSecondary,
+    fontSize: 13,
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+});
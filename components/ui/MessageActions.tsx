@@ -13,6 +13,15 @@ import { MaterialIcons } from '@expo/vector-icons';
 import { Colors } from '@/constants/Colors';
 import { useSettings } from '@/hooks/useSettings';
 import { Themes } from '@/constants/Themes';
+import { DELETE_FOR_EVERYONE_WINDOW_MS } from '@/services/endpoints/chat';
+
+// O prazo para apagar para todos vem da configuração do servidor; os avisos mostram o valor ao usuário
+const formatDeleteWindow = (windowMs: number) => {
+  const minutes = Math.round(windowMs / 60000);
+  return minutes % 60 === 0
+    ? `${minutes / 60} ${minutes === 60 ? 'hora' : 'horas'}`
+    : `${minutes} ${minutes === 1 ? 'minuto' : 'minutos'}`;
+};
 
 interface MessageActionsProps {
   visible: boolean;
@@ -20,8 +29,10 @@ interface MessageActionsProps {
   messageId: string;
   isOwnMessage: boolean;
   isFavorited: boolean;
+  canDeleteForEveryone?: boolean;
+  deleteWindowMs?: number;
   onEdit: (messageId: string) => void;
-  onDelete: (messageId: string) => void;
+  onDelete: (messageId: string, mode: 'me' | 'everyone') => void;
   onToggleFavorite: (messageId: string) => void;
   onReply: (messageId: string) => void;
   onForward: (messageId: string) => void;
@@ -34,6 +45,8 @@ export default function MessageActions({
   messageId,
   isOwnMessage,
   isFavorited,
+  canDeleteForEveryone = false,
+  deleteWindowMs = DELETE_FOR_EVERYONE_WINDOW_MS,
   onEdit,
   onDelete,
   onToggleFavorite,
@@ -75,14 +88,35 @@ export default function MessageActions({
   };
 
   const handleDelete = () => {
-    showAlert(
-      'Apagar Mensagem',
-      'Esta ação não pode ser desfeita. Deseja continuar?',
-      () => {
-        onDelete(messageId);
-        onClose();
+    const windowLabel = formatDeleteWindow(deleteWindowMs);
+    const confirmDelete = (mode: 'me' | 'everyone') => {
+      onDelete(messageId, mode);
+      onClose();
+    };
+
+    if (!canDeleteForEveryone) {
+      showAlert(
+        'Apagar Mensagem',
+        isOwnMessage
+          ? `Apagar para todos só é possível até ${windowLabel} após o envio. A mensagem será apagada apenas para você. Deseja continuar?`
+          : 'A mensagem será apagada apenas para você. Deseja continuar?',
+        () => confirmDelete('me')
+      );
+      return;
+    }
+
+    const deleteNotice = `Esta ação não pode ser desfeita. Apagar para todos fica disponível até ${windowLabel} após o envio.`;
+    if (Platform.OS === 'web') {
+      if (confirm(`Apagar Mensagem\n${deleteNotice} Deseja continuar?`)) {
+        confirmDelete(confirm('Apagar também para todos os participantes?') ? 'everyone' : 'me');
       }
-    );
+    } else {
+      Alert.alert('Apagar Mensagem', deleteNotice, [
+        { text: 'Cancelar', style: 'cancel' },
+        { text: 'Apagar para mim', onPress: () => confirmDelete('me') },
+        { text: 'Apagar para todos', style: 'destructive', onPress: () => confirmDelete('everyone') },
+      ]);
+    }
   };
 
   const ActionButton = ({ 
@@ -161,21 +195,19 @@ export default function MessageActions({
             />
 
             {isOwnMessage && (
-              <>
-                <ActionButton
-                  icon="edit"
-                  title="Editar"
-                  onPress={() => onEdit(messageId)}
-                />
-
-                <ActionButton
-                  icon="delete"
-                  title="Apagar"
-                  onPress={handleDelete}
-                  dangerous
-                />
-              </>
+              <ActionButton
+                icon="edit"
+                title="Editar"
+                onPress={() => onEdit(messageId)}
+              />
             )}
+
+            <ActionButton
+              icon="delete"
+              title="Apagar"
+              onPress={handleDelete}
+              dangerous
+            />
           </View>
         </Animated.View>
       </TouchableOpacity>
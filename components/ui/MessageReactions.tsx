@@ -10,13 +10,13 @@ import {
   Dimensions,
 } from 'react-native';
 import { MaterialIcons } from '@expo/vector-icons';
-import { Colors } from '@/constants/Colors';
 import { useSettings } from '@/hooks/useSettings';
 import { Themes } from '@/constants/Themes';
 
 interface MessageReactionsProps {
   messageId: string;
   reactions: { [emoji: string]: string[] }; // emoji -> array of user IDs
+  reactorNames?: { [userId: string]: string }; // user ID -> display name
   currentUserId: string;
   onAddReaction: (messageId: string, emoji: string) => void;
   onRemoveReaction: (messageId: string, emoji: string) => void;
@@ -28,6 +28,7 @@ const QUICK_REACTIONS = ['❤️', '😂', '😮', '😢', '😡', '👍', '👎
 export default function MessageReactions({
   messageId,
   reactions,
+  reactorNames = {},
   currentUserId,
   onAddReaction,
   onRemoveReaction,
@@ -37,6 +38,7 @@ export default function MessageReactions({
   const currentTheme = Themes[settings.theme];
   const [showPicker, setShowPicker] = useState(false);
   const [pickerAnimation] = useState(new Animated.Value(0));
+  const [detailsEmoji, setDetailsEmoji] = useState<string | null>(null);
 
   const showReactionPicker = () => {
     setShowPicker(true);
@@ -97,6 +99,7 @@ export default function MessageReactions({
                 userReacted && { backgroundColor: currentTheme.primary + '30', borderColor: currentTheme.primary, borderWidth: 1 }
               ]}
               onPress={() => handleReaction(emoji)}
+              onLongPress={() => setDetailsEmoji(emoji)}
             >
               <Text style={styles.reactionEmoji}>{emoji}</Text>
               <Text style={[styles.reactionCount, { color: currentTheme.text }]}>
@@ -170,6 +173,28 @@ export default function MessageReactions({
           </TouchableOpacity>
         </Modal>
       )}
+
+      {/* Who Reacted Modal */}
+      {detailsEmoji && (
+        <Modal transparent visible={!!detailsEmoji} onRequestClose={() => setDetailsEmoji(null)}>
+          <TouchableOpacity
+            style={styles.modalOverlay}
+            activeOpacity={1}
+            onPress={() => setDetailsEmoji(null)}
+          >
+            <View style={[styles.reactionPicker, { backgroundColor: currentTheme.surface }]}>
+              <Text style={[styles.pickerTitle, { color: currentTheme.text }]}>
+                {detailsEmoji} {reactions[detailsEmoji]?.length || 0}
+              </Text>
+              {(reactions[detailsEmoji] || []).map((userId) => (
+                <Text key={userId} style={[styles.reactorName, { color: currentTheme.textSecondary }]}>
+                  {reactorNames[userId] || 'Usuário'}
+                </Text>
+              ))}
+            </View>
+          </TouchableOpacity>
+        </Modal>
+      )}
     </View>
   );
 }
@@ -227,6 +252,10 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 16,
   },
+  reactorName: {
+    fontSize: 15,
+    paddingVertical: 6,
+  },
   emojiGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
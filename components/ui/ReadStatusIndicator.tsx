@@ -6,7 +6,7 @@ import { useSettings } from '@/hooks/useSettings';
 import { Themes } from '@/constants/Themes';
 
 interface ReadStatusIndicatorProps {
-  status: 'sending' | 'sent' | 'delivered' | 'read';
+  status: 'pending' | 'failed' | 'sending' | 'sent' | 'delivered' | 'read';
   style?: any;
 }
 
@@ -16,6 +16,22 @@ export default function ReadStatusIndicator({ status, style }: ReadStatusIndicat
 
   const getStatusIcon = () => {
     switch (status) {
+      case 'pending':
+        return (
+          <MaterialIcons 
+            name="access-time" 
+            size={14} 
+            color={currentTheme.textMuted} 
+          />
+        );
+      case 'failed':
+        return (
+          <MaterialIcons 
+            name="error-outline" 
+            size={14} 
+            color={Colors.error} 
+          />
+        );
       case 'sending':
         return (
           <MaterialIcons 
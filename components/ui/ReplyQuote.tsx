@@ -0,0 +1,102 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { MessagePreview } from '@/services/types';
+import { AnvicCrypto } from '@/services/encryption';
+
+interface ReplyQuoteProps {
+  message: MessagePreview;
+  // Texto já descriptografado pela tela, quando a mensagem citada é um envelope
+  openedContent?: string | null;
+  currentUserId?: string;
+  onPress?: () => void;
+  onDismiss?: () => void;
+  isMyBubble?: boolean;
+  style?: any;
+}
+
+const MEDIA_LABELS: { [key: string]: string } = {
+  image: '📷 Foto',
+  video: '🎥 Vídeo',
+  audio: '🎤 Áudio',
+};
+
+export default function ReplyQuote({
+  message,
+  openedContent,
+  currentUserId,
+  onPress,
+  onDismiss,
+  isMyBubble = false,
+  style,
+}: ReplyQuoteProps) {
+  const senderName = message.sender_id === currentUserId
+    ? 'Você'
+    : message.sender?.full_name || message.sender?.username || 'Usuário';
+
+  const preview = AnvicCrypto.parseEnvelope(message.content)
+    ? openedContent ?? '🔒 Mensagem criptografada'
+    : message.message_type === 'text'
+      ? message.content
+      : MEDIA_LABELS[message.message_type] || message.content;
+
+  return (
+    <TouchableOpacity
+      style={[styles.container, isMyBubble ? styles.myContainer : styles.otherContainer, style]}
+      onPress={onPress}
+      disabled={!onPress}
+      activeOpacity={0.7}
+    >
+      <View style={styles.accent} />
+      <View style={styles.content}>
+        <Text style={styles.senderName} numberOfLines={1}>{senderName}</Text>
+        <Text style={styles.preview} numberOfLines={2}>{preview}</Text>
+      </View>
+      {onDismiss && (
+        <TouchableOpacity onPress={onDismiss} style={styles.dismissButton}>
+          <MaterialIcons name="close" size={18} color={Colors.textMuted} />
+        </TouchableOpacity>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginBottom: 6,
+  },
+  myContainer: {
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+  },
+  otherContainer: {
+    backgroundColor: Colors.surfaceVariant,
+  },
+  accent: {
+    width: 4,
+    alignSelf: 'stretch',
+    backgroundColor: Colors.primaryLight,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  senderName: {
+    color: Colors.primaryLight,
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  preview: {
+    color: Colors.textSecondary,
+    fontSize: 13,
+  },
+  dismissButton: {
+    padding: 8,
+  },
+});
@@ -0,0 +1,376 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+  Alert,
+  Platform,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import QRCode from 'react-native-qrcode-svg';
+import { Colors } from '@/constants/Colors';
+import { chatService } from '@/services/endpoints/chat';
+import { AnvicCrypto } from '@/services/encryption';
+import { verificationService, ContactKeyRecord } from '@/services/verification';
+import { useAuth } from '@/hooks/useAuth';
+
+interface SafetyNumberModalProps {
+  visible: boolean;
+  onClose: () => void;
+  conversationId: string;
+  contactId: string;
+  contactName: string;
+  onRecordChange?: (record: ContactKeyRecord | null) => void;
+}
+
+export default function SafetyNumberModal({
+  visible,
+  onClose,
+  conversationId,
+  contactId,
+  contactName,
+  onRecordChange,
+}: SafetyNumberModalProps) {
+  const { user } = useAuth();
+  const [permission, requestPermission] = useCameraPermissions();
+  const [safetyNumber, setSafetyNumber] = useState<string | null>(null);
+  const [record, setRecord] = useState<ContactKeyRecord | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [scanning, setScanning] = useState(false);
+
+  const updateRecord = useCallback((updated: ContactKeyRecord | null) => {
+    setRecord(updated);
+    onRecordChange?.(updated);
+  }, [onRecordChange]);
+
+  const loadSafetyNumber = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const [myKeys, { data: contact }] = await Promise.all([
+        AnvicCrypto.getPublicKeys(user.id),
+        chatService.getUserProfile(contactId),
+      ]);
+
+      if (!contact?.identity_key || !contact?.signing_key) {
+        setSafetyNumber(null);
+        return;
+      }
+
+      const { status, record: current } = await verificationService.checkContactKeys(user.id, contactId, contact);
+      if (status === 'changed') {
+        AnvicCrypto.invalidateSessionKeys(conversationId);
+      }
+      updateRecord(current);
+      setSafetyNumber(verificationService.computeSafetyNumber(user.id, myKeys, contactId, contact));
+    } catch (error) {
+      console.error('Error loading safety number:', error);
+      setSafetyNumber(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, contactId, conversationId, updateRecord]);
+
+  useEffect(() => {
+    if (visible) {
+      loadSafetyNumber();
+    } else {
+      setScanning(false);
+    }
+  }, [visible, loadSafetyNumber]);
+
+  const showAlert = (title: string, message: string) => {
+    if (Platform.OS === 'web') {
+      console.log(`${title}: ${message}`);
+    } else {
+      Alert.alert(title, message);
+    }
+  };
+
+  const handleToggleVerified = async () => {
+    if (!user || !record) return;
+
+    const updated = await verificationService.setVerified(user.id, contactId, !record.verified);
+    updateRecord(updated);
+  };
+
+  const handleStartScan = async () => {
+    if (!permission?.granted) {
+      const result = await requestPermission();
+      if (!result.granted) {
+        showAlert('Permissão necessária', 'Precisamos de acesso à câmera para ler o código');
+        return;
+      }
+    }
+    setScanning(true);
+  };
+
+  const handleScanned = async ({ data }: { data: string }) => {
+    if (!scanning || !user || !safetyNumber) return;
+    setScanning(false);
+
+    if (verificationService.matchesQrPayload(data, safetyNumber)) {
+      const updated = await verificationService.setVerified(user.id, contactId, true);
+      updateRecord(updated);
+      showAlert('Verificado', `Sua conversa com ${contactName} está verificada`);
+    } else {
+      showAlert(
+        'Códigos diferentes',
+        'O código lido não corresponde a esta conversa. Confira se está lendo o aparelho certo.'
+      );
+    }
+  };
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator color={Colors.primary} size="large" />
+        </View>
+      );
+    }
+
+    if (!safetyNumber) {
+      return (
+        <View style={styles.emptyContainer}>
+          <MaterialIcons name="vpn-key" size={48} color={Colors.textMuted} />
+          <Text style={styles.emptyText}>
+            {contactName} ainda não publicou suas chaves de criptografia
+          </Text>
+        </View>
+      );
+    }
+
+    if (scanning) {
+      return (
+        <View style={styles.scannerContainer}>
+          <CameraView
+            style={styles.scanner}
+            facing="back"
+            barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+            onBarcodeScanned={handleScanned}
+          />
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => setScanning(false)}>
+            <Text style={styles.secondaryButtonText}>Cancelar leitura</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        {record?.keyChangedAt && (
+          <View style={styles.warningBox}>
+            <MaterialIcons name="warning" size={22} color={Colors.warning} />
+            <Text style={styles.warningText}>
+              O número de segurança com {contactName} mudou. Isso acontece quando o contato reinstala o app
+              ou troca de aparelho, mas também pode indicar interceptação. Confira o número antes de continuar.
+            </Text>
+          </View>
+        )}
+
+        <View style={styles.statusRow}>
+          <MaterialIcons
+            name={record?.verified ? 'verified-user' : 'shield'}
+            size={20}
+            color={record?.verified ? Colors.success : Colors.textMuted}
+          />
+          <Text style={[styles.statusText, record?.verified && styles.statusTextVerified]}>
+            {record?.verified ? 'Verificado' : 'Não verificado'}
+          </Text>
+        </View>
+
+        <View style={styles.qrContainer}>
+          <QRCode value={verificationService.getQrPayload(safetyNumber)} size={200} backgroundColor="#FFFFFF" />
+        </View>
+
+        <View style={styles.numberGrid}>
+          {verificationService.formatSafetyNumber(safetyNumber).map((block, index) => (
+            <Text key={index} style={styles.numberBlock}>{block}</Text>
+          ))}
+        </View>
+
+        <Text style={styles.description}>
+          Para confirmar a criptografia de ponta a ponta com {contactName}, compare os números acima com os do
+          aparelho dele ou leia o código QR exibido na tela dele.
+        </Text>
+
+        <TouchableOpacity style={styles.primaryButton} onPress={handleStartScan}>
+          <MaterialIcons name="qr-code-scanner" size={20} color={Colors.text} />
+          <Text style={styles.primaryButtonText}>Ler código</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.secondaryButton} onPress={handleToggleVerified}>
+          <Text style={styles.secondaryButtonText}>
+            {record?.verified ? 'Remover verificação' : 'Marcar como verificado'}
+          </Text>
+        </TouchableOpacity>
+      </ScrollView>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <MaterialIcons name="close" size={24} color={Colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Verificar Número de Segurança</Text>
+          <View style={styles.placeholder} />
+        </View>
+
+        {renderContent()}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    color: Colors.text,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 32,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyText: {
+    color: Colors.textSecondary,
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  content: {
+    alignItems: 'center',
+    padding: 20,
+  },
+  warningBox: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: Colors.surfaceVariant,
+    borderColor: Colors.warning,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 20,
+  },
+  warningText: {
+    flex: 1,
+    color: Colors.text,
+    fontSize: 14,
+    lineHeight: 20,
+    marginLeft: 10,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  statusText: {
+    color: Colors.textMuted,
+    fontSize: 15,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  statusTextVerified: {
+    color: Colors.success,
+  },
+  qrContainer: {
+    padding: 16,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    marginBottom: 24,
+  },
+  numberGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    width: 280,
+    marginBottom: 20,
+  },
+  numberBlock: {
+    color: Colors.text,
+    fontSize: 20,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    width: 70,
+    textAlign: 'center',
+    marginVertical: 6,
+  },
+  description: {
+    color: Colors.textSecondary,
+    fontSize: 14,
+    lineHeight: 20,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.primary,
+    borderRadius: 24,
+    paddingVertical: 14,
+    alignSelf: 'stretch',
+    marginBottom: 12,
+  },
+  primaryButtonText: {
+    color: Colors.text,
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    alignSelf: 'stretch',
+  },
+  secondaryButtonText: {
+    color: Colors.primary,
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  scannerContainer: {
+    flex: 1,
+    padding: 20,
+  },
+  scanner: {
+    flex: 1,
+    borderRadius: 12,
+    overflow: 'hidden',
+    marginBottom: 12,
+  },
+});
@@ -0,0 +1,204 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  GestureResponderEvent,
+  LayoutChangeEvent,
+} from 'react-native';
+import { MaterialIcons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { voiceNoteService, VoiceNotePlayback } from '@/services/voice-notes';
+import { autoDownloadService } from '@/services/auto-download';
+import { fileService } from '@/services/file-sharing';
+import { Message } from '@/services/types';
+import { useMediaPreview } from '@/hooks/useMediaPreview';
+
+interface VoiceNotePlayerProps {
+  message: Message;
+  isMyMessage: boolean;
+  pendingDownload?: boolean; // fora da política de download automático: baixa ao tocar
+}
+
+// Sem forma de onda (gravação antiga ou prévia cifrada ainda não aberta): barras neutras do mesmo tamanho
+const PLACEHOLDER_WAVEFORM = Array.from({ length: 32 }, (_, i) => 0.25 + 0.15 * Math.sin(i * 0.9));
+const BAR_MIN_HEIGHT = 3;
+const BAR_MAX_HEIGHT = 24;
+
+const formatDuration = (millis: number) => {
+  const totalSeconds = Math.floor(millis / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export default function VoiceNotePlayer({ message, isMyMessage, pendingDownload = false }: VoiceNotePlayerProps) {
+  const [playback, setPlayback] = useState<VoiceNotePlayback>(voiceNoteService.getPlayback());
+  const [waveformWidth, setWaveformWidth] = useState(0);
+  const [scrubPosition, setScrubPosition] = useState<number | null>(null);
+  const preview = useMediaPreview(message);
+
+  useEffect(() => {
+    return voiceNoteService.subscribe(setPlayback);
+  }, []);
+
+  const isCurrent = playback.messageId === message.id;
+  const isPlaying = isCurrent && playback.isPlaying;
+  const isLoading = isCurrent && playback.isLoading;
+  const duration = (isCurrent && playback.duration) || message.media_metadata?.duration || 0;
+  const position = scrubPosition ?? voiceNoteService.getPosition(message.id);
+  const progress = duration > 0 ? Math.min(position / duration, 1) : 0;
+  const isUnplayed = !isMyMessage && !isCurrent && !voiceNoteService.isPlayed(message.id);
+  const showDownload = pendingDownload && !isCurrent;
+  const sizeLabel = message.media_metadata?.size ? fileService.formatFileSize(message.media_metadata.size) : null;
+
+  const handlePress = () => {
+    if (message.media_url) autoDownloadService.markDownloaded(message.media_url);
+    voiceNoteService.toggle(message);
+  };
+
+  const waveform = preview.waveform?.length ? preview.waveform : PLACEHOLDER_WAVEFORM;
+
+  const positionAt = (event: GestureResponderEvent) => {
+    const ratio = Math.min(Math.max(event.nativeEvent.locationX / waveformWidth, 0), 1);
+    return Math.round(ratio * duration);
+  };
+
+  const handleScrubMove = (event: GestureResponderEvent) => {
+    if (duration > 0 && waveformWidth > 0) {
+      setScrubPosition(positionAt(event));
+    }
+  };
+
+  const handleScrubEnd = (event: GestureResponderEvent) => {
+    if (duration > 0 && waveformWidth > 0) {
+      voiceNoteService.seek(message.id, positionAt(event));
+    }
+    setScrubPosition(null);
+  };
+
+  const playedColor = isMyMessage ? Colors.text : Colors.primary;
+  const pendingColor = isMyMessage ? 'rgba(255, 255, 255, 0.4)' : Colors.textMuted;
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity onPress={handlePress} style={styles.playButton}>
+        {isLoading ? (
+          <ActivityIndicator color={Colors.text} size="small" />
+        ) : (
+          <MaterialIcons
+            name={showDownload ? 'file-download' : isPlaying ? 'pause' : 'play-arrow'}
+            size={28}
+            color={Colors.text}
+          />
+        )}
+      </TouchableOpacity>
+
+      <View style={styles.body}>
+        <View
+          style={styles.waveform}
+          onLayout={(event: LayoutChangeEvent) => setWaveformWidth(event.nativeEvent.layout.width)}
+          onStartShouldSetResponder={() => true}
+          onMoveShouldSetResponder={() => true}
+          onResponderTerminationRequest={() => false}
+          onResponderGrant={handleScrubMove}
+          onResponderMove={handleScrubMove}
+          onResponderRelease={handleScrubEnd}
+        >
+          {waveform.map((level, index) => (
+            <View
+              key={index}
+              pointerEvents="none"
+              style={[
+                styles.bar,
+                {
+                  height: BAR_MIN_HEIGHT + level * (BAR_MAX_HEIGHT - BAR_MIN_HEIGHT),
+                  backgroundColor: index / waveform.length < progress ? playedColor : pendingColor,
+                },
+              ]}
+            />
+          ))}
+        </View>
+
+        <View style={styles.footer}>
+          <Text style={[styles.time, isMyMessage && styles.myTime]}>
+            {formatDuration(isCurrent || position > 0 ? position : duration)}
+            {showDownload && sizeLabel ? ` • ${sizeLabel}` : ''}
+          </Text>
+          {isUnplayed && <View style={styles.unplayedDot} />}
+          <View style={styles.spacer} />
+          {isCurrent && (
+            <TouchableOpacity onPress={() => voiceNoteService.cycleRate()} style={styles.rateButton}>
+              <Text style={styles.rateText}>{playback.rate}x</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: 240,
+    paddingVertical: 4,
+  },
+  playButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 8,
+  },
+  body: {
+    flex: 1,
+  },
+  waveform: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    height: BAR_MAX_HEIGHT + 4,
+  },
+  bar: {
+    width: 2,
+    borderRadius: 1,
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 2,
+  },
+  time: {
+    color: Colors.textSecondary,
+    fontSize: 12,
+  },
+  myTime: {
+    color: Colors.text,
+  },
+  unplayedDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: Colors.primary,
+    marginLeft: 6,
+  },
+  spacer: {
+    flex: 1,
+  },
+  rateButton: {
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  rateText: {
+    color: Colors.text,
+    fontSize: 11,
+    fontWeight: '600',
+  },
+});
@@ -1,8 +1,13 @@
-import React, { createContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { Alert, Platform } from 'react-native';
 import { User } from '@supabase/supabase-js';
 import { authService } from '@/services/endpoints/auth';
 import { chatService } from '@/services/endpoints/chat';
 import { presenceService } from '@/services/presence';
+import { callService } from '@/services/calls';
+import { outboxService } from '@/services/outbox';
+import { AnvicCrypto } from '@/services/encryption';
+import { deviceService } from '@/services/devices';
 import { UserProfile } from '@/services/types';
 
 interface AuthContextType {
@@ -22,15 +27,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
+  const deviceSubscriptionRef = useRef<any>(null);
+  // A assinatura de autenticação é criada uma vez; pelo ref ela chama sempre a versão atual
+  const loadUserProfileRef = useRef<(userId: string) => Promise<void>>(async () => {});
 
   useEffect(() => {
     // Get initial session
     authService.getSession().then(({ data: { session } }) => {
       setUser(session?.user ?? null);
       if (session?.user) {
-        loadUserProfile(session.user.id);
+        loadUserProfileRef.current(session.user.id);
         // Initialize presence service
         presenceService.initialize(session.user.id, true);
+        callService.initialize(session.user.id);
+        outboxService.initialize(session.user.id);
       } else {
         setLoading(false);
       }
@@ -41,13 +51,19 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setUser(session?.user ?? null);
       
       if (session?.user) {
-        await loadUserProfile(session.user.id);
+        await loadUserProfileRef.current(session.user.id);
         // Initialize presence service
         await presenceService.initialize(session.user.id, true);
+        callService.initialize(session.user.id);
+        outboxService.initialize(session.user.id);
       } else {
         setProfile(null);
         // Cleanup presence service
         presenceService.cleanup();
+        callService.cleanup();
+        outboxService.cleanup();
+        deviceSubscriptionRef.current?.unsubscribe();
+        deviceSubscriptionRef.current = null;
         setLoading(false);
       }
     });
@@ -61,12 +77,54 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       if (!error && data) {
         setProfile(data);
       }
+
+      prepareDevice(userId);
     } catch (error) {
       console.error('Error loading user profile:', error);
     } finally {
       setLoading(false);
     }
   };
+  loadUserProfileRef.current = loadUserProfile;
+
+  // Registra o aparelho; no primeiro aparelho da conta gera as chaves, nos demais aguarda a vinculação
+  const prepareDevice = async (userId: string) => {
+    try {
+      const { data: device } = await deviceService.registerDevice(userId);
+      if (device?.revoked_at) {
+        await handleDeviceRevoked(userId);
+        return;
+      }
+
+      if (!(await AnvicCrypto.needsDeviceLink(userId))) {
+        await AnvicCrypto.ensureIdentityKeys(userId);
+        await deviceService.markLinked();
+      }
+
+      deviceSubscriptionRef.current?.unsubscribe();
+      deviceSubscriptionRef.current = await deviceService.subscribeToDevice(updated => {
+        if (updated.revoked_at) {
+          handleDeviceRevoked(userId);
+        }
+      });
+    } catch (error) {
+      console.error('Error preparing device:', error);
+    }
+  };
+
+  const handleDeviceRevoked = async (userId: string) => {
+    deviceSubscriptionRef.current?.unsubscribe();
+    deviceSubscriptionRef.current = null;
+    await deviceService.forgetDevice(userId);
+    await signOut();
+
+    const message = 'Este aparelho foi desconectado da sua conta por outro aparelho.';
+    if (Platform.OS === 'web') {
+      console.log(`Aparelho desconectado: ${message}`);
+    } else {
+      Alert.alert('Aparelho desconectado', message);
+    }
+  };
 
   const signIn = async (email: string, password: string) => {
     setLoading(true);
@@ -95,6 +153,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setLoading(true);
     // Cleanup presence service first
     presenceService.cleanup();
+    await callService.cleanup();
+    outboxService.cleanup();
+    await deviceService.clearPushToken();
     await authService.signOut();
     setUser(null);
     setProfile(null);
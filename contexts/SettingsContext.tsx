@@ -1,5 +1,6 @@
 import React, { createContext, useState, useEffect, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AutoDownloadSettings } from '@/services/types';
 
 export interface AppSettings {
   // Presença
@@ -18,9 +19,13 @@ export interface AppSettings {
   // Modo privado
   sexyModeEnabled: boolean;
   
+  // Privacidade
+  sendReadReceipts: boolean;
+  
   // Performance
   animationsEnabled: boolean;
   highQualityImages: boolean;
+  autoDownload: AutoDownloadSettings;
 }
 
 const defaultSettings: AppSettings = {
@@ -32,14 +37,21 @@ const defaultSettings: AppSettings = {
   chatWallpaper: null,
   chatBubbleStyle: 'default',
   sexyModeEnabled: false,
+  sendReadReceipts: true,
   animationsEnabled: true,
   highQualityImages: true,
+  autoDownload: {
+    wifi: ['image', 'audio', 'video', 'file'],
+    cellular: ['image', 'audio'],
+    roaming: [],
+  },
 };
 
 interface SettingsContextType {
   settings: AppSettings;
   updateSettings: (newSettings: Partial<AppSettings>) => Promise<void>;
   resetSettings: () => Promise<void>;
+  reloadSettings: () => Promise<void>;
   loading: boolean;
 }
 
@@ -87,7 +99,7 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
   };
 
   return (
-    <SettingsContext.Provider value={{ settings, updateSettings, resetSettings, loading }}>
+    <SettingsContext.Provider value={{ settings, updateSettings, resetSettings, reloadSettings: loadSettings, loading }}>
       {children}
     </SettingsContext.Provider>
   );
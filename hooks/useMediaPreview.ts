@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { AnvicCrypto } from '@/services/encryption';
+import { mediaService } from '@/services/media';
+import { MediaPreview, Message } from '@/services/types';
+import { useAuth } from './useAuth';
+
+// Blurhash, forma de onda e rótulo prontos para desenhar; os cifrados chegam depois de abrir o envelope
+export function useMediaPreview(message: Message): MediaPreview {
+  const { user } = useAuth();
+  // O que não está cifrado já aparece no primeiro desenho
+  const [preview, setPreview] = useState<MediaPreview>(() => ({
+    blurhash: message.media_metadata?.blurhash,
+    waveform: message.media_metadata?.waveform,
+    label: AnvicCrypto.parseEnvelope(message.content) ? null : message.content,
+  }));
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    mediaService.openPreview(message, user.id).then(opened => {
+      if (!cancelled) setPreview(opened);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [message, user]);
+
+  return preview;
+}
@@ -0,0 +1,267 @@
+import type { MediaStream, RTCPeerConnection } from 'react-native-webrtc';
+import { CallPlatform, IncomingCallPush } from '../call-platform';
+import { IceCandidatePayload, LocalSignaling, SealedSignal, SealedSignaling, SignalCrypto } from '../call-signaling';
+import { CallService } from '../calls';
+import { callHistoryService } from '../endpoints/calls';
+
+let mockCallSeq = 0;
+jest.mock('expo-crypto', () => ({ randomUUID: () => `call-${++mockCallSeq}` }));
+jest.mock('../supabase', () => ({ supabase: {} }));
+jest.mock('../call-platform', () => ({ nativeCallPlatform: {} }));
+jest.mock('../encryption', () => ({ AnvicCrypto: {} }));
+jest.mock('../endpoints/chat', () => ({
+  chatService: { getUserProfile: jest.fn().mockResolvedValue({ data: null, error: null }) },
+}));
+jest.mock('../endpoints/calls', () => ({
+  MISSED_OUTCOMES: ['missed', 'busy'],
+  callHistoryService: {
+    recordCall: jest.fn().mockResolvedValue({ error: null }),
+    notifyIncomingCall: jest.fn().mockResolvedValue({ error: null }),
+  },
+}));
+
+type Description = { type: string; sdp: string };
+
+// Conexão em memória: conecta quando tem as duas descrições e ao menos um candidato do outro lado
+class FakePeerConnection {
+  localDescription: Description | null = null;
+  remoteDescription: Description | null = null;
+  connectionState = 'new';
+  remoteCandidates: IceCandidatePayload[] = [];
+  onicecandidate: ((event: { candidate: IceCandidatePayload | null }) => void) | null = null;
+  ontrack: ((event: { streams: MediaStream[] }) => void) | null = null;
+  onconnectionstatechange: (() => void) | null = null;
+
+  constructor(private label: string) {}
+
+  addTrack(): void {}
+
+  async createOffer(): Promise<Description> {
+    return { type: 'offer', sdp: `offer-${this.label}` };
+  }
+
+  async createAnswer(): Promise<Description> {
+    return { type: 'answer', sdp: `answer-${this.label}` };
+  }
+
+  async setLocalDescription(description: Description): Promise<void> {
+    this.localDescription = description;
+    // Candidatos saem depois da descrição local, como no WebRTC de verdade
+    setTimeout(() => {
+      this.onicecandidate?.({ candidate: { candidate: `candidate:${this.label}`, sdpMid: '0', sdpMLineIndex: 0 } });
+      this.onicecandidate?.({ candidate: null });
+    }, 0);
+    this.checkConnected();
+  }
+
+  async setRemoteDescription(description: Description): Promise<void> {
+    this.remoteDescription = description;
+    this.checkConnected();
+  }
+
+  async addIceCandidate(candidate: IceCandidatePayload): Promise<void> {
+    this.remoteCandidates.push(candidate);
+    this.checkConnected();
+  }
+
+  close(): void {
+    this.connectionState = 'closed';
+  }
+
+  private checkConnected(): void {
+    if (this.connectionState !== 'new') return;
+    if (!this.localDescription || !this.remoteDescription || this.remoteCandidates.length === 0) return;
+    this.connectionState = 'connected';
+    this.onconnectionstatechange?.();
+  }
+}
+
+const fakeStream = {
+  getTracks: () => [],
+  getAudioTracks: () => [],
+  getVideoTracks: () => [],
+  release: () => {},
+} as unknown as MediaStream;
+
+const createPlatform = (label: string) => {
+  const peers: FakePeerConnection[] = [];
+  // Simula o toque no push de chamada
+  const openedCall: { listener: ((push: IncomingCallPush) => void) | null } = { listener: null };
+  const platform: CallPlatform = {
+    requestPermissions: jest.fn().mockResolvedValue(undefined),
+    getUserMedia: jest.fn().mockResolvedValue(fakeStream),
+    createPeerConnection: () => {
+      const peer = new FakePeerConnection(label);
+      peers.push(peer);
+      return peer as unknown as RTCPeerConnection;
+    },
+    audio: {
+      start: jest.fn(),
+      stop: jest.fn(),
+      startRingtone: jest.fn(),
+      stopRingtone: jest.fn(),
+      stopRingback: jest.fn(),
+      setSpeakerOn: jest.fn(),
+    },
+    notifications: {
+      show: jest.fn().mockResolvedValue(undefined),
+      dismiss: jest.fn().mockResolvedValue(undefined),
+      onCallOpened: listener => {
+        openedCall.listener = listener;
+        return () => {
+          openedCall.listener = null;
+        };
+      },
+    },
+  };
+  return { platform, peers, openedCall };
+};
+
+// Deixa a sinalização (entregue com setTimeout) e as promessas encadeadas terminarem
+const settle = async () => {
+  for (let i = 0; i < 20; i++) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+};
+
+describe('CallService', () => {
+  let signaling: LocalSignaling;
+  let alice: CallService;
+  let bob: CallService;
+  let alicePeers: FakePeerConnection[];
+  let bobPeers: FakePeerConnection[];
+  let bobOpenedCall: ReturnType<typeof createPlatform>['openedCall'];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    signaling = new LocalSignaling();
+    const alicePlatform = createPlatform('alice');
+    const bobPlatform = createPlatform('bob');
+    alicePeers = alicePlatform.peers;
+    bobPeers = bobPlatform.peers;
+    bobOpenedCall = bobPlatform.openedCall;
+    alice = new CallService(signaling, alicePlatform.platform);
+    bob = new CallService(signaling, bobPlatform.platform);
+    alice.initialize('alice');
+    bob.initialize('bob');
+  });
+
+  afterEach(async () => {
+    await alice.cleanup();
+    await bob.cleanup();
+  });
+
+  it('negocia oferta, resposta e ICE até os dois lados ficarem ativos', async () => {
+    const session = await alice.startVoiceCall('bob', 'Bob');
+    await settle();
+
+    expect(bob.getActiveCall()).toMatchObject({ id: session.id, direction: 'incoming', status: 'calling' });
+
+    await bob.acceptCall(session.id);
+    await settle();
+
+    expect(alice.getActiveCall()?.status).toBe('active');
+    expect(bob.getActiveCall()?.status).toBe('active');
+    expect(bobPeers[0].remoteDescription).toEqual({ type: 'offer', sdp: 'offer-alice' });
+    expect(alicePeers[0].remoteDescription).toEqual({ type: 'answer', sdp: 'answer-bob' });
+    expect(alicePeers[0].remoteCandidates.map(c => c.candidate)).toEqual(['candidate:bob']);
+    expect(bobPeers[0].remoteCandidates.map(c => c.candidate)).toEqual(['candidate:alice']);
+
+    const sent = signaling.getSentMessages().map(({ to, message }) => `${message.from}->${to}:${message.type}`);
+    expect(sent).toEqual([
+      'alice->bob:offer',
+      'alice->bob:ice-candidate',
+      'bob->alice:answer',
+      'bob->alice:ice-candidate',
+    ]);
+
+    await alice.endCall(session.id);
+    await settle();
+
+    expect(alice.getActiveCall()).toBeNull();
+    expect(bob.getActiveCall()).toBeNull();
+    expect(callHistoryService.recordCall).toHaveBeenCalledTimes(1);
+    expect(callHistoryService.recordCall).toHaveBeenCalledWith(
+      expect.objectContaining({ id: session.id, caller_id: 'alice', callee_id: 'bob', outcome: 'answered' })
+    );
+  });
+
+  it('descarta sinalização sem assinatura válida de quem diz ter enviado', async () => {
+    // Criptografia de mentira: só quem "tem a chave" de um usuário assina em nome dele, e só o par
+    // remetente/destinatário abre o que foi cifrado entre os dois
+    const pair = (a: string, b: string) => [a, b].sort().join('+');
+    const crypto: SignalCrypto = {
+      signData: async (userId, data) => `${userId}:${data}`,
+      verifyData: async (senderId, data, signature) => signature === `${senderId}:${data}`,
+      sealData: async (userId, recipientId, data, associatedData) => JSON.stringify([pair(userId, recipientId), associatedData, data]),
+      openData: async (userId, senderId, sealed, associatedData) => {
+        const [key, sealedData, data] = JSON.parse(sealed);
+        if (key !== pair(userId, senderId) || sealedData !== associatedData) throw new Error('ilegível');
+        return data;
+      },
+    };
+    const transport = new LocalSignaling<SealedSignal>();
+    const received: string[] = [];
+    new SealedSignaling(transport, crypto).listen('bob', message => received.push(`${message.from}:${message.callId}`));
+
+    await new SealedSignaling(transport, crypto).send('bob', { type: 'hangup', callId: 'call-a', from: 'alice', reason: 'ended' });
+    const forwarded = transport.getSentMessages()[0].message;
+    // Sem assinatura, assinada por outra pessoa ou endereçada a outro destinatário
+    await transport.send('bob', { ...forwarded, signature: '' });
+    await transport.send('bob', { ...forwarded, signature: 'mallory:forjada' });
+    await transport.send('bob', { ...forwarded, to: 'carol' });
+    // Assinada de verdade por mallory, mas com a mensagem dizendo vir de alice
+    await new SealedSignaling(transport, crypto).send('bob', { type: 'hangup', callId: 'call-b', from: 'mallory', reason: 'ended' });
+    const mallory = transport.getSentMessages()[4].message;
+    const header = { from: 'mallory', to: 'bob', sentAt: mallory.sentAt };
+    const sealed = await crypto.sealData(
+      'mallory',
+      'bob',
+      JSON.stringify({ type: 'hangup', callId: 'call-c', from: 'alice', reason: 'ended' }),
+      JSON.stringify({ from: 'mallory', sentAt: mallory.sentAt, to: 'bob' })
+    );
+    await transport.send('bob', {
+      ...header,
+      sealed,
+      signature: await crypto.signData('mallory', JSON.stringify({ from: 'mallory', sealed, sentAt: mallory.sentAt, to: 'bob' })),
+    });
+    await settle();
+
+    expect(received).toEqual(['alice:call-a', 'mallory:call-b']);
+  });
+
+  it('entrega a chamada a quem abre o app fechado pelo push', async () => {
+    // App fechado: ninguém escutando a sinalização quando a oferta sai
+    await bob.cleanup();
+    const session = await alice.startVideoCall('bob', 'Bob');
+    await settle();
+
+    expect(callHistoryService.notifyIncomingCall).toHaveBeenCalledWith(session.id, 'bob', 'video', 'alice');
+    expect(bob.getActiveCall()).toBeNull();
+
+    bob.initialize('bob');
+    bobOpenedCall.listener?.({ callId: session.id, callerId: 'alice', callType: 'video' });
+    await settle();
+
+    expect(bob.getActiveCall()).toMatchObject({ id: session.id, direction: 'incoming', type: 'video' });
+
+    await bob.acceptCall(session.id);
+    await settle();
+
+    expect(alice.getActiveCall()?.status).toBe('active');
+    expect(bob.getActiveCall()?.status).toBe('active');
+    expect(bobPeers[0].remoteCandidates.map(c => c.candidate)).toEqual(['candidate:alice']);
+  });
+
+  it('registra a chamada recusada por quem recebeu', async () => {
+    const session = await alice.startVoiceCall('bob', 'Bob');
+    await settle();
+
+    await bob.endCall(session.id);
+    await settle();
+
+    expect(alice.getActiveCall()).toBeNull();
+    expect(alice.getState().endedCall?.endReason).toBe('declined');
+    expect(callHistoryService.recordCall).toHaveBeenCalledWith(expect.objectContaining({ outcome: 'declined' }));
+  });
+});
@@ -0,0 +1,110 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, { NetInfoState, NetInfoStateType } from '@react-native-community/netinfo';
+import { AutoDownloadMediaType, AutoDownloadNetwork, AutoDownloadSettings, Message } from './types';
+
+type NetworkListener = (network: AutoDownloadNetwork | null) => void;
+
+// Decide se a mídia recebida baixa sozinha conforme a rede atual e as configurações
+class AutoDownloadService {
+  private static readonly HOME_CARRIER_KEY = 'anvic_home_carrier';
+
+  private network: AutoDownloadNetwork | null = null;
+  private homeCarrier: string | null = null;
+  private listeners: Set<NetworkListener> = new Set();
+  // Mídias já baixadas (ou liberadas com toque) nesta sessão não voltam ao placeholder
+  private downloaded: Set<string> = new Set();
+  private ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.loadHomeCarrier();
+    NetInfo.addEventListener(this.handleNetworkChange);
+  }
+
+  getNetwork(): AutoDownloadNetwork | null {
+    return this.network;
+  }
+
+  subscribe(listener: NetworkListener): () => void {
+    this.listeners.add(listener);
+    listener(this.network);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  mediaTypeOf(message: Message): AutoDownloadMediaType | null {
+    switch (message.message_type) {
+      case 'image':
+      case 'audio':
+      case 'video':
+      case 'file':
+        return message.message_type;
+      default:
+        return null;
+    }
+  }
+
+  shouldAutoDownload(
+    message: Message,
+    settings: AutoDownloadSettings,
+    network: AutoDownloadNetwork | null = this.network
+  ): boolean {
+    if (!message.media_url) return false;
+    if (this.downloaded.has(message.media_url)) return true;
+
+    const type = this.mediaTypeOf(message);
+    if (!type || !network) return false;
+    return settings[network].includes(type);
+  }
+
+  markDownloaded(path: string): void {
+    this.downloaded.add(path);
+  }
+
+  // O NetInfo não informa roaming: comparamos a operadora atual com a primeira vista em dados móveis
+  private handleNetworkChange = async (state: NetInfoState): Promise<void> => {
+    await this.ready;
+
+    let network: AutoDownloadNetwork | null = null;
+    if (state.isConnected) {
+      if (state.type === NetInfoStateType.wifi || state.type === NetInfoStateType.ethernet) {
+        network = 'wifi';
+      } else if (state.type === NetInfoStateType.cellular) {
+        network = (await this.isRoaming(state.details.carrier)) ? 'roaming' : 'cellular';
+      } else {
+        // Tipo desconhecido: tratar como dados móveis para não gastar franquia sem querer
+        network = 'cellular';
+      }
+    }
+
+    if (network === this.network) return;
+    this.network = network;
+    this.listeners.forEach(listener => listener(network));
+  };
+
+  private async isRoaming(carrier: string | null): Promise<boolean> {
+    if (!carrier) return false;
+
+    if (!this.homeCarrier) {
+      this.homeCarrier = carrier;
+      try {
+        await AsyncStorage.setItem(AutoDownloadService.HOME_CARRIER_KEY, carrier);
+      } catch (error) {
+        console.error('Erro ao salvar operadora:', error);
+      }
+      return false;
+    }
+
+    return carrier !== this.homeCarrier;
+  }
+
+  private async loadHomeCarrier(): Promise<void> {
+    try {
+      this.homeCarrier = await AsyncStorage.getItem(AutoDownloadService.HOME_CARRIER_KEY);
+    } catch (error) {
+      console.error('Erro ao carregar operadora:', error);
+    }
+  }
+}
+
+export const autoDownloadService = new AutoDownloadService();
@@ -0,0 +1,235 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { AnvicCrypto, ExportedIdentity, PassphraseSealed } from './encryption';
+import { chatService } from './endpoints/chat';
+import { deviceService } from './devices';
+
+export const BACKUP_SCHEMA_VERSION = 1;
+
+export interface BackupManifest {
+  format: 'anvic-backup';
+  schemaVersion: number;
+  appVersion: string;
+  userId: string;
+  createdAt: string;
+  sections: { [section: string]: number }; // itens por seção, para exibir antes de pedir a senha
+  checksum: string; // sha256 do conteúdo cifrado
+  kdf: PassphraseSealed['kdf'];
+  nonce: string;
+}
+
+interface BackupArchive {
+  manifest: BackupManifest;
+  payload: string; // conteúdo cifrado (base64)
+}
+
+interface BackupPayload {
+  storage: { [key: string]: string | null };
+  identity: ExportedIdentity | null;
+}
+
+export interface RestoreResult {
+  sections: string[];
+  identityRestored: boolean;
+}
+
+// Históricos e preferências que só existem neste aparelho
+const STORAGE_SECTIONS: { [section: string]: (userId: string) => string } = {
+  settings: () => '@anvic_settings',
+  favorites: () => 'anvic_favorite_messages',
+  scheduled: () => 'anvic_scheduled_messages',
+  outbox: () => 'anvic_outbox',
+  calls: () => 'anvic_calls_history',
+  games: () => 'anvic_games_history',
+  contactKeys: userId => `anvic_contact_keys_${userId}`,
+};
+
+class BackupService {
+  private static readonly APP_VERSION = '1.0.0';
+  private static readonly RESTORE_OFFERED_KEY = 'anvic_restore_offered';
+
+  // Gera o arquivo cifrado com a senha e abre o menu de compartilhamento
+  async createBackup(userId: string, passphrase: string): Promise<string> {
+    const storage: BackupPayload['storage'] = {};
+    const sections: BackupManifest['sections'] = {};
+
+    for (const [section, keyFor] of Object.entries(STORAGE_SECTIONS)) {
+      const value = await AsyncStorage.getItem(keyFor(userId));
+      storage[section] = value;
+      sections[section] = this.countItems(value);
+    }
+
+    // O histórico fica no servidor; as chaves de identidade são o que permite lê-lo em outro aparelho
+    const identity = await AnvicCrypto.exportIdentityKeys(userId).catch(() => null);
+    sections.identity = identity ? 1 : 0;
+
+    const createdAt = new Date().toISOString();
+    const header = {
+      format: 'anvic-backup' as const,
+      schemaVersion: BACKUP_SCHEMA_VERSION,
+      appVersion: BackupService.APP_VERSION,
+      userId,
+      createdAt,
+      sections,
+    };
+
+    const payload: BackupPayload = { storage, identity };
+    const sealed = await AnvicCrypto.encryptWithPassphrase(
+      JSON.stringify(payload),
+      passphrase,
+      this.associatedData(header)
+    );
+
+    const archive: BackupArchive = {
+      manifest: {
+        ...header,
+        checksum: await AnvicCrypto.generateSecureHash(sealed.ciphertext),
+        kdf: sealed.kdf,
+        nonce: sealed.nonce,
+      },
+      payload: sealed.ciphertext,
+    };
+
+    const fileUri = `${FileSystem.cacheDirectory}anvic-backup-${createdAt.substring(0, 10)}.anvicbackup`;
+    await FileSystem.writeAsStringAsync(fileUri, JSON.stringify(archive));
+
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(fileUri, {
+        mimeType: 'application/json',
+        dialogTitle: 'Salvar backup do Anvic',
+      });
+    }
+
+    return fileUri;
+  }
+
+  // Escolher o arquivo e validar o manifesto antes de pedir a senha
+  async pickBackup(): Promise<{ uri: string; manifest: BackupManifest } | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: '*/*',
+      copyToCacheDirectory: true,
+    });
+
+    if (result.canceled || !result.assets[0]) return null;
+
+    const uri = result.assets[0].uri;
+    const archive = await this.readArchive(uri);
+    return { uri, manifest: archive.manifest };
+  }
+
+  async restoreBackup(uri: string, userId: string, passphrase: string): Promise<RestoreResult> {
+    const archive = await this.readArchive(uri);
+    const { manifest } = archive;
+
+    if (manifest.userId !== userId) {
+      throw new Error('Este backup pertence a outra conta');
+    }
+
+    let payload: BackupPayload;
+    try {
+      const { checksum, kdf, nonce, ...header } = manifest;
+      const plaintext = await AnvicCrypto.decryptWithPassphrase(
+        { kdf, nonce, ciphertext: archive.payload },
+        passphrase,
+        this.associatedData(header)
+      );
+      payload = JSON.parse(plaintext);
+    } catch {
+      throw new Error('Senha incorreta');
+    }
+
+    const restored: string[] = [];
+    for (const [section, keyFor] of Object.entries(STORAGE_SECTIONS)) {
+      const value = payload.storage[section];
+      if (value === null || value === undefined) continue;
+
+      await AsyncStorage.setItem(keyFor(userId), value);
+      restored.push(section);
+    }
+
+    const identityRestored = payload.identity ? await this.restoreIdentity(userId, payload.identity) : false;
+    await this.markRestoreOffered(userId);
+
+    return { sections: restored, identityRestored };
+  }
+
+  // Oferecer a restauração só no primeiro login da conta num aparelho sem dados locais
+  async shouldOfferRestore(userId: string): Promise<boolean> {
+    const offered = await AsyncStorage.getItem(`${BackupService.RESTORE_OFFERED_KEY}_${userId}`);
+    if (offered) return false;
+
+    const localData = await Promise.all(
+      ['favorites', 'scheduled', 'calls', 'contactKeys'].map(section =>
+        AsyncStorage.getItem(STORAGE_SECTIONS[section](userId))
+      )
+    );
+    return localData.every(value => this.countItems(value) === 0);
+  }
+
+  async markRestoreOffered(userId: string): Promise<void> {
+    await AsyncStorage.setItem(`${BackupService.RESTORE_OFFERED_KEY}_${userId}`, new Date().toISOString());
+  }
+
+  private async readArchive(uri: string): Promise<BackupArchive> {
+    let archive: BackupArchive;
+    try {
+      archive = JSON.parse(await FileSystem.readAsStringAsync(uri));
+    } catch {
+      throw new Error('Arquivo de backup inválido');
+    }
+
+    const { manifest } = archive;
+    if (manifest?.format !== 'anvic-backup' || typeof archive.payload !== 'string') {
+      throw new Error('Arquivo de backup inválido');
+    }
+    if (manifest.schemaVersion > BACKUP_SCHEMA_VERSION) {
+      throw new Error('Backup criado por uma versão mais nova do Anvic. Atualize o app para restaurar');
+    }
+
+    // Detecta arquivo corrompido antes de gastar tempo derivando a chave da senha
+    const checksum = await AnvicCrypto.generateSecureHash(archive.payload);
+    if (checksum !== manifest.checksum) {
+      throw new Error('O arquivo de backup está corrompido');
+    }
+
+    return archive;
+  }
+
+  // Chaves antigas (a conta já foi recomeçada com outras) não podem sobrescrever as publicadas
+  private async restoreIdentity(userId: string, identity: ExportedIdentity): Promise<boolean> {
+    const { data: profile } = await chatService.getUserProfile(userId);
+    if (profile?.identity_key && profile.identity_key !== AnvicCrypto.identityPublicKey(identity)) {
+      return false;
+    }
+
+    await AnvicCrypto.importIdentityKeys(userId, identity);
+    await deviceService.markLinked();
+    return true;
+  }
+
+  // Manifesto entra como dado autenticado: alterar versão, conta ou seções invalida o arquivo
+  private associatedData(header: Omit<BackupManifest, 'checksum' | 'kdf' | 'nonce'>): string {
+    return JSON.stringify([
+      header.format,
+      header.schemaVersion,
+      header.appVersion,
+      header.userId,
+      header.createdAt,
+      header.sections,
+    ]);
+  }
+
+  private countItems(value: string | null): number {
+    if (!value) return 0;
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed.length : Object.keys(parsed).length;
+    } catch {
+      return 1;
+    }
+  }
+}
+
+export const backupService = new BackupService();
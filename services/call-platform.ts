@@ -0,0 +1,147 @@
+import { Camera } from 'expo-camera';
+import { Audio } from 'expo-av';
+import * as Notifications from 'expo-notifications';
+import { mediaDevices, MediaStream, RTCPeerConnection } from 'react-native-webrtc';
+import InCallManager from 'react-native-incall-manager';
+import { CallType } from './call-signaling';
+
+export interface IceServer {
+  urls: string;
+  username?: string;
+  credential?: string;
+}
+
+// Som e roteamento de áudio do aparelho durante a chamada
+export interface CallAudio {
+  start(type: CallType, ringback: boolean): void;
+  stop(busytone: boolean): void;
+  startRingtone(timeoutMs: number): void;
+  stopRingtone(): void;
+  stopRingback(): void;
+  setSpeakerOn(speakerOn: boolean): void;
+}
+
+// Dados do push de chamada recebida, enviado pelo servidor a pedido de quem liga
+export interface IncomingCallPush {
+  callId: string;
+  callerId: string;
+  callType: CallType;
+}
+
+// Avisos locais de chamada recebida ou perdida
+export interface CallNotifications {
+  show(title: string, body: string, identifier?: string): Promise<void>;
+  dismiss(identifier: string): Promise<void>;
+  // Toque no push de chamada, inclusive o que abriu o app fechado; retorna a função para cancelar
+  onCallOpened(listener: (push: IncomingCallPush) => void): () => void;
+}
+
+const INCOMING_CALL_PUSH = 'incoming_call';
+
+const toIncomingCallPush = (response: Notifications.NotificationResponse | null): IncomingCallPush | null => {
+  const data = response?.notification.request.content.data;
+  if (data?.kind !== INCOMING_CALL_PUSH || typeof data.callId !== 'string' || typeof data.callerId !== 'string') {
+    return null;
+  }
+  return { callId: data.callId, callerId: data.callerId, callType: data.callType === 'video' ? 'video' : 'voice' };
+};
+
+// Tudo que CallService usa do aparelho além da sinalização; no app vem do WebRTC nativo,
+// em testes um substituto em memória negocia oferta, resposta e ICE sem câmera nem rede
+export interface CallPlatform {
+  requestPermissions(type: CallType): Promise<void>;
+  getUserMedia(type: CallType): Promise<MediaStream>;
+  createPeerConnection(iceServers: IceServer[]): RTCPeerConnection;
+  audio: CallAudio;
+  notifications: CallNotifications;
+}
+
+export const nativeCallPlatform: CallPlatform = {
+  async requestPermissions(type) {
+    const microphone = await Audio.requestPermissionsAsync();
+    if (microphone.status !== 'granted') {
+      throw new Error('Permissão de microfone necessária para chamadas');
+    }
+
+    if (type === 'video') {
+      const camera = await Camera.requestCameraPermissionsAsync();
+      if (camera.status !== 'granted') {
+        throw new Error('Permissão de câmera necessária para videochamada');
+      }
+    }
+  },
+
+  getUserMedia(type) {
+    return mediaDevices.getUserMedia({
+      audio: true,
+      video: type === 'video' ? { facingMode: 'user' } : false,
+    });
+  },
+
+  createPeerConnection(iceServers) {
+    return new RTCPeerConnection({ iceServers });
+  },
+
+  audio: {
+    start(type, ringback) {
+      InCallManager.start({ media: type === 'video' ? 'video' : 'audio', ringback: ringback ? '_DTMF_' : undefined });
+    },
+    stop(busytone) {
+      InCallManager.stop(busytone ? { busytone: '_DTMF_' } : undefined);
+    },
+    // No Android o padrão também vibra
+    startRingtone(timeoutMs) {
+      InCallManager.startRingtone('_DEFAULT_', [0, 1000, 1000], 'playback', timeoutMs / 1000);
+    },
+    stopRingtone() {
+      InCallManager.stopRingtone();
+    },
+    stopRingback() {
+      InCallManager.stopRingback();
+    },
+    setSpeakerOn(speakerOn) {
+      InCallManager.setForceSpeakerphoneOn(speakerOn);
+    },
+  },
+
+  notifications: {
+    async show(title, body, identifier) {
+      await Notifications.scheduleNotificationAsync({
+        content: { title, body },
+        trigger: null,
+        identifier,
+      });
+    },
+    // O aviso local usa o id da chamada; o push do servidor leva o id nos dados
+    async dismiss(identifier) {
+      await Notifications.dismissNotificationAsync(identifier);
+      const presented = await Notifications.getPresentedNotificationsAsync();
+      await Promise.all(
+        presented
+          .filter(notification => notification.request.content.data?.callId === identifier)
+          .map(notification => Notifications.dismissNotificationAsync(notification.request.identifier))
+      );
+    },
+    onCallOpened(listener) {
+      let active = true;
+
+      // App aberto a frio pelo push: a resposta chega antes de qualquer listener existir
+      Notifications.getLastNotificationResponseAsync().then(response => {
+        const push = toIncomingCallPush(response);
+        if (!active || !push) return;
+        Notifications.clearLastNotificationResponseAsync().catch(() => {});
+        listener(push);
+      });
+
+      const subscription = Notifications.addNotificationResponseReceivedListener(response => {
+        const push = toIncomingCallPush(response);
+        if (push) listener(push);
+      });
+
+      return () => {
+        active = false;
+        subscription.remove();
+      };
+    },
+  },
+};
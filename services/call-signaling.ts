@@ -0,0 +1,176 @@
+import { supabase } from './supabase';
+
+export type CallType = 'voice' | 'video';
+
+export interface IceCandidatePayload {
+  candidate: string;
+  sdpMid?: string | null;
+  sdpMLineIndex?: number | null;
+}
+
+// busy: o destinatário já estava em outra chamada; missed: ninguém atendeu a tempo
+// (ou quem ligou desistiu antes do atendimento)
+export type HangupReason = 'ended' | 'declined' | 'failed' | 'busy' | 'missed';
+
+// Mensagens trocadas entre os dois aparelhos para negociar a conexão WebRTC. offer-request vem de
+// quem abriu o app pelo push da chamada: a oferta original chegou quando ninguém estava escutando
+export type SignalMessage =
+  | { type: 'offer'; callId: string; from: string; callType: CallType; sdp: string }
+  | { type: 'offer-request'; callId: string; from: string }
+  | { type: 'answer'; callId: string; from: string; sdp: string }
+  | { type: 'ice-candidate'; callId: string; from: string; candidate: IceCandidatePayload }
+  | { type: 'hangup'; callId: string; from: string; reason: HangupReason };
+
+// O que passa pelo canal: só remetente, destinatário e horário ficam à mostra. A mensagem vai
+// cifrada para o destinatário (SDP e candidatos ICE levam endereços IP) e o conjunto vai assinado;
+// destinatário e horário assinados impedem reaproveitar a mensagem com outra pessoa ou repeti-la depois
+export interface SealedSignal {
+  from: string;
+  to: string;
+  sentAt: number;
+  sealed: string;
+  signature: string;
+}
+
+type SignalListener<T> = (message: T) => void;
+
+// Transporte da sinalização: cada usuário escuta as mensagens endereçadas a ele
+export interface SignalingTransport<T = SignalMessage> {
+  send(toUserId: string, message: T): Promise<void>;
+  listen(userId: string, onMessage: SignalListener<T>): () => void;
+}
+
+// Broadcast do Supabase Realtime em um canal por usuário; o canal é público, então só carrega
+// mensagens já cifradas pelo SealedSignaling
+export class SupabaseSignaling implements SignalingTransport<SealedSignal> {
+  async send(toUserId: string, message: SealedSignal): Promise<void> {
+    // Canal sem inscrição: o envio sai pela API REST do Realtime
+    const channel = supabase.channel(`calls_${toUserId}`);
+    try {
+      const result = await channel.send({ type: 'broadcast', event: 'signal', payload: message });
+      if (result !== 'ok') {
+        throw new Error(`Falha ao enviar sinalização (${result})`);
+      }
+    } finally {
+      supabase.removeChannel(channel);
+    }
+  }
+
+  listen(userId: string, onMessage: SignalListener<SealedSignal>): () => void {
+    const channel = supabase
+      .channel(`calls_${userId}`)
+      .on('broadcast', { event: 'signal' }, ({ payload }) => {
+        onMessage(payload as SealedSignal);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+}
+
+export interface SignalCrypto {
+  signData(userId: string, data: string): Promise<string>;
+  verifyData(senderId: string, data: string, signature: string): Promise<boolean>;
+  sealData(userId: string, recipientId: string, data: string, associatedData: string): Promise<string>;
+  openData(userId: string, senderId: string, sealed: string, associatedData: string): Promise<string>;
+}
+
+// JSON com chaves ordenadas: o Realtime não preserva a ordem dos campos no caminho
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+// O canal de sinalização aceita qualquer cliente; cada mensagem vai cifrada para o destinatário e
+// assinada com a chave de identidade de quem envia, e só é entregue se a assinatura do remetente
+// declarado em `from` conferir e a mensagem abrir com a chave entre os dois
+export class SealedSignaling implements SignalingTransport {
+  // Tolerância para relógios desencontrados entre os aparelhos
+  private static readonly MAX_AGE_MS = 2 * 60 * 1000;
+
+  constructor(private transport: SignalingTransport<SealedSignal>, private crypto: SignalCrypto) {}
+
+  async send(toUserId: string, message: SignalMessage): Promise<void> {
+    const header = { from: message.from, to: toUserId, sentAt: Date.now() };
+    const sealed = await this.crypto.sealData(message.from, toUserId, JSON.stringify(message), canonicalJson(header));
+    const signature = await this.crypto.signData(message.from, canonicalJson({ ...header, sealed }));
+    await this.transport.send(toUserId, { ...header, sealed, signature });
+  }
+
+  listen(userId: string, onMessage: SignalListener<SignalMessage>): () => void {
+    // A verificação é assíncrona; a fila mantém a ordem (oferta antes dos candidatos ICE)
+    let queue = Promise.resolve();
+
+    return this.transport.listen(userId, signal => {
+      queue = queue
+        .then(async () => {
+          const message = await this.open(userId, signal);
+          if (message) {
+            onMessage(message);
+          } else {
+            console.warn('Sinalização descartada: assinatura inválida, mensagem expirada ou ilegível');
+          }
+        })
+        .catch(error => console.error('Erro ao verificar sinalização:', error));
+    });
+  }
+
+  private async open(userId: string, signal: SealedSignal): Promise<SignalMessage | null> {
+    const { signature, ...signed } = signal;
+    if (!signature || typeof signal.sealed !== 'string' || signal.to !== userId || typeof signal.sentAt !== 'number') {
+      return null;
+    }
+    if (Math.abs(Date.now() - signal.sentAt) > SealedSignaling.MAX_AGE_MS) return null;
+    if (!(await this.crypto.verifyData(signal.from, canonicalJson(signed), signature))) return null;
+
+    try {
+      const header = { from: signal.from, to: signal.to, sentAt: signal.sentAt };
+      const message: SignalMessage = JSON.parse(
+        await this.crypto.openData(userId, signal.from, signal.sealed, canonicalJson(header))
+      );
+      // Quem assinou é quem aparece como remetente dentro da mensagem
+      return message.from === signal.from ? message : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Substituto em memória para testar chamadas sem servidor: duas instâncias de CallService
+// ligadas ao mesmo LocalSignaling conversam entre si no mesmo processo
+export class LocalSignaling<T = SignalMessage> implements SignalingTransport<T> {
+  private listeners: Map<string, Set<SignalListener<T>>> = new Map();
+  private sent: { to: string; message: T }[] = [];
+
+  async send(toUserId: string, message: T): Promise<void> {
+    this.sent.push({ to: toUserId, message });
+    const listeners = this.listeners.get(toUserId);
+    // Entrega assíncrona, como na rede
+    setTimeout(() => listeners?.forEach(listener => listener(message)), 0);
+  }
+
+  listen(userId: string, onMessage: SignalListener<T>): () => void {
+    const listeners = this.listeners.get(userId) || new Set<SignalListener<T>>();
+    listeners.add(onMessage);
+    this.listeners.set(userId, listeners);
+
+    return () => {
+      listeners.delete(onMessage);
+    };
+  }
+
+  // Mensagens enviadas até agora, na ordem, para conferir a negociação
+  getSentMessages(): { to: string; message: T }[] {
+    return this.sent;
+  }
+}
@@ -1,53 +1,133 @@
-import { Audio } from 'expo-av';
-import * as MediaLibrary from 'expo-media-library';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { AppState, Platform } from 'react-native';
+import type { MediaStream, RTCIceCandidate, RTCPeerConnection } from 'react-native-webrtc';
+import { CallPlatform, IceServer, IncomingCallPush, nativeCallPlatform } from './call-platform';
+import {
+  CallType,
+  HangupReason,
+  IceCandidatePayload,
+  SignalingTransport,
+  SignalMessage,
+  SealedSignaling,
+  SupabaseSignaling,
+} from './call-signaling';
+import { AnvicCrypto } from './encryption';
+import { chatService } from './endpoints/chat';
+import { callHistoryService, MISSED_OUTCOMES } from './endpoints/calls';
+import { CallOutcome, CallRecord } from './types';
 
 export interface CallSession {
   id: string;
   participants: string[];
-  type: 'voice' | 'video';
-  status: 'calling' | 'active' | 'ended';
+  peerId: string; // o outro lado da chamada
+  peerName?: string;
+  peerAvatar?: string;
+  direction: 'outgoing' | 'incoming';
+  type: CallType;
+  status: 'calling' | 'connecting' | 'active' | 'ended';
   startTime: string;
+  connectedAt?: string;
   endTime?: string;
   duration?: number;
+  endReason?: HangupReason;
 }
 
 export interface CallStats {
   totalCalls: number;
-  totalDuration: number;
-  averageDuration: number;
+  totalDuration: number; // segundos
+  averageDuration: number; // segundos, só entre as chamadas atendidas
   callsToday: number;
+  missedCalls: number; // recebidas e não atendidas
 }
 
-class CallService {
-  private static readonly CALLS_HISTORY_KEY = 'anvic_calls_history';
+// Estado da chamada atual, incluindo as mídias que a interface desenha
+export interface CallState {
+  session: CallSession | null;
+  endedCall: CallSession | null; // resultado (ocupado, não atendida...) exibido por alguns segundos
+  localStream: MediaStream | null;
+  remoteStream: MediaStream | null;
+  isMuted: boolean;
+  isSpeakerOn: boolean;
+  isCameraOn: boolean;
+}
+
+type CallListener = (state: CallState) => void;
+
+// Chamadas de voz e vídeo ponto a ponto (WebRTC); oferta, resposta e candidatos ICE
+// passam pelo SignalingTransport — Supabase Realtime no app, LocalSignaling em testes.
+// Mídia, áudio e notificações vêm do CallPlatform, também substituível em testes
+export class CallService {
+  private static readonly STUN_SERVER = 'stun:stun.l.google.com:19302';
+  private static readonly RING_TIMEOUT_MS = 30000;
+  // Quem recebe espera um pouco mais: normalmente o aviso de "não atendida" vem de quem ligou
+  private static readonly INCOMING_GRACE_MS = 5000;
+  private static readonly ENDED_DISPLAY_MS = 2500;
+
+  private signaling: SignalingTransport;
+  private platform: CallPlatform;
+  private userId: string | null = null;
+  private stopListening: (() => void) | null = null;
+  private stopOpenedCalls: (() => void) | null = null;
+  private listeners: Set<CallListener> = new Set();
+
   private activeCall: CallSession | null = null;
-  private recording: Audio.Recording | null = null;
+  private endedCall: CallSession | null = null;
+  private ringTimeout: ReturnType<typeof setTimeout> | null = null;
+  private endedTimeout: ReturnType<typeof setTimeout> | null = null;
+  private peerConnection: RTCPeerConnection | null = null;
+  private localStream: MediaStream | null = null;
+  private remoteStream: MediaStream | null = null;
+  private pendingOffer: string | null = null; // SDP da chamada recebida até ser aceita
+  private pendingCandidates: IceCandidatePayload[] = []; // chegaram antes da descrição remota
+  private sentCandidates: IceCandidatePayload[] = []; // reenviados junto com a oferta, se pedida de novo
+  private isMuted = false;
+  private isSpeakerOn = false;
+  private isCameraOn = true;
 
-  // Iniciar chamada de voz
-  async startVoiceCall(recipientId: string, recipientName: string): Promise<CallSession> {
-    try {
-      // Configurar áudio para chamada
-      await Audio.setAudioModeAsync({
-        allowsRecordingIOS: true,
-        playsInSilentModeIOS: true,
-        playThroughEarpieceAndroid: false,
-        staysActiveInBackground: true,
-        shouldDuckAndroid: false,
+  constructor(
+    signaling: SignalingTransport = new SealedSignaling(new SupabaseSignaling(), AnvicCrypto),
+    platform: CallPlatform = nativeCallPlatform
+  ) {
+    this.signaling = signaling;
+    this.platform = platform;
+  }
+
+  // Começa a receber sinalização endereçada ao usuário logado
+  initialize(userId: string): void {
+    if (Platform.OS === 'web' || this.userId === userId) return;
+
+    this.stopListening?.();
+    this.userId = userId;
+    this.stopListening = this.signaling.listen(userId, message => {
+      this.handleSignal(message).catch(error => {
+        console.error('Erro ao processar sinalização:', error);
       });
+    });
 
-      const callSession: CallSession = {
-        id: `call_${Date.now()}_${Math.random()}`,
-        participants: [recipientId],
-        type: 'voice',
-        status: 'calling',
-        startTime: new Date().toISOString(),
-      };
+    this.stopOpenedCalls?.();
+    this.stopOpenedCalls = this.platform.notifications.onCallOpened(push => {
+      this.handleCallOpened(push).catch(error => {
+        console.error('Erro ao abrir chamada recebida:', error);
+      });
+    });
+  }
 
-      this.activeCall = callSession;
-      await this.saveCallToHistory(callSession);
+  async cleanup(): Promise<void> {
+    if (this.activeCall) {
+      await this.endCall(this.activeCall.id);
+    }
+    this.clearEndedCall();
+    this.stopListening?.();
+    this.stopListening = null;
+    this.stopOpenedCalls?.();
+    this.stopOpenedCalls = null;
+    this.userId = null;
+  }
 
-      return callSession;
+  // Iniciar chamada de voz
+  async startVoiceCall(recipientId: string, recipientName: string, recipientAvatar?: string): Promise<CallSession> {
+    try {
+      return await this.startCall(recipientId, recipientName, recipientAvatar, 'voice');
     } catch (error) {
       console.error('Erro ao iniciar chamada de voz:', error);
       throw error;
@@ -55,63 +135,57 @@ class CallService {
   }
 
   // Iniciar chamada de vídeo
-  async startVideoCall(recipientId: string, recipientName: string): Promise<CallSession> {
+  async startVideoCall(recipientId: string, recipientName: string, recipientAvatar?: string): Promise<CallSession> {
     try {
-      // Solicitar permissões de câmera
-      const { status } = await MediaLibrary.requestPermissionsAsync();
-      if (status !== 'granted') {
-        throw new Error('Permissão de câmera necessária para videochamada');
-      }
-
-      const callSession: CallSession = {
-        id: `video_call_${Date.now()}_${Math.random()}`,
-        participants: [recipientId],
-        type: 'video',
-        status: 'calling',
-        startTime: new Date().toISOString(),
-      };
-
-      this.activeCall = callSession;
-      await this.saveCallToHistory(callSession);
-
-      return callSession;
+      return await this.startCall(recipientId, recipientName, recipientAvatar, 'video');
     } catch (error) {
       console.error('Erro ao iniciar videochamada:', error);
       throw error;
     }
   }
 
-  // Aceitar chamada
+  // Aceitar chamada recebida: responde a oferta guardada
   async acceptCall(callId: string): Promise<void> {
-    if (this.activeCall?.id === callId) {
-      this.activeCall.status = 'active';
-      await this.saveCallToHistory(this.activeCall);
+    const call = this.activeCall;
+    if (!call || call.id !== callId || call.direction !== 'incoming' || !this.pendingOffer) return;
+
+    this.clearRingTimeout();
+    this.platform.audio.stopRingtone();
+
+    try {
+      await this.platform.requestPermissions(call.type);
+      await this.openMedia(call.type);
+
+      // Antes de aplicar as descrições: a conexão pode ficar ativa logo em seguida
+      this.updateCall({ status: 'connecting' });
+
+      const peerConnection = this.createPeerConnection(call);
+      await peerConnection.setRemoteDescription({ type: 'offer', sdp: this.pendingOffer });
+      this.pendingOffer = null;
+      await this.flushCandidates();
+
+      const answer = await peerConnection.createAnswer();
+      await peerConnection.setLocalDescription(answer);
+      await this.signaling.send(call.peerId, { type: 'answer', callId, from: this.userId!, sdp: answer.sdp });
+    } catch (error) {
+      console.error('Erro ao aceitar chamada:', error);
+      await this.endCall(callId);
+      throw error;
     }
   }
 
-  // Encerrar chamada
+  // Encerrar chamada (ou recusar, se ainda estiver tocando)
   async endCall(callId: string): Promise<void> {
-    if (this.activeCall?.id === callId) {
-      const endTime = new Date().toISOString();
-      const duration = new Date(endTime).getTime() - new Date(this.activeCall.startTime).getTime();
-
-      this.activeCall = {
-        ...this.activeCall,
-        status: 'ended',
-        endTime,
-        duration,
-      };
-
-      await this.saveCallToHistory(this.activeCall);
-      this.activeCall = null;
+    const call = this.activeCall;
+    if (!call || call.id !== callId) return;
 
-      // Resetar modo de áudio
-      await Audio.setAudioModeAsync({
-        allowsRecordingIOS: false,
-        playsInSilentModeIOS: false,
-        staysActiveInBackground: false,
-      });
+    // Ainda tocando: quem recebe recusa; quem ligou desistiu e o outro lado vê uma chamada perdida
+    let reason: HangupReason = 'ended';
+    if (call.status === 'calling') {
+      reason = call.direction === 'incoming' ? 'declined' : 'missed';
     }
+    await this.sendHangup(call, reason);
+    await this.finishCall(reason);
   }
 
   // Obter chamada ativa
@@ -119,57 +193,470 @@ class CallService {
     return this.activeCall;
   }
 
-  // Salvar chamada no histórico
-  private async saveCallToHistory(call: CallSession): Promise<void> {
+  getState(): CallState {
+    return {
+      session: this.activeCall,
+      endedCall: this.endedCall,
+      localStream: this.localStream,
+      remoteStream: this.remoteStream,
+      isMuted: this.isMuted,
+      isSpeakerOn: this.isSpeakerOn,
+      isCameraOn: this.isCameraOn,
+    };
+  }
+
+  subscribe(listener: CallListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getState());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Desliga a trilha de áudio enviada; o outro lado passa a receber silêncio
+  setMuted(muted: boolean): void {
+    this.isMuted = muted;
+    this.localStream?.getAudioTracks().forEach(track => {
+      track.enabled = !muted;
+    });
+    this.notify();
+  }
+
+  setSpeakerOn(speakerOn: boolean): void {
+    this.isSpeakerOn = speakerOn;
+    this.platform.audio.setSpeakerOn(speakerOn);
+    this.notify();
+  }
+
+  setCameraOn(cameraOn: boolean): void {
+    this.isCameraOn = cameraOn;
+    this.localStream?.getVideoTracks().forEach(track => {
+      track.enabled = cameraOn;
+    });
+    this.notify();
+  }
+
+  private async startCall(
+    peerId: string,
+    peerName: string,
+    peerAvatar: string | undefined,
+    type: CallType
+  ): Promise<CallSession> {
+    if (Platform.OS === 'web') throw new Error('Chamadas não estão disponíveis na versão web');
+    if (!this.userId) throw new Error('Usuário não autenticado');
+    if (this.activeCall) throw new Error('Já existe uma chamada em andamento');
+
+    await this.platform.requestPermissions(type);
+
+    const session: CallSession = {
+      id: Crypto.randomUUID(),
+      participants: [peerId],
+      peerId,
+      peerName,
+      peerAvatar,
+      direction: 'outgoing',
+      type,
+      status: 'calling',
+      startTime: new Date().toISOString(),
+    };
+    this.clearEndedCall();
+    this.activeCall = session;
+    this.notify();
+
     try {
-      const historyData = await AsyncStorage.getItem(CallService.CALLS_HISTORY_KEY);
-      const history: CallSession[] = historyData ? JSON.parse(historyData) : [];
-      
-      const existingIndex = history.findIndex(c => c.id === call.id);
-      if (existingIndex >= 0) {
-        history[existingIndex] = call;
-      } else {
-        history.unshift(call);
+      await this.openMedia(type, true);
+
+      const peerConnection = this.createPeerConnection(session);
+      const offer = await peerConnection.createOffer({});
+      await peerConnection.setLocalDescription(offer);
+      await this.signaling.send(peerId, {
+        type: 'offer',
+        callId: session.id,
+        from: this.userId,
+        callType: type,
+        sdp: offer.sdp,
+      });
+      this.requestIncomingCallPush(session);
+
+      // Ninguém atendeu a tempo: avisar o outro lado para parar de tocar
+      this.ringTimeout = setTimeout(() => {
+        if (this.activeCall?.id !== session.id || this.activeCall.status !== 'calling') return;
+        this.sendHangup(session, 'missed');
+        this.finishCall('missed', true);
+      }, CallService.RING_TIMEOUT_MS);
+
+      return session;
+    } catch (error) {
+      await this.finishCall('failed');
+      throw error;
+    }
+  }
+
+  private async handleSignal(message: SignalMessage): Promise<void> {
+    if (message.type === 'offer') {
+      await this.handleOffer(message);
+      return;
+    }
+
+    // Mensagens de outras chamadas (ou de chamadas já encerradas) são ignoradas
+    const call = this.activeCall;
+    if (!call || call.id !== message.callId || call.peerId !== message.from) return;
+
+    switch (message.type) {
+      case 'offer-request':
+        await this.resendOffer(call);
+        break;
+      case 'answer':
+        if (!this.peerConnection || call.direction !== 'outgoing') return;
+        this.clearRingTimeout();
+        this.platform.audio.stopRingback();
+        this.updateCall({ status: 'connecting' });
+        await this.peerConnection.setRemoteDescription({ type: 'answer', sdp: message.sdp });
+        await this.flushCandidates();
+        break;
+      case 'ice-candidate':
+        if (this.peerConnection?.remoteDescription) {
+          await this.peerConnection.addIceCandidate(message.candidate);
+        } else {
+          this.pendingCandidates.push(message.candidate);
+        }
+        break;
+      case 'hangup':
+        // Quem ligou precisa ver o motivo (ocupado, recusada, não atendida)
+        await this.finishCall(message.reason, call.direction === 'outgoing');
+        break;
+    }
+  }
+
+  private async handleOffer(message: Extract<SignalMessage, { type: 'offer' }>): Promise<void> {
+    const incoming: CallSession = {
+      id: message.callId,
+      participants: [message.from],
+      peerId: message.from,
+      direction: 'incoming',
+      type: message.callType,
+      status: 'calling',
+      startTime: new Date().toISOString(),
+    };
+
+    if (this.activeCall) {
+      if (this.activeCall.id === message.callId) return;
+
+      // Já em outra chamada: sinal de ocupado para quem ligou (que registra a chamada) e aviso aqui
+      await this.sendHangup(incoming, 'busy');
+      await this.notifyMissedCall(await this.withPeerProfile(incoming));
+      return;
+    }
+
+    this.clearEndedCall();
+    this.pendingOffer = message.sdp;
+    this.activeCall = incoming;
+    this.notify();
+
+    // Toca até atender, recusar ou o tempo acabar
+    this.platform.audio.startRingtone(CallService.RING_TIMEOUT_MS);
+    this.ringTimeout = setTimeout(() => {
+      if (this.activeCall?.id !== incoming.id || this.activeCall.status !== 'calling') return;
+      this.finishCall('missed');
+    }, CallService.RING_TIMEOUT_MS + CallService.INCOMING_GRACE_MS);
+
+    const withProfile = await this.withPeerProfile(incoming);
+    if (this.activeCall?.id !== incoming.id) return;
+    this.updateCall({ peerName: withProfile.peerName, peerAvatar: withProfile.peerAvatar });
+
+    // Em segundo plano a tela de chamada não aparece: avisar por notificação até o app voltar
+    if (AppState.currentState !== 'active') {
+      try {
+        await this.platform.notifications.show(
+          incoming.type === 'video' ? 'Videochamada recebida' : 'Chamada de voz recebida',
+          withProfile.peerName || 'Toque para atender',
+          incoming.id
+        );
+      } catch (error) {
+        console.error('Erro ao notificar chamada recebida:', error);
       }
+    }
+  }
+
+  // Com o app fechado a oferta se perdeu; o push avisa o aparelho, que pede a oferta de novo
+  private requestIncomingCallPush(call: CallSession): void {
+    callHistoryService
+      .notifyIncomingCall(call.id, call.peerId, call.type, this.userId!)
+      .then(({ error }) => {
+        if (error) console.error('Erro ao enviar push da chamada:', error);
+      });
+  }
+
+  // Toque no push: se a chamada ainda não chegou por aqui, pedir a oferta a quem está ligando
+  private async handleCallOpened(push: IncomingCallPush): Promise<void> {
+    if (!this.userId || this.activeCall) return;
+
+    await this.signaling.send(push.callerId, { type: 'offer-request', callId: push.callId, from: this.userId });
+  }
+
+  // Só enquanto ainda toca: oferta e candidatos já gerados, na mesma ordem do primeiro envio
+  private async resendOffer(call: CallSession): Promise<void> {
+    const sdp = this.peerConnection?.localDescription?.sdp;
+    if (call.direction !== 'outgoing' || call.status !== 'calling' || !sdp) return;
+
+    await this.signaling.send(call.peerId, { type: 'offer', callId: call.id, from: this.userId!, callType: call.type, sdp });
+    for (const candidate of this.sentCandidates) {
+      await this.signaling.send(call.peerId, { type: 'ice-candidate', callId: call.id, from: this.userId!, candidate });
+    }
+  }
+
+  private async withPeerProfile(call: CallSession): Promise<CallSession> {
+    try {
+      const { data: profile } = await chatService.getUserProfile(call.peerId);
+      if (!profile) return call;
+      return {
+        ...call,
+        peerName: profile.full_name || profile.username || call.peerName,
+        peerAvatar: profile.avatar_url || call.peerAvatar,
+      };
+    } catch (error) {
+      console.error('Erro ao carregar perfil de quem ligou:', error);
+      return call;
+    }
+  }
 
-      // Manter apenas últimas 100 chamadas
-      const limitedHistory = history.slice(0, 100);
-      await AsyncStorage.setItem(CallService.CALLS_HISTORY_KEY, JSON.stringify(limitedHistory));
+  private async notifyMissedCall(call: CallSession): Promise<void> {
+    try {
+      await this.platform.notifications.show(
+        call.type === 'video' ? 'Videochamada perdida' : 'Chamada perdida',
+        call.peerName || 'Chamada não atendida'
+      );
     } catch (error) {
-      console.error('Erro ao salvar histórico de chamadas:', error);
+      console.error('Erro ao notificar chamada perdida:', error);
     }
   }
 
-  // Obter histórico de chamadas
-  async getCallHistory(): Promise<CallSession[]> {
+  private async sendHangup(call: CallSession, reason: HangupReason): Promise<void> {
     try {
-      const historyData = await AsyncStorage.getItem(CallService.CALLS_HISTORY_KEY);
-      return historyData ? JSON.parse(historyData) : [];
+      await this.signaling.send(call.peerId, { type: 'hangup', callId: call.id, from: this.userId!, reason });
     } catch (error) {
+      console.error('Erro ao avisar fim da chamada:', error);
+    }
+  }
+
+  // ringback: som de chamando para quem ligou, até a resposta chegar
+  private async openMedia(type: CallType, ringback = false): Promise<void> {
+    this.localStream = await this.platform.getUserMedia(type);
+
+    // Videochamada começa no alto-falante; voz, no fone do aparelho
+    this.isMuted = false;
+    this.isCameraOn = true;
+    this.isSpeakerOn = type === 'video';
+    this.platform.audio.start(type, ringback);
+    this.platform.audio.setSpeakerOn(this.isSpeakerOn);
+    this.notify();
+  }
+
+  private createPeerConnection(call: CallSession): RTCPeerConnection {
+    const peerConnection = this.platform.createPeerConnection(this.getIceServers());
+
+    this.localStream?.getTracks().forEach(track => {
+      peerConnection.addTrack(track, this.localStream!);
+    });
+
+    // Os tipos de evento do react-native-webrtc não são exportados; descrevemos só o que usamos
+    peerConnection.onicecandidate = (event: { candidate: RTCIceCandidate | null }) => {
+      if (!event.candidate) return;
+      const candidate: IceCandidatePayload = {
+        candidate: event.candidate.candidate,
+        sdpMid: event.candidate.sdpMid,
+        sdpMLineIndex: event.candidate.sdpMLineIndex,
+      };
+      this.sentCandidates.push(candidate);
+      this.signaling
+        .send(call.peerId, { type: 'ice-candidate', callId: call.id, from: this.userId!, candidate })
+        .catch(error => console.error('Erro ao enviar candidato ICE:', error));
+    };
+
+    peerConnection.ontrack = (event: { streams: MediaStream[] }) => {
+      const [stream] = event.streams;
+      if (stream) {
+        this.remoteStream = stream;
+        this.notify();
+      }
+    };
+
+    peerConnection.onconnectionstatechange = () => {
+      if (peerConnection !== this.peerConnection) return;
+
+      if (peerConnection.connectionState === 'connected' && this.activeCall?.status !== 'active') {
+        this.updateCall({ status: 'active', connectedAt: new Date().toISOString() });
+      } else if (peerConnection.connectionState === 'failed') {
+        this.sendHangup(call, 'failed');
+        this.finishCall('failed', true);
+      }
+    };
+
+    this.peerConnection = peerConnection;
+    return peerConnection;
+  }
+
+  private async flushCandidates(): Promise<void> {
+    const candidates = this.pendingCandidates;
+    this.pendingCandidates = [];
+    for (const candidate of candidates) {
+      await this.peerConnection?.addIceCandidate(candidate);
+    }
+  }
+
+  // TURN opcional para redes que bloqueiam conexão direta
+  private getIceServers(): IceServer[] {
+    const servers: IceServer[] = [
+      { urls: CallService.STUN_SERVER },
+    ];
+    if (process.env.EXPO_PUBLIC_TURN_URL) {
+      servers.push({
+        urls: process.env.EXPO_PUBLIC_TURN_URL,
+        username: process.env.EXPO_PUBLIC_TURN_USERNAME,
+        credential: process.env.EXPO_PUBLIC_TURN_CREDENTIAL,
+      });
+    }
+    return servers;
+  }
+
+  // Fecha conexão e mídias; a duração conta a partir de quando a mídia começou a fluir.
+  // showOutcome mantém o resultado na tela por alguns segundos (ex.: "Ocupado")
+  private async finishCall(reason: HangupReason, showOutcome = false): Promise<void> {
+    const call = this.activeCall;
+    if (!call) return;
+
+    this.clearRingTimeout();
+    this.platform.audio.stopRingtone();
+    this.peerConnection?.close();
+    this.peerConnection = null;
+    this.localStream?.getTracks().forEach(track => track.stop());
+    this.localStream?.release();
+    this.localStream = null;
+    this.remoteStream = null;
+    this.pendingOffer = null;
+    this.pendingCandidates = [];
+    this.sentCandidates = [];
+    this.activeCall = null;
+    this.platform.audio.stop(reason === 'busy');
+
+    const endTime = new Date().toISOString();
+    const ended: CallSession = {
+      ...call,
+      status: 'ended',
+      endTime,
+      duration: call.connectedAt ? new Date(endTime).getTime() - new Date(call.connectedAt).getTime() : 0,
+      endReason: reason,
+    };
+
+    if (showOutcome) {
+      this.endedCall = ended;
+      this.endedTimeout = setTimeout(() => this.clearEndedCall(), CallService.ENDED_DISPLAY_MS);
+    }
+    this.notify();
+
+    if (call.direction === 'incoming') {
+      this.platform.notifications.dismiss(call.id).catch(() => {});
+      if (reason === 'missed') {
+        await this.notifyMissedCall(ended);
+      }
+    }
+    // Quem ligou é quem sabe o desfecho final: só esse lado grava na tabela calls
+    if (call.direction === 'outgoing') {
+      await this.recordCall(ended);
+    }
+  }
+
+  private clearRingTimeout(): void {
+    if (this.ringTimeout) {
+      clearTimeout(this.ringTimeout);
+      this.ringTimeout = null;
+    }
+  }
+
+  private clearEndedCall(): void {
+    if (this.endedTimeout) {
+      clearTimeout(this.endedTimeout);
+      this.endedTimeout = null;
+    }
+    if (this.endedCall) {
+      this.endedCall = null;
+      this.notify();
+    }
+  }
+
+  private updateCall(changes: Partial<CallSession>): void {
+    if (!this.activeCall) return;
+    this.activeCall = { ...this.activeCall, ...changes };
+    this.notify();
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+
+  private async recordCall(call: CallSession): Promise<void> {
+    if (!this.userId) return;
+
+    // Perdida só quando tocou sem ninguém atender; atendida que não conectou conta como falha
+    let outcome: CallOutcome = 'failed';
+    if (call.connectedAt) {
+      outcome = 'answered';
+    } else if (call.endReason === 'declined' || call.endReason === 'busy' || call.endReason === 'missed') {
+      outcome = call.endReason;
+    }
+
+    const { error } = await callHistoryService.recordCall({
+      id: call.id,
+      caller_id: this.userId,
+      callee_id: call.peerId,
+      call_type: call.type,
+      outcome,
+      duration_seconds: Math.round((call.duration || 0) / 1000),
+      started_at: call.startTime,
+      ended_at: call.endTime || new Date().toISOString(),
+    });
+
+    if (error) {
+      console.error('Erro ao registrar chamada:', error);
+    }
+  }
+
+  // Obter histórico de chamadas (as duas direções, mais recentes primeiro)
+  async getCallHistory(missedOnly = false): Promise<CallRecord[]> {
+    if (!this.userId) return [];
+
+    const { data, error } = await callHistoryService.getCallHistory(this.userId, { missedOnly });
+    if (error) {
       console.error('Erro ao carregar histórico:', error);
       return [];
     }
+    return data || [];
   }
 
   // Obter estatísticas de chamadas
   async getCallStats(): Promise<CallStats> {
+    const empty: CallStats = { totalCalls: 0, totalDuration: 0, averageDuration: 0, callsToday: 0, missedCalls: 0 };
+    if (!this.userId) return empty;
+
     try {
-      const history = await this.getCallHistory();
+      const { data: calls, error } = await callHistoryService.getCallSummaries(this.userId);
+      if (error || !calls) throw error;
+
       const today = new Date().toDateString();
-      
+      const answered = calls.filter(call => call.outcome === 'answered');
+      const totalDuration = answered.reduce((sum, call) => sum + call.duration_seconds, 0);
+
       return {
-        totalCalls: history.length,
-        totalDuration: history.reduce((sum, call) => sum + (call.duration || 0), 0),
-        averageDuration: history.length > 0 
-          ? history.reduce((sum, call) => sum + (call.duration || 0), 0) / history.length 
-          : 0,
-        callsToday: history.filter(call => 
-          new Date(call.startTime).toDateString() === today
-        ).length,
+        totalCalls: calls.length,
+        totalDuration,
+        averageDuration: answered.length > 0 ? totalDuration / answered.length : 0,
+        callsToday: calls.filter(call => new Date(call.started_at).toDateString() === today).length,
+        missedCalls: calls.filter(call => call.callee_id === this.userId && MISSED_OUTCOMES.includes(call.outcome)).length,
       };
     } catch (error) {
       console.error('Erro ao calcular estatísticas:', error);
-      return { totalCalls: 0, totalDuration: 0, averageDuration: 0, callsToday: 0 };
+      return empty;
     }
   }
 }
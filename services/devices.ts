@@ -0,0 +1,304 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Device from 'expo-device';
+import * as Crypto from 'expo-crypto';
+import * as Notifications from 'expo-notifications';
+import Constants from 'expo-constants';
+import { supabase } from './supabase';
+import { AnvicCrypto } from './encryption';
+import { UserDevice } from './types';
+
+class DeviceService {
+  private static readonly DEVICE_ID_KEY = 'anvic_device_id';
+  private static readonly LINK_PREFIX = 'ANVIC-LINK:1:';
+  private static readonly LINK_MAX_AGE_MS = 10 * 60 * 1000;
+
+  private deviceId: string | null = null;
+
+  // Identificador desta instalação (não muda entre logins)
+  async getDeviceId(): Promise<string> {
+    if (this.deviceId) return this.deviceId;
+
+    let deviceId = await AsyncStorage.getItem(DeviceService.DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = Crypto.randomUUID();
+      await AsyncStorage.setItem(DeviceService.DEVICE_ID_KEY, deviceId);
+    }
+
+    this.deviceId = deviceId;
+    return deviceId;
+  }
+
+  private getDeviceName(): string {
+    if (Platform.OS === 'web') return 'Navegador';
+    return Device.deviceName || Device.modelName || (Platform.OS === 'ios' ? 'iPhone' : 'Android');
+  }
+
+  // Sessão do Supabase Auth em uso (claim session_id do token), encerrada quando o aparelho é revogado
+  private async getSessionId(): Promise<string | null> {
+    const { data: { session } } = await supabase.auth.getSession();
+    const payload = session?.access_token.split('.')[1];
+    if (!payload) return null;
+
+    try {
+      const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+      return claims.session_id ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Token do Expo Push para o servidor avisar chamadas com o app fechado; sem permissão ou fora de um
+  // aparelho de verdade fica sem push, e as chamadas só chegam com o app aberto
+  private async getPushToken(): Promise<string | null> {
+    if (Platform.OS === 'web' || !Device.isDevice) return null;
+
+    try {
+      let { status } = await Notifications.getPermissionsAsync();
+      if (status !== 'granted') {
+        ({ status } = await Notifications.requestPermissionsAsync());
+      }
+      if (status !== 'granted') return null;
+
+      const { data } = await Notifications.getExpoPushTokenAsync({
+        projectId: Constants.expoConfig?.extra?.eas?.projectId,
+      });
+      return data;
+    } catch (error) {
+      console.error('Erro ao obter token de push:', error);
+      return null;
+    }
+  }
+
+  // Registrar (ou atualizar) este aparelho na conta
+  async registerDevice(userId: string): Promise<{ data: UserDevice | null; error: any }> {
+    const deviceId = await this.getDeviceId();
+    const publicKey = await AnvicCrypto.getDevicePublicKey();
+    const sessionId = await this.getSessionId();
+    const pushToken = await this.getPushToken();
+
+    const { data, error } = await supabase
+      .from('user_devices')
+      .upsert(
+        {
+          id: deviceId,
+          user_id: userId,
+          device_name: this.getDeviceName(),
+          platform: Platform.OS,
+          public_key: publicKey,
+          session_id: sessionId,
+          push_token: pushToken,
+          last_seen_at: new Date().toISOString(),
+        },
+        { onConflict: 'id' }
+      )
+      .select()
+      .single();
+
+    return { data, error };
+  }
+
+  // Este aparelho já tem as chaves da conta
+  async markLinked(): Promise<{ error: any }> {
+    const deviceId = await this.getDeviceId();
+
+    const { error } = await supabase
+      .from('user_devices')
+      .update({
+        linked_at: new Date().toISOString(),
+        sealed_identity: null,
+        sealed_nonce: null,
+        sealed_ephemeral_key: null,
+      })
+      .eq('id', deviceId)
+      .is('linked_at', null);
+
+    return { error };
+  }
+
+  async getDevices(userId: string): Promise<{ data: UserDevice[] | null; error: any }> {
+    const { data, error } = await supabase
+      .from('user_devices')
+      .select('*')
+      .eq('user_id', userId)
+      .not('linked_at', 'is', null)
+      .is('revoked_at', null)
+      .order('last_seen_at', { ascending: false });
+
+    return { data, error };
+  }
+
+  // Revogação no servidor: marca o aparelho e encerra a sessão registrada por ele (o refresh token
+  // deixa de valer), sem depender de o próprio aparelho ver a mudança e sair
+  async revokeDevice(userId: string, deviceId: string): Promise<{ error: any }> {
+    const { error } = await supabase
+      .rpc('revoke_device', {
+        device_id: deviceId,
+        current_user_id: userId
+      });
+
+    return { error };
+  }
+
+  // Depois de revogar um aparelho: as chaves atuais dos grupos foram vistas por ele, então cada grupo
+  // ganha uma chave nova. A identidade da conta fica, e com ela o histórico das conversas
+  async rotateGroupKeys(userId: string): Promise<{ error: any }> {
+    const { data: groups, error } = await supabase
+      .from('conversation_participants')
+      .select('conversation_id, conversations!inner(is_group)')
+      .eq('user_id', userId)
+      .eq('conversations.is_group', true);
+    if (error) return { error };
+
+    let rotateError: any = null;
+    for (const { conversation_id } of groups || []) {
+      try {
+        await AnvicCrypto.rotateGroupKey(conversation_id, userId);
+      } catch (groupError) {
+        // Um grupo que falhar não impede os demais
+        console.error('Erro ao girar a chave do grupo:', groupError);
+        rotateError = groupError;
+      }
+    }
+
+    return { error: rotateError };
+  }
+
+  // Ao recomeçar com chaves novas, os aparelhos antigos não podem continuar publicando as anteriores
+  async revokeOtherDevices(userId: string): Promise<{ error: any }> {
+    const deviceId = await this.getDeviceId();
+
+    const { data: devices, error } = await supabase
+      .from('user_devices')
+      .select('id')
+      .eq('user_id', userId)
+      .neq('id', deviceId)
+      .is('revoked_at', null);
+    if (error) return { error };
+
+    for (const device of devices || []) {
+      const { error: revokeError } = await this.revokeDevice(userId, device.id);
+      if (revokeError) return { error: revokeError };
+    }
+
+    return { error: null };
+  }
+
+  // Logout: o aparelho deixa de receber push de chamadas da conta
+  async clearPushToken(): Promise<{ error: any }> {
+    const deviceId = await this.getDeviceId();
+
+    const { error } = await supabase
+      .from('user_devices')
+      .update({ push_token: null })
+      .eq('id', deviceId);
+
+    return { error };
+  }
+
+  // Aparelho revogado: esquecer o id para que um novo login comece como aparelho novo
+  async forgetDevice(userId: string): Promise<void> {
+    await AnvicCrypto.clearUserKeys(userId);
+    await AnvicCrypto.clearDeviceKeys();
+    await AsyncStorage.removeItem(DeviceService.DEVICE_ID_KEY);
+    this.deviceId = null;
+  }
+
+  // Recebe as mudanças do registro deste aparelho (vinculação e revogação)
+  async subscribeToDevice(callback: (device: UserDevice) => void) {
+    const deviceId = await this.getDeviceId();
+
+    return supabase
+      .channel(`user_devices:${deviceId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'user_devices',
+          filter: `id=eq.${deviceId}`,
+        },
+        (payload: any) => callback(payload.new as UserDevice)
+      )
+      .subscribe();
+  }
+
+  // ============== VINCULAÇÃO POR QR ==============
+
+  // Conteúdo do QR exibido pelo aparelho novo
+  async getLinkPayload(): Promise<string> {
+    const deviceId = await this.getDeviceId();
+    const publicKey = await AnvicCrypto.getDevicePublicKey();
+    return `${DeviceService.LINK_PREFIX}${deviceId}:${publicKey}`;
+  }
+
+  // Aparelho já vinculado lê o QR e entrega as chaves da conta ao aparelho novo
+  async approveDevice(userId: string, payload: string): Promise<{ data: UserDevice | null; error: any }> {
+    if (!payload.startsWith(DeviceService.LINK_PREFIX)) {
+      return { data: null, error: new Error('Código de vinculação inválido') };
+    }
+
+    const [deviceId, publicKey] = payload.substring(DeviceService.LINK_PREFIX.length).split(':');
+    if (!deviceId || !publicKey) {
+      return { data: null, error: new Error('Código de vinculação inválido') };
+    }
+
+    const { data: device, error: fetchError } = await supabase
+      .from('user_devices')
+      .select('*')
+      .eq('id', deviceId)
+      .eq('user_id', userId)
+      .single();
+
+    if (fetchError || !device) {
+      return { data: null, error: fetchError || new Error('Aparelho não encontrado nesta conta') };
+    }
+
+    // A chave do QR é a referência: um registro adulterado no servidor não recebe as chaves
+    if (device.public_key !== publicKey) {
+      return { data: null, error: new Error('A chave do aparelho não confere com o código lido') };
+    }
+    if (device.revoked_at) {
+      return { data: null, error: new Error('Este aparelho foi revogado') };
+    }
+    if (Date.now() - new Date(device.last_seen_at).getTime() > DeviceService.LINK_MAX_AGE_MS) {
+      return { data: null, error: new Error('Código expirado. Gere um novo código no outro aparelho') };
+    }
+
+    try {
+      const sealed = await AnvicCrypto.sealIdentityForDevice(userId, publicKey);
+
+      const { data, error } = await supabase
+        .from('user_devices')
+        .update(sealed)
+        .eq('id', deviceId)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      return { data, error };
+    } catch (error) {
+      return { data: null, error };
+    }
+  }
+
+  // Aparelho novo: abrir as chaves entregues pelo aparelho que leu o QR
+  async completeLink(userId: string, device: UserDevice): Promise<boolean> {
+    if (!device.sealed_identity || !device.sealed_nonce || !device.sealed_ephemeral_key) return false;
+
+    try {
+      await AnvicCrypto.openIdentityFromDevice(userId, {
+        sealed_identity: device.sealed_identity,
+        sealed_nonce: device.sealed_nonce,
+        sealed_ephemeral_key: device.sealed_ephemeral_key,
+      });
+      await this.markLinked();
+      return true;
+    } catch (error) {
+      console.error('Erro ao concluir vinculação do aparelho:', error);
+      return false;
+    }
+  }
+}
+
+export const deviceService = new DeviceService();
@@ -1,157 +1,1076 @@
-// Implementação básica de criptografia sem dependências externas
+// Criptografia de ponta a ponta: identidade X25519 + Ed25519, chave de sessão por conversa e XChaCha20-Poly1305
 import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import * as ExpoCrypto from 'expo-crypto';
+import { File } from 'expo-file-system/next';
+import { ed25519, x25519 } from '@noble/curves/ed25519';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { hkdf } from '@noble/hashes/hkdf';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { supabase } from './supabase';
+import { chatService } from './endpoints/chat';
+import { Conversation } from './types';
+
+// Versões do envelope: 1 = XOR legado (sem campo version), 2 = XChaCha20-Poly1305 com chave de sessão
+export const ENVELOPE_VERSION = 2;
 
 export interface EncryptedMessage {
-  content: string;
-  iv: string;
+  version: number;
+  content: string; // texto cifrado + tag, em base64
+  iv: string; // nonce de 24 bytes, em base64
   timestamp: number;
   type: 'text' | 'image' | 'audio' | 'video';
+  conversationId?: string;
+  keyId?: string; // chave de sessão usada (grupos podem ter mais de uma)
+  senderId?: string;
+  signature?: string; // Ed25519 do remetente sobre cabeçalho, nonce e texto cifrado
+  signingKeyId?: string; // chave de assinatura usada no envio, no histórico de chaves do remetente
+}
+
+// verified: assinatura do remetente confere; unsigned: envelope da versão 1 ou remetente sem chave publicada.
+// Envelope da versão 2 sem assinatura válida é tampered: retirar a assinatura não rebaixa a mensagem
+export type MessageIntegrity = 'verified' | 'unsigned' | 'tampered' | 'undecryptable';
+
+export interface OpenedMessage {
+  status: MessageIntegrity;
+  content: string | null;
+}
+
+export interface MessageOrigin {
+  senderId: string;
+  conversationId: string;
+}
+
+export interface IdentityKeys {
+  dhPrivateKey: Uint8Array; // X25519
+  dhPublicKey: Uint8Array;
+  signingPrivateKey: Uint8Array; // Ed25519
+  signingPublicKey: Uint8Array;
+}
+
+// Mídia cifrada em blocos: MAGIC + tamanho do cabeçalho (uint32) + cabeçalho JSON + blocos com tag
+export const MEDIA_CHUNK_SIZE = 64 * 1024;
+const MEDIA_MAGIC = 'ANVM';
+const MEDIA_TAG_SIZE = 16;
+
+export interface EncryptedMediaHeader {
+  version: number;
+  type: 'image' | 'audio' | 'video' | 'file';
+  conversationId: string;
+  keyId: string;
+  senderId: string;
+  timestamp: number;
+  chunkSize: number;
+  noncePrefix: string; // 16 bytes; os 8 restantes do nonce são o índice do bloco e o marcador de último bloco
+  fileKey: string; // chave do arquivo cifrada com a chave de sessão
+  fileKeyNonce: string;
+  fileName?: string; // só em arquivos compartilhados: devolve a extensão original ao descriptografar
+}
+
+export interface MediaDecryptOptions {
+  onProgress?: (processedBytes: number, totalBytes: number) => void;
+  // Chamado quando já há bytes suficientes no destino para o player começar
+  onReady?: (uri: string) => void;
+  readyAfterBytes?: number;
+}
+
+// Chaves privadas da conta serializadas para vinculação de aparelho ou backup
+export interface ExportedIdentity {
+  dh: string;
+  signing: string;
+  legacy: string | null; // chave XOR da versão 1, para ler envelopes antigos
+}
+
+// Dados cifrados com uma senha escolhida pelo usuário (scrypt + XChaCha20-Poly1305)
+export interface PassphraseSealed {
+  kdf: { name: 'scrypt'; N: number; r: number; p: number; salt: string };
+  nonce: string;
+  ciphertext: string;
+}
+
+// Chaves de identidade cifradas para outro aparelho da mesma conta
+export interface SealedIdentity {
+  sealed_identity: string;
+  sealed_nonce: string;
+  sealed_ephemeral_key: string;
+}
+
+interface SessionKey {
+  keyId: string;
+  key: Uint8Array;
 }
 
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Hermes não tem TextDecoder
+const bytesToUtf8 = (bytes: Uint8Array): string => {
+  let encoded = '';
+  for (let i = 0; i < bytes.length; i++) {
+    encoded += '%' + bytes[i].toString(16).padStart(2, '0');
+  }
+  return decodeURIComponent(encoded);
+};
+
 export class AnvicCrypto {
   private static readonly ENCRYPTION_KEY = 'anvic_encryption_key';
-  private static readonly KEY_LENGTH = 32; // AES-256
-
-  // Gerar chave de criptografia única por usuário
-  static async generateUserKey(userId: string): Promise<string> {
-    const storedKey = await AsyncStorage.getItem(`${this.ENCRYPTION_KEY}_${userId}`);
-    
-    if (storedKey) {
-      return storedKey;
-    }
-
-      // Gerar nova chave usando dados do usuário + timestamp + random
-    const keyMaterial = `${userId}_${Date.now()}_${Math.random()}_anvic_secure`;
-    const hash = await this.generateHash(keyMaterial);
-    const key = hash.substring(0, this.KEY_LENGTH);
-    
-    await AsyncStorage.setItem(`${this.ENCRYPTION_KEY}_${userId}`, key);
-    return key;
+  private static readonly IDENTITY_KEY = 'anvic_identity_keys';
+  private static readonly DEVICE_KEY = 'anvic_device_keys';
+  private static readonly SESSION_INFO = 'anvic-session-v2';
+  private static readonly DEVICE_LINK_INFO = 'anvic-device-link-v1';
+
+  private static identityCache: Map<string, IdentityKeys> = new Map();
+  private static sessionCache: Map<string, SessionKey> = new Map();
+  private static conversationCache: Map<string, Conversation> = new Map();
+  private static signingKeyCache: Map<string, Uint8Array> = new Map();
+  private static signingKeyHistoryCache: Map<string, Uint8Array> = new Map();
+  private static peerKeyCache: Map<string, Uint8Array> = new Map();
+
+  // ============== CHAVES DE IDENTIDADE ==============
+
+  // Carrega (ou gera) as chaves de identidade do usuário e publica as chaves públicas no perfil
+  static async ensureIdentityKeys(userId: string): Promise<IdentityKeys> {
+    const cached = this.identityCache.get(userId);
+    if (cached) return cached;
+
+    let keys = await this.loadIdentityKeys(userId);
+    if (!keys) {
+      // Conta já tem chaves em outro aparelho: gerar novas aqui deixaria os demais sem acesso
+      if (await this.accountHasPublishedKeys(userId)) {
+        throw new Error('Este aparelho ainda não foi vinculado à sua conta');
+      }
+
+      const dhPrivateKey = ExpoCrypto.getRandomBytes(32);
+      const signingPrivateKey = ExpoCrypto.getRandomBytes(32);
+      keys = {
+        dhPrivateKey,
+        dhPublicKey: x25519.getPublicKey(dhPrivateKey),
+        signingPrivateKey,
+        signingPublicKey: ed25519.getPublicKey(signingPrivateKey),
+      };
+      await this.saveIdentityKeys(userId, keys);
+    }
+
+    this.identityCache.set(userId, keys);
+    await this.publishPublicKeys(userId, keys);
+    return keys;
   }
 
-  // Criptografia básica sem dependências externas
-  static async encryptMessage(message: string, userId: string, messageType: 'text' | 'image' | 'audio' | 'video' = 'text'): Promise<EncryptedMessage> {
-    try {
-      const key = await this.generateUserKey(userId);
-      
-      // Criptografia básica com base64 + XOR
-      const encrypted = this.simpleEncrypt(message, key);
+  // Aparelho novo numa conta existente: precisa receber as chaves de um aparelho já vinculado
+  static async needsDeviceLink(userId: string): Promise<boolean> {
+    if (this.identityCache.has(userId)) return false;
+    if (await this.loadIdentityKeys(userId)) return false;
+    return this.accountHasPublishedKeys(userId);
+  }
+
+  // Recomeçar sem os aparelhos antigos: gera nova identidade e o histórico cifrado fica ilegível
+  static async resetIdentityKeys(userId: string): Promise<IdentityKeys> {
+    const dhPrivateKey = ExpoCrypto.getRandomBytes(32);
+    const signingPrivateKey = ExpoCrypto.getRandomBytes(32);
+    const keys: IdentityKeys = {
+      dhPrivateKey,
+      dhPublicKey: x25519.getPublicKey(dhPrivateKey),
+      signingPrivateKey,
+      signingPublicKey: ed25519.getPublicKey(signingPrivateKey),
+    };
+
+    await this.saveIdentityKeys(userId, keys);
+    this.identityCache.set(userId, keys);
+    Array.from(this.sessionCache.keys())
+      .filter(key => key.includes(`:${userId}:`))
+      .forEach(key => this.sessionCache.delete(key));
+    Array.from(this.peerKeyCache.keys())
+      .filter(key => key.startsWith(`${userId}:`))
+      .forEach(key => this.peerKeyCache.delete(key));
+    await this.publishPublicKeys(userId, keys);
+    return keys;
+  }
+
+  private static async accountHasPublishedKeys(userId: string): Promise<boolean> {
+    const { data: profile } = await chatService.getUserProfile(userId);
+    return !!profile?.identity_key;
+  }
+
+  // Chaves públicas do usuário no mesmo formato publicado no perfil
+  static async getPublicKeys(userId: string): Promise<{ identity_key: string; signing_key: string }> {
+    const keys = await this.ensureIdentityKeys(userId);
+    return { identity_key: toBase64(keys.dhPublicKey), signing_key: toBase64(keys.signingPublicKey) };
+  }
+
+  private static async publishPublicKeys(userId: string, keys: IdentityKeys): Promise<void> {
+    const identityKey = toBase64(keys.dhPublicKey);
+    const signingKey = toBase64(keys.signingPublicKey);
+
+    // Histórico das chaves de assinatura: mensagens enviadas antes de uma troca continuam verificáveis
+    const { error: historyError } = await supabase
+      .from('signing_keys')
+      .upsert(
+        { user_id: userId, key_id: this.signingKeyId(keys.signingPublicKey), signing_key: signingKey },
+        { onConflict: 'user_id,key_id', ignoreDuplicates: true }
+      );
+    if (historyError) {
+      console.error('[CRYPTO] Erro ao registrar chave de assinatura:', historyError);
+    }
+
+    const { data: profile } = await chatService.getUserProfile(userId);
+    if (profile?.identity_key === identityKey && profile?.signing_key === signingKey) return;
 
+    const { error } = await chatService.updateUserProfile(userId, {
+      identity_key: identityKey,
+      signing_key: signingKey,
+    });
+    if (error) {
+      console.error('[CRYPTO] Erro ao publicar chaves públicas:', error);
+    }
+  }
+
+  private static async loadIdentityKeys(userId: string): Promise<IdentityKeys | null> {
+    const stored = await this.getSecureItem(`${this.IDENTITY_KEY}_${userId}`);
+    if (!stored) return null;
+
+    try {
+      const parsed = JSON.parse(stored);
+      const dhPrivateKey = fromBase64(parsed.dh);
+      const signingPrivateKey = fromBase64(parsed.signing);
       return {
-        content: encrypted,
-        iv: Date.now().toString(),
+        dhPrivateKey,
+        dhPublicKey: x25519.getPublicKey(dhPrivateKey),
+        signingPrivateKey,
+        signingPublicKey: ed25519.getPublicKey(signingPrivateKey),
+      };
+    } catch (error) {
+      console.error('[CRYPTO] Chaves de identidade corrompidas:', error);
+      return null;
+    }
+  }
+
+  private static async saveIdentityKeys(userId: string, keys: IdentityKeys): Promise<void> {
+    await this.setSecureItem(
+      `${this.IDENTITY_KEY}_${userId}`,
+      JSON.stringify({ dh: toBase64(keys.dhPrivateKey), signing: toBase64(keys.signingPrivateKey) })
+    );
+  }
+
+  // SecureStore não existe na web; lá as chaves ficam no AsyncStorage
+  private static async getSecureItem(key: string): Promise<string | null> {
+    if (Platform.OS === 'web') return AsyncStorage.getItem(key);
+    return SecureStore.getItemAsync(key);
+  }
+
+  private static async setSecureItem(key: string, value: string): Promise<void> {
+    if (Platform.OS === 'web') {
+      await AsyncStorage.setItem(key, value);
+      return;
+    }
+    await SecureStore.setItemAsync(key, value);
+  }
+
+  private static async deleteSecureItem(key: string): Promise<void> {
+    if (Platform.OS === 'web') {
+      await AsyncStorage.removeItem(key);
+      return;
+    }
+    await SecureStore.deleteItemAsync(key);
+  }
+
+  // ============== APARELHOS ==============
+
+  // Par X25519 próprio de cada instalação, usado para receber as chaves da conta na vinculação
+  private static async ensureDeviceKeys(): Promise<{ privateKey: Uint8Array; publicKey: Uint8Array }> {
+    const stored = await this.getSecureItem(this.DEVICE_KEY);
+    if (stored) {
+      const privateKey = fromBase64(stored);
+      return { privateKey, publicKey: x25519.getPublicKey(privateKey) };
+    }
+
+    const privateKey = ExpoCrypto.getRandomBytes(32);
+    await this.setSecureItem(this.DEVICE_KEY, toBase64(privateKey));
+    return { privateKey, publicKey: x25519.getPublicKey(privateKey) };
+  }
+
+  static async getDevicePublicKey(): Promise<string> {
+    const { publicKey } = await this.ensureDeviceKeys();
+    return toBase64(publicKey);
+  }
+
+  // Aparelho já vinculado: cifra as chaves da conta para a chave pública lida no QR do aparelho novo
+  static async sealIdentityForDevice(userId: string, devicePublicKey: string): Promise<SealedIdentity> {
+    const exported = await this.exportIdentityKeys(userId);
+
+    const ephemeralPrivateKey = ExpoCrypto.getRandomBytes(32);
+    const ephemeralPublicKey = x25519.getPublicKey(ephemeralPrivateKey);
+    const shared = x25519.getSharedSecret(ephemeralPrivateKey, fromBase64(devicePublicKey));
+    const key = hkdf(sha256, shared, utf8ToBytes(userId), utf8ToBytes(this.DEVICE_LINK_INFO), 32);
+    const nonce = ExpoCrypto.getRandomBytes(24);
+
+    const sealed = xchacha20poly1305(key, nonce, utf8ToBytes(devicePublicKey)).encrypt(utf8ToBytes(JSON.stringify(exported)));
+
+    return {
+      sealed_identity: toBase64(sealed),
+      sealed_nonce: toBase64(nonce),
+      sealed_ephemeral_key: toBase64(ephemeralPublicKey),
+    };
+  }
+
+  // Aparelho novo: abre as chaves recebidas e passa a usar a mesma identidade da conta
+  static async openIdentityFromDevice(userId: string, sealed: SealedIdentity): Promise<void> {
+    const device = await this.ensureDeviceKeys();
+    const shared = x25519.getSharedSecret(device.privateKey, fromBase64(sealed.sealed_ephemeral_key));
+    const key = hkdf(sha256, shared, utf8ToBytes(userId), utf8ToBytes(this.DEVICE_LINK_INFO), 32);
+
+    const plaintext = xchacha20poly1305(
+      key,
+      fromBase64(sealed.sealed_nonce),
+      utf8ToBytes(toBase64(device.publicKey))
+    ).decrypt(fromBase64(sealed.sealed_identity));
+
+    await this.importIdentityKeys(userId, JSON.parse(bytesToUtf8(plaintext)));
+  }
+
+  static async exportIdentityKeys(userId: string): Promise<ExportedIdentity> {
+    const identity = await this.ensureIdentityKeys(userId);
+    return {
+      dh: toBase64(identity.dhPrivateKey),
+      signing: toBase64(identity.signingPrivateKey),
+      legacy: await AsyncStorage.getItem(`${this.ENCRYPTION_KEY}_${userId}`),
+    };
+  }
+
+  static async importIdentityKeys(userId: string, exported: ExportedIdentity): Promise<void> {
+    const dhPrivateKey = fromBase64(exported.dh);
+    const signingPrivateKey = fromBase64(exported.signing);
+    const keys: IdentityKeys = {
+      dhPrivateKey,
+      dhPublicKey: x25519.getPublicKey(dhPrivateKey),
+      signingPrivateKey,
+      signingPublicKey: ed25519.getPublicKey(signingPrivateKey),
+    };
+
+    await this.saveIdentityKeys(userId, keys);
+    if (exported.legacy) {
+      await AsyncStorage.setItem(`${this.ENCRYPTION_KEY}_${userId}`, exported.legacy);
+    }
+    this.identityCache.set(userId, keys);
+    Array.from(this.sessionCache.keys())
+      .filter(key => key.includes(`:${userId}:`))
+      .forEach(key => this.sessionCache.delete(key));
+    Array.from(this.peerKeyCache.keys())
+      .filter(key => key.startsWith(`${userId}:`))
+      .forEach(key => this.peerKeyCache.delete(key));
+  }
+
+  // Chave pública X25519 (base64) correspondente a uma identidade exportada
+  static identityPublicKey(exported: ExportedIdentity): string {
+    return toBase64(x25519.getPublicKey(fromBase64(exported.dh)));
+  }
+
+  // ============== SENHA (BACKUP) ==============
+
+  private static readonly PASSPHRASE_KDF = { name: 'scrypt' as const, N: 2 ** 15, r: 8, p: 1 };
+
+  static async encryptWithPassphrase(plaintext: string, passphrase: string, associatedData: string): Promise<PassphraseSealed> {
+    const salt = ExpoCrypto.getRandomBytes(16);
+    const nonce = ExpoCrypto.getRandomBytes(24);
+    const { N, r, p } = this.PASSPHRASE_KDF;
+    const key = await scryptAsync(utf8ToBytes(passphrase), salt, { N, r, p, dkLen: 32 });
+
+    return {
+      kdf: { ...this.PASSPHRASE_KDF, salt: toBase64(salt) },
+      nonce: toBase64(nonce),
+      ciphertext: toBase64(xchacha20poly1305(key, nonce, utf8ToBytes(associatedData)).encrypt(utf8ToBytes(plaintext))),
+    };
+  }
+
+  // Senha errada e arquivo alterado dão o mesmo erro: a tag não confere
+  static async decryptWithPassphrase(sealed: PassphraseSealed, passphrase: string, associatedData: string): Promise<string> {
+    const { N, r, p, salt } = sealed.kdf;
+    const key = await scryptAsync(utf8ToBytes(passphrase), fromBase64(salt), { N, r, p, dkLen: 32 });
+
+    const plaintext = xchacha20poly1305(key, fromBase64(sealed.nonce), utf8ToBytes(associatedData))
+      .decrypt(fromBase64(sealed.ciphertext));
+    return bytesToUtf8(plaintext);
+  }
+
+  // Aparelho revogado: descarta também a chave da instalação
+  static async clearDeviceKeys(): Promise<void> {
+    await this.deleteSecureItem(this.DEVICE_KEY);
+  }
+
+  // ============== CHAVES DE SESSÃO ==============
+
+  // Segredo compartilhado entre duas identidades, separado por conversa
+  private static deriveKey(myPrivateKey: Uint8Array, theirPublicKey: Uint8Array, conversationId: string, label: string): Uint8Array {
+    const shared = x25519.getSharedSecret(myPrivateKey, theirPublicKey);
+    return hkdf(sha256, shared, utf8ToBytes(conversationId), utf8ToBytes(`${this.SESSION_INFO}:${label}`), 32);
+  }
+
+  // 1:1: chave derivada das duas identidades. Grupos: chave aleatória distribuída a cada participante
+  static async getSessionKey(conversationId: string, userId: string, keyId?: string): Promise<SessionKey> {
+    const cacheKey = `${conversationId}:${userId}:${keyId ?? 'current'}`;
+    const cached = this.sessionCache.get(cacheKey);
+    if (cached) return cached;
+
+    const identity = await this.ensureIdentityKeys(userId);
+    const conversation = await this.getConversation(conversationId);
+
+    let session: SessionKey;
+    if (!conversation.is_group) {
+      const otherUserId = conversation.participant_1 === userId ? conversation.participant_2 : conversation.participant_1;
+      const { data: otherProfile } = await chatService.getUserProfile(otherUserId as string);
+      if (!otherProfile?.identity_key) {
+        throw new Error('O contato ainda não publicou suas chaves de criptografia');
+      }
+
+      const theirKey = fromBase64(otherProfile.identity_key);
+      // Mesmo id nos dois lados: hash das duas chaves públicas em ordem
+      const pair = [toBase64(identity.dhPublicKey), otherProfile.identity_key].sort().join('|');
+      session = {
+        keyId: bytesToHex(sha256(utf8ToBytes(pair))).substring(0, 16),
+        key: this.deriveKey(identity.dhPrivateKey, theirKey, conversationId, 'direct'),
+      };
+    } else {
+      session = await this.getGroupSessionKey(conversationId, userId, identity, keyId);
+      // A chave atual de um grupo muda quando os membros mudam: só a chave por id fica em cache,
+      // e a próxima mensagem volta a consultar qual é a mais recente
+      this.sessionCache.set(`${conversationId}:${userId}:${session.keyId}`, session);
+      return session;
+    }
+
+    this.sessionCache.set(cacheKey, session);
+    return session;
+  }
+
+  private static async getConversation(conversationId: string): Promise<Conversation> {
+    const cached = this.conversationCache.get(conversationId);
+    if (cached) return cached;
+
+    const { data: conversation, error } = await chatService.getConversation(conversationId);
+    if (error || !conversation) throw new Error('Conversa não encontrada');
+
+    this.conversationCache.set(conversationId, conversation);
+    return conversation;
+  }
+
+  private static async getGroupSessionKey(
+    conversationId: string,
+    userId: string,
+    identity: IdentityKeys,
+    keyId?: string
+  ): Promise<SessionKey> {
+    let query = supabase
+      .from('conversation_keys')
+      .select('key_id, wrapped_key, nonce, wrapped_by, wrapper:user_profiles!conversation_keys_wrapped_by_fkey(identity_key)')
+      .eq('conversation_id', conversationId)
+      .eq('user_id', userId);
+
+    query = keyId ? query.eq('key_id', keyId) : query.order('created_at', { ascending: false }).limit(1);
+    const { data: rows } = await query;
+    const row: any = rows?.[0];
+
+    if (row) {
+      const cached = this.sessionCache.get(`${conversationId}:${userId}:${row.key_id}`);
+      if (cached) return cached;
+
+      const wrapperKey = row.wrapper?.identity_key;
+      if (!wrapperKey) throw new Error('Chave de quem distribuiu a sessão não encontrada');
+
+      const wrappingKey = this.deriveKey(identity.dhPrivateKey, fromBase64(wrapperKey), conversationId, `wrap:${row.key_id}`);
+      const key = xchacha20poly1305(wrappingKey, fromBase64(row.nonce)).decrypt(fromBase64(row.wrapped_key));
+      return { keyId: row.key_id, key };
+    }
+
+    if (keyId) throw new Error('Chave de sessão indisponível para esta mensagem');
+
+    return this.createGroupSessionKey(conversationId, userId, identity);
+  }
+
+  // Nova chave do grupo após mudança de membros: quem saiu não lê o que vier depois e quem entrou
+  // não recebe as anteriores. Quem está saindo gira a chave antes de sair, sem incluir a si mesmo
+  static async rotateGroupKey(conversationId: string, userId: string, excludeUserId?: string): Promise<void> {
+    const identity = await this.ensureIdentityKeys(userId);
+    this.invalidateSessionKeys(conversationId);
+    await this.createGroupSessionKey(conversationId, userId, identity, excludeUserId);
+  }
+
+  // Gera uma nova chave do grupo e a embrulha para cada participante com chave publicada
+  private static async createGroupSessionKey(
+    conversationId: string,
+    userId: string,
+    identity: IdentityKeys,
+    excludeUserId?: string
+  ): Promise<SessionKey> {
+    const { data: participants, error } = await chatService.getConversationParticipants(conversationId);
+    if (error || !participants) throw new Error('Participantes não encontrados');
+
+    const key = ExpoCrypto.getRandomBytes(32);
+    const keyId = bytesToHex(ExpoCrypto.getRandomBytes(8));
+
+    const rows = participants
+      .filter(p => p.user?.identity_key && p.user_id !== excludeUserId)
+      .map(p => {
+        const nonce = ExpoCrypto.getRandomBytes(24);
+        const wrappingKey = this.deriveKey(identity.dhPrivateKey, fromBase64(p.user!.identity_key!), conversationId, `wrap:${keyId}`);
+        return {
+          conversation_id: conversationId,
+          user_id: p.user_id,
+          key_id: keyId,
+          wrapped_key: toBase64(xchacha20poly1305(wrappingKey, nonce).encrypt(key)),
+          nonce: toBase64(nonce),
+          wrapped_by: userId,
+        };
+      });
+
+    const { error: insertError } = await supabase.from('conversation_keys').insert(rows);
+    if (insertError) throw insertError;
+
+    return { keyId, key };
+  }
+
+  // Descartar chaves de sessão em cache (ex.: participante saiu do grupo)
+  static invalidateSessionKeys(conversationId: string): void {
+    this.conversationCache.delete(conversationId);
+    Array.from(this.sessionCache.keys())
+      .filter(key => key.startsWith(`${conversationId}:`))
+      .forEach(key => this.sessionCache.delete(key));
+  }
+
+  // ============== MENSAGENS ==============
+
+  // Dados associados autenticados: alterar versão, tipo, horário ou conversa invalida a tag
+  private static associatedData(envelope: Omit<EncryptedMessage, 'content' | 'iv'>): Uint8Array {
+    return utf8ToBytes(`${envelope.version}|${envelope.type}|${envelope.timestamp}|${envelope.conversationId}|${envelope.keyId}|${envelope.senderId}`);
+  }
+
+  static async encryptMessage(
+    message: string,
+    userId: string,
+    conversationId: string,
+    messageType: 'text' | 'image' | 'audio' | 'video' = 'text'
+  ): Promise<EncryptedMessage> {
+    try {
+      const session = await this.getSessionKey(conversationId, userId);
+      const nonce = ExpoCrypto.getRandomBytes(24);
+
+      const header = {
+        version: ENVELOPE_VERSION,
         timestamp: Date.now(),
-        type: messageType
+        type: messageType,
+        conversationId,
+        keyId: session.keyId,
+        senderId: userId,
+      };
+
+      const ciphertext = xchacha20poly1305(session.key, nonce, this.associatedData(header)).encrypt(utf8ToBytes(message));
+      const envelope: EncryptedMessage = {
+        ...header,
+        content: toBase64(ciphertext),
+        iv: toBase64(nonce),
       };
+
+      const identity = await this.ensureIdentityKeys(userId);
+      envelope.signingKeyId = this.signingKeyId(identity.signingPublicKey);
+      envelope.signature = toBase64(ed25519.sign(this.signedData(envelope), identity.signingPrivateKey));
+
+      return envelope;
     } catch (error) {
       console.error('[CRYPTO] Erro na criptografia:', error);
       throw new Error('Falha na criptografia da mensagem');
     }
   }
 
-  // Descriptografia básica
   static async decryptMessage(encryptedData: EncryptedMessage, userId: string): Promise<string> {
     try {
-      const key = await this.generateUserKey(userId);
-      
-      // Descriptografia básica
-      const decrypted = this.simpleDecrypt(encryptedData.content, key);
-      return decrypted;
+      return await this.decryptEnvelope(encryptedData, userId);
     } catch (error) {
       console.error('[CRYPTO] Erro na descriptografia:', error);
       return '[Mensagem criptografada - erro na descriptografia]';
     }
   }
 
+  // Verifica a assinatura antes de descriptografar e informa o resultado para a interface.
+  // origin é a linha onde o envelope apareceu: quem a enviou e em qual conversa
+  static async openMessage(
+    encryptedData: EncryptedMessage,
+    userId: string,
+    origin: MessageOrigin
+  ): Promise<OpenedMessage> {
+    // Todo envelope da versão 2 sai assinado; sem assinatura, checkSignature responde false
+    const signed = (encryptedData.version ?? 0) >= ENVELOPE_VERSION;
+
+    // Envelope assinado por outro membro e colado numa linha própria, ou copiado de outra conversa
+    if (!this.matchesOrigin(encryptedData, origin, signed)) {
+      return { status: 'tampered', content: null };
+    }
+
+    if (signed) {
+      const valid = await this.checkSignature(encryptedData);
+      if (valid === false) {
+        return { status: 'tampered', content: null };
+      }
+
+      try {
+        const content = await this.decryptEnvelope(encryptedData, userId);
+        return { status: valid ? 'verified' : 'unsigned', content };
+      } catch (error) {
+        // Assinatura válida: o conteúdo está íntegro, falta a chave certa neste aparelho
+        console.error('[CRYPTO] Erro na descriptografia:', error);
+        return { status: 'undecryptable', content: null };
+      }
+    }
+
+    try {
+      const content = await this.decryptEnvelope(encryptedData, userId);
+      return { status: 'unsigned', content };
+    } catch (error) {
+      console.error('[CRYPTO] Erro na descriptografia:', error);
+      return { status: 'undecryptable', content: null };
+    }
+  }
+
+  // Na versão 2 remetente e conversa são obrigatórios; nos envelopes antigos só valem se presentes
+  private static matchesOrigin(encryptedData: EncryptedMessage, origin: MessageOrigin, required: boolean): boolean {
+    const { senderId, conversationId } = encryptedData;
+    if (required && (!senderId || !conversationId)) return false;
+    if (senderId && senderId !== origin.senderId) return false;
+    if (conversationId && conversationId !== origin.conversationId) return false;
+    return true;
+  }
+
+  // Conteúdo de mensagem que é um envelope cifrado (JSON) em vez de texto puro
+  static parseEnvelope(content: string | null | undefined): EncryptedMessage | null {
+    if (!content || content[0] !== '{') return null;
+
+    try {
+      const parsed = JSON.parse(content);
+      return parsed && typeof parsed.iv === 'string' && typeof parsed.content === 'string' && parsed.timestamp
+        ? parsed
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private static async decryptEnvelope(encryptedData: EncryptedMessage, userId: string): Promise<string> {
+    if (!encryptedData.version || encryptedData.version < ENVELOPE_VERSION) {
+      return this.legacyDecrypt(encryptedData, userId);
+    }
+
+    if (!encryptedData.conversationId) throw new Error('Envelope sem conversa');
+
+    // Em 1:1 a chave é sempre a do par; em grupos, keyId indica qual chave foi distribuída
+    const conversation = await this.getConversation(encryptedData.conversationId);
+    const session = await this.getSessionKey(
+      encryptedData.conversationId,
+      userId,
+      conversation.is_group ? encryptedData.keyId : undefined
+    );
+
+    const plaintext = xchacha20poly1305(
+      session.key,
+      fromBase64(encryptedData.iv),
+      this.associatedData(encryptedData)
+    ).decrypt(fromBase64(encryptedData.content));
+
+    return bytesToUtf8(plaintext);
+  }
+
   // Criptografia para arquivos de mídia
-  static async encryptMedia(base64Data: string, userId: string, mediaType: 'image' | 'audio' | 'video'): Promise<EncryptedMessage> {
-    // Comprimir antes de criptografar para otimização
-    const compressed = this.compressBase64(base64Data);
-    return this.encryptMessage(compressed, userId, mediaType);
+  static async encryptMedia(
+    base64Data: string,
+    userId: string,
+    conversationId: string,
+    mediaType: 'image' | 'audio' | 'video'
+  ): Promise<EncryptedMessage> {
+    return this.encryptMessage(base64Data, userId, conversationId, mediaType);
   }
 
   // Descriptografia para arquivos de mídia
   static async decryptMedia(encryptedData: EncryptedMessage, userId: string): Promise<string> {
-    const decrypted = await this.decryptMessage(encryptedData, userId);
-    return this.decompressBase64(decrypted);
+    return this.decryptMessage(encryptedData, userId);
+  }
+
+  // ============== MÍDIA EM BLOCOS ==============
+
+  // Nonce do bloco: prefixo aleatório + índice + marcador de último bloco (impede reordenar e truncar)
+  private static chunkNonce(prefix: Uint8Array, index: number, isLast: boolean): Uint8Array {
+    const nonce = new Uint8Array(24);
+    nonce.set(prefix, 0);
+    new DataView(nonce.buffer).setUint32(16, index);
+    nonce[23] = isLast ? 1 : 0;
+    return nonce;
+  }
+
+  private static fileKeyData(header: Pick<EncryptedMediaHeader, 'type' | 'conversationId' | 'keyId' | 'senderId' | 'timestamp'>): Uint8Array {
+    return utf8ToBytes(`${header.type}|${header.timestamp}|${header.conversationId}|${header.keyId}|${header.senderId}`);
   }
 
-  // Compressão básica para otimizar mídia
-  private static compressBase64(base64: string): string {
+  // Cifra o arquivo bloco a bloco direto no destino, sem carregar o conteúdo inteiro na memória
+  static async encryptMediaFile(
+    sourceUri: string,
+    destinationUri: string,
+    userId: string,
+    conversationId: string,
+    mediaType: EncryptedMediaHeader['type'],
+    onProgress?: (processedBytes: number, totalBytes: number) => void,
+    fileName?: string
+  ): Promise<EncryptedMediaHeader> {
+    const session = await this.getSessionKey(conversationId, userId);
+    const fileKey = ExpoCrypto.getRandomBytes(32);
+    const fileKeyNonce = ExpoCrypto.getRandomBytes(24);
+    const noncePrefix = ExpoCrypto.getRandomBytes(16);
+
+    const keyInfo = {
+      type: mediaType,
+      conversationId,
+      keyId: session.keyId,
+      senderId: userId,
+      timestamp: Date.now(),
+    };
+    const header: EncryptedMediaHeader = {
+      version: ENVELOPE_VERSION,
+      ...keyInfo,
+      chunkSize: MEDIA_CHUNK_SIZE,
+      noncePrefix: toBase64(noncePrefix),
+      fileKey: toBase64(xchacha20poly1305(session.key, fileKeyNonce, this.fileKeyData(keyInfo)).encrypt(fileKey)),
+      fileKeyNonce: toBase64(fileKeyNonce),
+      fileName,
+    };
+    const headerBytes = utf8ToBytes(JSON.stringify(header));
+
+    const input = new File(sourceUri).open();
+    const destination = new File(destinationUri);
+    destination.create({ overwrite: true });
+    const output = destination.open();
+
     try {
-      return CryptoJS.enc.Base64.stringify(CryptoJS.enc.Utf8.parse(base64));
-    } catch {
-      return base64;
+      const prefix = new Uint8Array(8);
+      prefix.set(utf8ToBytes(MEDIA_MAGIC), 0);
+      new DataView(prefix.buffer).setUint32(4, headerBytes.length);
+      output.writeBytes(prefix);
+      output.writeBytes(headerBytes);
+
+      const totalBytes = input.size ?? 0;
+      let processed = 0;
+      let index = 0;
+
+      // Arquivo vazio ainda gera um bloco final, para o destino nunca ficar sem marcador de fim
+      do {
+        const plaintext = input.readBytes(Math.min(MEDIA_CHUNK_SIZE, totalBytes - processed));
+        processed += plaintext.length;
+        const isLast = processed >= totalBytes;
+
+        const nonce = this.chunkNonce(noncePrefix, index, isLast);
+        output.writeBytes(xchacha20poly1305(fileKey, nonce, headerBytes).encrypt(plaintext));
+        index++;
+
+        onProgress?.(processed, totalBytes);
+        // Devolver o controle à UI entre blocos
+        await new Promise(resolve => setTimeout(resolve, 0));
+      } while (processed < totalBytes);
+    } finally {
+      input.close();
+      output.close();
     }
+
+    return header;
   }
 
-  // Descompressão
-  private static decompressBase64(compressed: string): string {
+  // Arquivos .enc antigos são JSON com o conteúdo em base64
+  static isChunkedMediaFile(uri: string): boolean {
+    const handle = new File(uri).open();
     try {
-      return CryptoJS.enc.Utf8.stringify(CryptoJS.enc.Base64.parse(compressed));
+      return bytesToUtf8(handle.readBytes(4)) === MEDIA_MAGIC;
     } catch {
-      return compressed;
+      return false;
+    } finally {
+      handle.close();
+    }
+  }
+
+  static readMediaHeader(uri: string): EncryptedMediaHeader {
+    const handle = new File(uri).open();
+    try {
+      return this.readHeaderFrom(handle).header;
+    } finally {
+      handle.close();
+    }
+  }
+
+  private static readHeaderFrom(handle: ReturnType<File['open']>): { header: EncryptedMediaHeader; headerBytes: Uint8Array } {
+    const prefix = handle.readBytes(8);
+    if (bytesToUtf8(prefix.subarray(0, 4)) !== MEDIA_MAGIC) {
+      throw new Error('Arquivo de mídia em formato desconhecido');
+    }
+
+    const headerLength = new DataView(prefix.buffer, prefix.byteOffset, prefix.byteLength).getUint32(4);
+    const headerBytes = handle.readBytes(headerLength);
+    return { header: JSON.parse(bytesToUtf8(headerBytes)), headerBytes };
+  }
+
+  // Entrega os blocos já autenticados à medida que são lidos; bloco adulterado ou faltando interrompe com erro
+  static async *decryptMediaChunks(
+    sourceUri: string,
+    userId: string
+  ): AsyncGenerator<{ chunk: Uint8Array; processedBytes: number; totalBytes: number }> {
+    const handle = new File(sourceUri).open();
+
+    try {
+      const { header, headerBytes } = this.readHeaderFrom(handle);
+      const conversation = await this.getConversation(header.conversationId);
+      const session = await this.getSessionKey(
+        header.conversationId,
+        userId,
+        conversation.is_group ? header.keyId : undefined
+      );
+
+      const fileKey = xchacha20poly1305(
+        session.key,
+        fromBase64(header.fileKeyNonce),
+        this.fileKeyData(header)
+      ).decrypt(fromBase64(header.fileKey));
+      const noncePrefix = fromBase64(header.noncePrefix);
+
+      const totalBytes = handle.size ?? 0;
+      let position = handle.offset ?? 8 + headerBytes.length;
+      let index = 0;
+      let isLast = false;
+
+      while (!isLast) {
+        const length = Math.min(header.chunkSize + MEDIA_TAG_SIZE, totalBytes - position);
+        if (length < MEDIA_TAG_SIZE) throw new Error('Arquivo de mídia truncado');
+
+        const ciphertext = handle.readBytes(length);
+        position += length;
+        isLast = position >= totalBytes;
+
+        const nonce = this.chunkNonce(noncePrefix, index, isLast);
+        const chunk = xchacha20poly1305(fileKey, nonce, headerBytes).decrypt(ciphertext);
+        index++;
+
+        yield { chunk, processedBytes: position, totalBytes };
+      }
+    } finally {
+      handle.close();
+    }
+  }
+
+  // Descriptografa para o destino em blocos; onReady permite iniciar a reprodução antes do fim
+  static async decryptMediaFile(
+    sourceUri: string,
+    destinationUri: string,
+    userId: string,
+    options: MediaDecryptOptions = {}
+  ): Promise<void> {
+    const readyAfterBytes = options.readyAfterBytes ?? MEDIA_CHUNK_SIZE * 8;
+    const destination = new File(destinationUri);
+    destination.create({ overwrite: true });
+    const output = destination.open();
+
+    let written = 0;
+    let notified = false;
+
+    try {
+      for await (const { chunk, processedBytes, totalBytes } of this.decryptMediaChunks(sourceUri, userId)) {
+        output.writeBytes(chunk);
+        written += chunk.length;
+        options.onProgress?.(processedBytes, totalBytes);
+
+        if (!notified && written >= readyAfterBytes) {
+          notified = true;
+          options.onReady?.(destinationUri);
+        }
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    } catch (error) {
+      output.close();
+      destination.delete();
+      throw error;
+    }
+
+    output.close();
+    if (!notified) {
+      options.onReady?.(destinationUri);
     }
   }
 
   // Limpar chaves de criptografia (logout/reset)
   static async clearUserKeys(userId: string): Promise<void> {
     await AsyncStorage.removeItem(`${this.ENCRYPTION_KEY}_${userId}`);
+    await this.deleteSecureItem(`${this.IDENTITY_KEY}_${userId}`);
+    this.identityCache.delete(userId);
+    Array.from(this.sessionCache.keys())
+      .filter(key => key.includes(`:${userId}:`))
+      .forEach(key => this.sessionCache.delete(key));
+    Array.from(this.peerKeyCache.keys())
+      .filter(key => key.startsWith(`${userId}:`))
+      .forEach(key => this.peerKeyCache.delete(key));
   }
 
-  // Verificar integridade da mensagem
-  static verifyMessageIntegrity(encryptedData: EncryptedMessage): boolean {
-    const now = Date.now();
-    const messageAge = now - encryptedData.timestamp;
-    
-    // Mensagens mais de 24h são suspeitas
-    if (messageAge > 24 * 60 * 60 * 1000) {
-      console.warn('[CRYPTO] Mensagem muito antiga detectada');
+  // Verificar a assinatura do remetente; vale para mensagens de qualquer idade
+  static async verifyMessageIntegrity(encryptedData: EncryptedMessage): Promise<boolean> {
+    return (await this.checkSignature(encryptedData)) === true;
+  }
+
+  // O id da chave de assinatura também é assinado, quando presente (envelopes anteriores ao histórico não têm)
+  private static signedData(envelope: EncryptedMessage): Uint8Array {
+    const keyId = envelope.signingKeyId ? `|${envelope.signingKeyId}` : '';
+    return utf8ToBytes(`${bytesToUtf8(this.associatedData(envelope))}|${envelope.iv}|${envelope.content}${keyId}`);
+  }
+
+  private static signingKeyId(publicKey: Uint8Array): string {
+    return bytesToHex(sha256(publicKey)).substring(0, 16);
+  }
+
+  // true/false quando dá para verificar; null quando o remetente não tem chave de assinatura publicada
+  private static async checkSignature(encryptedData: EncryptedMessage): Promise<boolean | null> {
+    if (!encryptedData.signature || !encryptedData.senderId) return false;
+
+    const data = this.signedData(encryptedData);
+    // Sem id da chave: envelope anterior ao histórico, verificado com a chave atual do perfil
+    if (!encryptedData.signingKeyId) {
+      return this.verifyFromSender(encryptedData.senderId, data, encryptedData.signature);
+    }
+
+    // Chave usada no envio, mesmo que o remetente já tenha trocado de chave depois
+    const key = await this.getHistoricSigningKey(encryptedData.senderId, encryptedData.signingKeyId);
+    if (!key) return false;
+
+    try {
+      return ed25519.verify(fromBase64(encryptedData.signature), data, key);
+    } catch {
       return false;
     }
+  }
 
-    return true;
+  private static async getHistoricSigningKey(senderId: string, keyId: string): Promise<Uint8Array | null> {
+    const cacheKey = `${senderId}:${keyId}`;
+    const cached = this.signingKeyHistoryCache.get(cacheKey);
+    if (cached) return cached;
+
+    const { data: row } = await supabase
+      .from('signing_keys')
+      .select('signing_key')
+      .eq('user_id', senderId)
+      .eq('key_id', keyId)
+      .maybeSingle();
+    if (!row?.signing_key) return null;
+
+    // O id é o hash da chave: uma linha que não corresponde ao id não é aceita
+    const key = fromBase64(row.signing_key);
+    if (this.signingKeyId(key) !== keyId) return null;
+
+    this.signingKeyHistoryCache.set(cacheKey, key);
+    return key;
   }
 
-  // Métodos auxiliares de criptografia simples
-  private static simpleEncrypt(text: string, key: string): string {
-    const encoded = Buffer.from(text, 'utf8').toString('base64');
-    let result = '';
-    for (let i = 0; i < encoded.length; i++) {
-      result += String.fromCharCode(encoded.charCodeAt(i) ^ key.charCodeAt(i % key.length));
-    }
-    return Buffer.from(result, 'binary').toString('base64');
+  private static async verifyFromSender(senderId: string, data: Uint8Array, signature: string): Promise<boolean | null> {
+    const verify = (key: Uint8Array) => {
+      try {
+        return ed25519.verify(fromBase64(signature), data, key);
+      } catch {
+        return false;
+      }
+    };
+
+    const cached = this.signingKeyCache.get(senderId);
+    if (cached && verify(cached)) return true;
+
+    // Chave em cache pode estar desatualizada (contato trocou de aparelho)
+    const { data: sender } = await chatService.getUserProfile(senderId);
+    if (!sender?.signing_key) return cached ? false : null;
+
+    const key = fromBase64(sender.signing_key);
+    this.signingKeyCache.set(senderId, key);
+    return verify(key);
   }
 
-  private static simpleDecrypt(encrypted: string, key: string): string {
+  // Assinatura de dados fora dos envelopes (ex.: sinalização de chamadas) com a chave Ed25519 da conta
+  static async signData(userId: string, data: string): Promise<string> {
+    const identity = await this.ensureIdentityKeys(userId);
+    return toBase64(ed25519.sign(utf8ToBytes(data), identity.signingPrivateKey));
+  }
+
+  // Remetente sem chave publicada não tem como provar a origem: conta como inválida
+  static async verifyData(senderId: string, data: string, signature: string): Promise<boolean> {
+    return (await this.verifyFromSender(senderId, utf8ToBytes(data), signature)) === true;
+  }
+
+  // Cifra dados fora dos envelopes (ex.: sinalização de chamadas) para outra conta, com a chave
+  // derivada das duas identidades; associatedData amarra o texto cifrado a quem envia e a quem recebe
+  static async sealData(userId: string, recipientId: string, data: string, associatedData: string): Promise<string> {
+    const key = await this.getPeerKey(userId, recipientId);
+    const nonce = ExpoCrypto.getRandomBytes(24);
+    const ciphertext = xchacha20poly1305(key, nonce, utf8ToBytes(associatedData)).encrypt(utf8ToBytes(data));
+    return `${toBase64(nonce)}.${toBase64(ciphertext)}`;
+  }
+
+  static async openData(userId: string, senderId: string, sealed: string, associatedData: string): Promise<string> {
+    const [nonce, ciphertext] = sealed.split('.');
+    if (!nonce || !ciphertext) throw new Error('Dados cifrados inválidos');
+
+    const open = (key: Uint8Array) =>
+      bytesToUtf8(xchacha20poly1305(key, fromBase64(nonce), utf8ToBytes(associatedData)).decrypt(fromBase64(ciphertext)));
+
     try {
-      const decoded = Buffer.from(encrypted, 'base64').toString('binary');
-      let result = '';
-      for (let i = 0; i < decoded.length; i++) {
-        result += String.fromCharCode(decoded.charCodeAt(i) ^ key.charCodeAt(i % key.length));
-      }
-      return Buffer.from(result, 'base64').toString('utf8');
+      return open(await this.getPeerKey(userId, senderId));
     } catch {
-      return '[Erro na descriptografia]';
+      // Chave em cache pode estar desatualizada (contato trocou de aparelho)
+      return open(await this.getPeerKey(userId, senderId, true));
     }
   }
 
-  private static async generateHash(data: string): Promise<string> {
-    // Hash simples usando algoritmo interno
-    let hash = 0;
-    for (let i = 0; i < data.length; i++) {
-      const char = data.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
+  private static async getPeerKey(userId: string, peerId: string, refresh = false): Promise<Uint8Array> {
+    const cacheKey = `${userId}:${peerId}`;
+    const cached = this.peerKeyCache.get(cacheKey);
+    if (cached && !refresh) return cached;
+
+    const identity = await this.ensureIdentityKeys(userId);
+    const { data: peer } = await chatService.getUserProfile(peerId);
+    if (!peer?.identity_key) {
+      throw new Error('O contato ainda não publicou suas chaves de criptografia');
+    }
+
+    // Mesmo contexto nos dois lados: os dois ids em ordem
+    const context = [userId, peerId].sort().join(':');
+    const key = this.deriveKey(identity.dhPrivateKey, fromBase64(peer.identity_key), context, 'data');
+    this.peerKeyCache.set(cacheKey, key);
+    return key;
+  }
+
+  // Envelopes da versão 1 (XOR com chave local) continuam legíveis no aparelho que os criou
+  private static async legacyDecrypt(encryptedData: EncryptedMessage, userId: string): Promise<string> {
+    const key = await AsyncStorage.getItem(`${this.ENCRYPTION_KEY}_${userId}`);
+    if (!key) throw new Error('Chave legada não encontrada');
+
+    const decoded = atob(encryptedData.content);
+    let result = '';
+    for (let i = 0; i < decoded.length; i++) {
+      result += String.fromCharCode(decoded.charCodeAt(i) ^ key.charCodeAt(i % key.length));
     }
-    return Math.abs(hash).toString(16).padStart(8, '0').repeat(4);
+    return bytesToUtf8(fromBase64(result));
   }
 
   // Hash seguro para verificação
   static async generateSecureHash(data: string): Promise<string> {
-    return this.generateHash(data + 'anvic_salt_secure');
+    return bytesToHex(sha256(utf8ToBytes(data)));
   }
 }
 
-export const crypto = new AnvicCrypto();
\ No newline at end of file
+export const crypto = new AnvicCrypto();
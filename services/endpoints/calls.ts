@@ -0,0 +1,85 @@
+import { supabase } from '../supabase';
+import { CallRecord } from '../types';
+
+export const CALL_HISTORY_PAGE_SIZE = 50;
+
+// Do ponto de vista de quem recebeu: chamadas que tocaram (ou deram ocupado) sem atendimento
+export const MISSED_OUTCOMES: CallRecord['outcome'][] = ['missed', 'busy'];
+
+const CALL_SELECT = `
+  *,
+  caller:user_profiles!calls_caller_id_fkey(*),
+  callee:user_profiles!calls_callee_id_fkey(*)
+`;
+
+export interface CallHistoryOptions {
+  missedOnly?: boolean;
+  since?: string; // ISO; só chamadas iniciadas a partir daqui
+  before?: string; // paginação por started_at
+  limit?: number;
+}
+
+export const callHistoryService = {
+  // Upsert pelo id: a mesma chamada pode ser regravada ao terminar
+  async recordCall(record: Omit<CallRecord, 'caller' | 'callee'>) {
+    const { data, error } = await supabase
+      .from('calls')
+      .upsert(record)
+      .select()
+      .single();
+
+    return { data, error };
+  },
+
+  async getCallHistory(
+    userId: string,
+    options: CallHistoryOptions = {}
+  ): Promise<{ data: CallRecord[] | null; error: any }> {
+    let query = supabase.from('calls').select(CALL_SELECT);
+
+    if (options.missedOnly) {
+      query = query.eq('callee_id', userId).in('outcome', MISSED_OUTCOMES);
+    } else {
+      query = query.or(`caller_id.eq.${userId},callee_id.eq.${userId}`);
+    }
+
+    if (options.since) {
+      query = query.gte('started_at', options.since);
+    }
+    if (options.before) {
+      query = query.lt('started_at', options.before);
+    }
+
+    const { data, error } = await query
+      .order('started_at', { ascending: false })
+      .limit(options.limit ?? CALL_HISTORY_PAGE_SIZE);
+
+    return { data, error };
+  },
+
+  // Só as colunas usadas nas estatísticas, sem os perfis
+  async getCallSummaries(
+    userId: string
+  ): Promise<{ data: Pick<CallRecord, 'callee_id' | 'outcome' | 'duration_seconds' | 'started_at'>[] | null; error: any }> {
+    const { data, error } = await supabase
+      .from('calls')
+      .select('callee_id, outcome, duration_seconds, started_at')
+      .or(`caller_id.eq.${userId},callee_id.eq.${userId}`);
+
+    return { data, error };
+  },
+
+  // O servidor envia push de chamada recebida aos aparelhos do destinatário (user_devices.push_token),
+  // para a chamada chegar mesmo com o app fechado; os tokens não ficam visíveis para quem liga
+  async notifyIncomingCall(callId: string, recipientId: string, callType: CallRecord['call_type'], userId: string) {
+    const { error } = await supabase
+      .rpc('notify_incoming_call', {
+        call_id: callId,
+        recipient_id: recipientId,
+        call_type: callType,
+        current_user_id: userId,
+      });
+
+    return { error };
+  },
+};
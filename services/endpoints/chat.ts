@@ -1,5 +1,98 @@
 import { supabase } from '../supabase';
-import { UserProfile, Conversation, Message, UserBlock } from '../types';
+import { UserProfile, Conversation, ConversationParticipant, MediaMetadata, Message, MessageReaction, MessageReceipt, MessageRevision, ParticipantRole, ReceiptStatus, UserBlock } from '../types';
+
+export interface SendMessageOptions {
+  replyToId?: string | null;
+  clientId?: string; // chave de idempotência gerada no cliente
+  mediaUrl?: string | null; // caminho no bucket de mídia
+  mediaMetadata?: MediaMetadata | null;
+}
+
+export type DeleteMode = 'me' | 'everyone';
+
+// Janela para apagar uma mensagem para todos enquanto a configuração do servidor não chega
+export const DELETE_FOR_EVERYONE_WINDOW_MS = 60 * 60 * 1000; // 1 hora
+
+// Janela configurada no servidor, que é quem a aplica; lida uma vez por sessão do app
+let deleteForEveryoneWindowMs: number | null = null;
+
+// Bucket onde o app grava as mídias das conversas (media_url guarda só o caminho)
+const CHAT_MEDIA_BUCKET = 'chat-media';
+
+// Extrai bucket e caminho de uma URL do Supabase Storage (pública ou assinada)
+export const parseStorageUrl = (mediaUrl: string): { bucket: string; path: string } | null => {
+  if (!/^https?:\/\//.test(mediaUrl)) return { bucket: CHAT_MEDIA_BUCKET, path: mediaUrl };
+
+  const match = mediaUrl.match(/\/storage\/v1\/object\/(?:public|sign|authenticated)\/([^/]+)\/([^?]+)/);
+  if (!match) return null;
+  return { bucket: match[1], path: decodeURIComponent(match[2]) };
+};
+
+// O filtro "in" do realtime aceita no máximo 100 valores
+const REALTIME_IN_FILTER_LIMIT = 100;
+
+// Cada assinatura da lista de conversas usa um canal novo: o cliente reaproveita canais com o mesmo nome
+let conversationChannelSeq = 0;
+
+// Tamanho padrão de página do histórico de mensagens
+export const MESSAGE_PAGE_SIZE = 50;
+
+// Cursores de paginação: ids de mensagens já carregadas
+export interface MessagePageOptions {
+  before?: string;
+  after?: string;
+  limit?: number;
+}
+
+export interface MessagePage {
+  data: Message[] | null;
+  hasMoreBefore: boolean;
+  hasMoreAfter: boolean;
+  error: any;
+}
+
+// Abas da galeria da conversa
+export type SharedMediaKind = 'media' | 'files' | 'links' | 'audio';
+
+export const SHARED_MEDIA_PAGE_SIZE = 60;
+
+export interface SharedMediaPage {
+  data: Message[] | null;
+  hasMore: boolean;
+  error: any;
+}
+
+export interface ForwardResult {
+  conversationId: string;
+  status: 'sent' | 'blocked' | 'failed';
+  error?: any;
+}
+
+// Conteúdo e mídia de cada mensagem encaminhada, preparados para a conversa de destino
+export type ForwardPreparer = (
+  source: Message,
+  conversationId: string
+) => Promise<Pick<Message, 'content' | 'media_url' | 'media_metadata'>>;
+
+// Seleção padrão de mensagens: remetente, citação da mensagem respondida, autor original de encaminhamentos, reações e confirmações
+const MESSAGE_SELECT = `
+  *,
+  sender:user_profiles!messages_sender_id_fkey(*),
+  reply_to:messages!messages_reply_to_id_fkey(
+    id,
+    sender_id,
+    content,
+    message_type,
+    created_at,
+    sender:user_profiles!messages_sender_id_fkey(id, full_name, username)
+  ),
+  forwarded_from_sender:user_profiles!messages_forwarded_from_sender_id_fkey(id, full_name, username),
+  reactions:message_reactions(
+    *,
+    user:user_profiles(id, full_name, username)
+  ),
+  receipts:message_receipts(*)
+`;
 
 export const chatService = {
   async getUserProfile(userId: string): Promise<{ data: UserProfile | null; error: any }> {
@@ -49,6 +142,7 @@ export const chatService = {
     let { data: conversation, error } = await supabase
       .from('conversations')
       .select('*')
+      .eq('is_group', false)
       .or(`and(participant_1.eq.${participant1},participant_2.eq.${participant2}),and(participant_1.eq.${participant2},participant_2.eq.${participant1})`)
       .single();
 
@@ -59,6 +153,7 @@ export const chatService = {
         .insert({
           participant_1: participant1,
           participant_2: participant2,
+          is_group: false,
         })
         .select()
         .single();
@@ -69,76 +164,415 @@ export const chatService = {
     return { data: conversation, error };
   },
 
+  // Lista de conversas em uma única chamada: perfil do outro usuário, última mensagem,
+  // não lidas e bloqueio vêm prontos da RPC (grupos inclusos via conversation_participants)
   async getUserConversations(userId: string): Promise<{ data: Conversation[] | null; error: any }> {
+    const { data, error } = await supabase
+      .rpc('get_conversation_summaries', {
+        current_user_id: userId,
+        conversation_ids: null,
+      });
+
+    if (error) return { data: null, error };
+
+    // Conversas com usuários bloqueados ficam fora da lista
+    const conversations = (data || []).filter((conv: Conversation) => !conv.is_blocked);
+    return { data: conversations, error: null };
+  },
+
+  // Resumo de uma conversa, usado para atualizar a lista incrementalmente
+  async getConversationSummary(userId: string, conversationId: string): Promise<{ data: Conversation | null; error: any }> {
+    const { data, error } = await supabase
+      .rpc('get_conversation_summaries', {
+        current_user_id: userId,
+        conversation_ids: [conversationId],
+      });
+
+    if (error) return { data: null, error };
+    return { data: data?.[0] ?? null, error: null };
+  },
+
+  // Conversas em grupo
+  async createGroupConversation(
+    creatorId: string,
+    name: string,
+    memberIds: string[],
+    avatarUrl?: string
+  ): Promise<{ data: Conversation | null; error: any }> {
+    const { data: conversation, error } = await supabase
+      .from('conversations')
+      .insert({
+        is_group: true,
+        name,
+        avatar_url: avatarUrl,
+        created_by: creatorId,
+      })
+      .select()
+      .single();
+
+    if (error || !conversation) return { data: null, error };
+
+    const uniqueMembers = Array.from(new Set(memberIds.filter(id => id !== creatorId)));
+    const { error: participantsError } = await supabase
+      .from('conversation_participants')
+      .insert([
+        { conversation_id: conversation.id, user_id: creatorId, role: 'owner' },
+        ...uniqueMembers.map(id => ({ conversation_id: conversation.id, user_id: id, role: 'member' })),
+      ]);
+
+    if (participantsError) {
+      // Evitar grupos órfãos sem participantes
+      await supabase.from('conversations').delete().eq('id', conversation.id);
+      return { data: null, error: participantsError };
+    }
+
+    return { data: conversation, error: null };
+  },
+
+  async getConversation(conversationId: string): Promise<{ data: Conversation | null; error: any }> {
     const { data, error } = await supabase
       .from('conversations')
       .select(`
         *,
-        messages (
-          id,
-          content,
-          message_type,
-          created_at,
-          sender_id,
-          is_read
+        participants:conversation_participants (
+          *,
+          user:user_profiles(*)
         )
       `)
-      .or(`participant_1.eq.${userId},participant_2.eq.${userId}`)
-      .order('updated_at', { ascending: false });
+      .eq('id', conversationId)
+      .single();
 
-    if (error) return { data: null, error };
+    return { data, error };
+  },
+
+  async getConversationParticipants(conversationId: string): Promise<{ data: ConversationParticipant[] | null; error: any }> {
+    const { data, error } = await supabase
+      .from('conversation_participants')
+      .select(`
+        *,
+        user:user_profiles(*)
+      `)
+      .eq('conversation_id', conversationId)
+      .order('joined_at', { ascending: true });
+
+    return { data, error };
+  },
+
+  async getParticipantRole(conversationId: string, userId: string): Promise<{ data: ParticipantRole | null; error: any }> {
+    const { data, error } = await supabase
+      .from('conversation_participants')
+      .select('role')
+      .eq('conversation_id', conversationId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    return { data: data?.role ?? null, error };
+  },
+
+  async updateGroupInfo(
+    conversationId: string,
+    actorId: string,
+    updates: { name?: string; avatar_url?: string }
+  ): Promise<{ data: Conversation | null; error: any }> {
+    const { data: role } = await this.getParticipantRole(conversationId, actorId);
+    if (role !== 'owner' && role !== 'admin') {
+      return { data: null, error: new Error('Apenas administradores podem editar o grupo') };
+    }
+
+    const { data, error } = await supabase
+      .from('conversations')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', conversationId)
+      .eq('is_group', true)
+      .select()
+      .single();
+
+    return { data, error };
+  },
+
+  async addGroupParticipants(conversationId: string, actorId: string, userIds: string[]) {
+    const { data: role } = await this.getParticipantRole(conversationId, actorId);
+    if (role !== 'owner' && role !== 'admin') {
+      return { data: null, error: new Error('Apenas administradores podem adicionar participantes') };
+    }
+
+    const { data, error } = await supabase
+      .from('conversation_participants')
+      .upsert(
+        userIds.map(id => ({ conversation_id: conversationId, user_id: id, role: 'member' })),
+        { onConflict: 'conversation_id,user_id', ignoreDuplicates: true }
+      )
+      .select();
+
+    return { data, error };
+  },
+
+  async removeGroupParticipant(conversationId: string, actorId: string, userId: string) {
+    const [{ data: actorRole }, { data: targetRole }] = await Promise.all([
+      this.getParticipantRole(conversationId, actorId),
+      this.getParticipantRole(conversationId, userId),
+    ]);
 
-    // Process conversations to add other user info and last message
-    const processedConversations = await Promise.all(
-      (data || []).map(async (conv: any) => {
-        const otherUserId = conv.participant_1 === userId ? conv.participant_2 : conv.participant_1;
-        
-        // Check if users are blocked
-        const { data: isBlocked } = await this.isUserBlocked(userId, otherUserId);
-        if (isBlocked) return null; // Skip blocked conversations
-        
-        // Get other user profile
-        const { data: otherUser } = await this.getUserProfile(otherUserId);
-        
-        // Get last message
-        const lastMessage = conv.messages && conv.messages.length > 0 
-          ? conv.messages.sort((a: any, b: any) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0]
-          : null;
-
-        // Count unread messages
-        const unreadCount = conv.messages 
-          ? conv.messages.filter((msg: any) => msg.sender_id !== userId && !msg.is_read).length
-          : 0;
+    // Owner remove qualquer um; admin remove apenas membros
+    const canRemove = actorRole === 'owner'
+      ? targetRole !== 'owner'
+      : actorRole === 'admin' && targetRole === 'member';
 
+    if (!canRemove) {
+      return { error: new Error('Sem permissão para remover este participante') };
+    }
+
+    const { error } = await supabase
+      .from('conversation_participants')
+      .delete()
+      .eq('conversation_id', conversationId)
+      .eq('user_id', userId);
+
+    return { error };
+  },
+
+  async updateParticipantRole(conversationId: string, actorId: string, userId: string, role: ParticipantRole) {
+    const { data: actorRole } = await this.getParticipantRole(conversationId, actorId);
+    if (actorRole !== 'owner' || role === 'owner') {
+      return { error: new Error('Apenas o dono do grupo pode alterar funções') };
+    }
+
+    const { error } = await supabase
+      .from('conversation_participants')
+      .update({ role })
+      .eq('conversation_id', conversationId)
+      .eq('user_id', userId);
+
+    return { error };
+  },
+
+  async leaveGroup(conversationId: string, userId: string) {
+    const { data: participants, error: fetchError } = await this.getConversationParticipants(conversationId);
+    if (fetchError) return { error: fetchError };
+
+    const me = participants?.find(p => p.user_id === userId);
+    if (!me) return { error: null };
+
+    const remaining = (participants || []).filter(p => p.user_id !== userId);
+
+    // Transferir a posse do grupo antes de sair: admin mais antigo, senão membro mais antigo
+    if (me.role === 'owner' && remaining.length > 0) {
+      const successor = remaining.find(p => p.role === 'admin') || remaining[0];
+      const { error: transferError } = await supabase
+        .from('conversation_participants')
+        .update({ role: 'owner' })
+        .eq('conversation_id', conversationId)
+        .eq('user_id', successor.user_id);
+
+      if (transferError) return { error: transferError };
+    }
+
+    const { error } = await supabase
+      .from('conversation_participants')
+      .delete()
+      .eq('conversation_id', conversationId)
+      .eq('user_id', userId);
+
+    // Último participante saiu: remover o grupo
+    if (!error && remaining.length === 0) {
+      await supabase.from('conversations').delete().eq('id', conversationId);
+    }
+
+    return { error };
+  },
+
+  // Página do histórico em ordem cronológica. Sem cursor, retorna as mensagens mais recentes
+  async getConversationMessages(
+    conversationId: string,
+    viewerId?: string,
+    options: MessagePageOptions = {}
+  ): Promise<MessagePage> {
+    const limit = options.limit ?? MESSAGE_PAGE_SIZE;
+    const cursorId = options.after ?? options.before;
+    const direction = options.after ? 'after' : 'before';
+
+    let cursor: { id: string; created_at: string } | null = null;
+    if (cursorId) {
+      const { data, error: cursorError } = await supabase
+        .from('messages')
+        .select('id, created_at')
+        .eq('id', cursorId)
+        .single();
+
+      if (cursorError || !data) {
+        return { data: null, hasMoreBefore: false, hasMoreAfter: false, error: cursorError };
+      }
+      cursor = data;
+    }
+
+    const { data: hiddenIds } = viewerId
+      ? await this.getHiddenMessageIds(conversationId, viewerId)
+      : { data: new Set<string>() };
+
+    // Uma página inteira apagada "para mim" voltaria vazia com o mesmo cursor: segue para a próxima
+    // até achar mensagens visíveis ou chegar ao fim do histórico
+    for (;;) {
+      let query = supabase
+        .from('messages')
+        .select(MESSAGE_SELECT)
+        .eq('conversation_id', conversationId);
+
+      if (cursor) {
+        // Desempate por id para mensagens com o mesmo created_at
+        query = direction === 'after'
+          ? query.or(`created_at.gt.${cursor.created_at},and(created_at.eq.${cursor.created_at},id.gt.${cursor.id})`)
+          : query.or(`created_at.lt.${cursor.created_at},and(created_at.eq.${cursor.created_at},id.lt.${cursor.id})`);
+      }
+
+      // Uma linha extra indica se há mais mensagens nessa direção
+      const { data, error } = await query
+        .order('created_at', { ascending: direction === 'after' })
+        .order('id', { ascending: direction === 'after' })
+        .limit(limit + 1);
+
+      if (error || !data) return { data: null, hasMoreBefore: false, hasMoreAfter: false, error };
+
+      const hasMore = data.length > limit;
+      const page: Message[] = data.slice(0, limit);
+      const visible = page.filter(m => !hiddenIds.has(m.id));
+
+      if (visible.length > 0 || !hasMore) {
+        if (direction === 'before') visible.reverse();
         return {
-          ...conv,
-          other_user: otherUser,
-          last_message: lastMessage,
-          unread_count: unreadCount,
+          data: visible,
+          hasMoreBefore: direction === 'before' ? hasMore : true,
+          hasMoreAfter: direction === 'after' ? hasMore : !!cursorId,
+          error: null,
         };
-      })
-    );
+      }
 
-    // Filter out null values (blocked conversations)
-    const filteredConversations = processedConversations.filter(conv => conv !== null);
+      const last = page[page.length - 1];
+      cursor = { id: last.id, created_at: last.created_at };
+    }
+  },
 
-    return { data: filteredConversations, error: null };
+  // Janela do histórico centrada em uma mensagem (pular para mensagem)
+  async getMessagesAround(
+    conversationId: string,
+    messageId: string,
+    viewerId?: string,
+    limit: number = MESSAGE_PAGE_SIZE
+  ): Promise<MessagePage> {
+    const { data: target, error } = await this.getMessage(messageId);
+    if (error || !target || target.conversation_id !== conversationId) {
+      return { data: null, hasMoreBefore: false, hasMoreAfter: false, error: error || new Error('Mensagem não encontrada') };
+    }
+
+    const half = Math.floor(limit / 2);
+    const [older, newer] = await Promise.all([
+      this.getConversationMessages(conversationId, viewerId, { before: messageId, limit: half }),
+      this.getConversationMessages(conversationId, viewerId, { after: messageId, limit: half }),
+    ]);
+
+    if (older.error || newer.error) {
+      return { data: null, hasMoreBefore: false, hasMoreAfter: false, error: older.error || newer.error };
+    }
+
+    return {
+      data: [...(older.data || []), target, ...(newer.data || [])],
+      hasMoreBefore: older.hasMoreBefore,
+      hasMoreAfter: newer.hasMoreAfter,
+      error: null,
+    };
   },
 
-  async getConversationMessages(conversationId: string): Promise<{ data: Message[] | null; error: any }> {
-    const { data, error } = await supabase
+  // Mídias, arquivos, áudios ou links da conversa, dos mais recentes para os mais antigos
+  async getSharedMedia(
+    conversationId: string,
+    kind: SharedMediaKind,
+    viewerId?: string,
+    options: { before?: string; limit?: number } = {}
+  ): Promise<SharedMediaPage> {
+    const limit = options.limit ?? SHARED_MEDIA_PAGE_SIZE;
+
+    let query = supabase
       .from('messages')
-      .select(`
-        *,
-        sender:user_profiles(*)
-      `)
+      .select(MESSAGE_SELECT)
       .eq('conversation_id', conversationId)
-      .order('created_at', { ascending: true });
+      .is('deleted_at', null);
+
+    if (kind === 'links') {
+      // Mensagens cifradas não são pesquisáveis no servidor; só texto aberto entra aqui
+      query = query.eq('message_type', 'text').or('content.ilike.%http://%,content.ilike.%https://%');
+    } else {
+      const types = kind === 'media' ? ['image', 'video'] : kind === 'files' ? ['file'] : ['audio'];
+      query = query.in('message_type', types).not('media_url', 'is', null);
+    }
+
+    if (options.before) {
+      query = query.lt('created_at', options.before);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(limit + 1);
+
+    if (error || !data) return { data: null, hasMore: false, error };
+
+    const visible = await this.filterHiddenMessages(data.slice(0, limit), conversationId, viewerId);
+    return { data: visible, hasMore: data.length > limit, error: null };
+  },
+
+  // Janela do histórico a partir da primeira mensagem enviada na data (ou a última antes dela)
+  async getMessagesAroundDate(
+    conversationId: string,
+    date: Date,
+    viewerId?: string,
+    limit: number = MESSAGE_PAGE_SIZE
+  ): Promise<MessagePage & { targetId: string | null }> {
+    const timestamp = date.toISOString();
+
+    const { data: firstAfter } = await supabase
+      .from('messages')
+      .select('id')
+      .eq('conversation_id', conversationId)
+      .gte('created_at', timestamp)
+      .order('created_at', { ascending: true })
+      .limit(1);
+
+    let targetId: string | null = firstAfter?.[0]?.id ?? null;
+
+    if (!targetId) {
+      const { data: lastBefore } = await supabase
+        .from('messages')
+        .select('id')
+        .eq('conversation_id', conversationId)
+        .lt('created_at', timestamp)
+        .order('created_at', { ascending: false })
+        .limit(1);
+      targetId = lastBefore?.[0]?.id ?? null;
+    }
+
+    if (!targetId) {
+      return { data: [], hasMoreBefore: false, hasMoreAfter: false, error: null, targetId: null };
+    }
+
+    const page = await this.getMessagesAround(conversationId, targetId, viewerId, limit);
+    return { ...page, targetId };
+  },
+
+  async getMessage(messageId: string): Promise<{ data: Message | null; error: any }> {
+    const { data, error } = await supabase
+      .from('messages')
+      .select(MESSAGE_SELECT)
+      .eq('id', messageId)
+      .single();
 
     return { data, error };
   },
 
-  async sendMessage(conversationId: string, senderId: string, content: string, messageType: string = 'text') {
+  async sendMessage(
+    conversationId: string,
+    senderId: string,
+    content: string,
+    messageType: string = 'text',
+    options: SendMessageOptions = {}
+  ) {
     const { data, error } = await supabase
       .from('messages')
       .insert({
@@ -146,13 +580,26 @@ export const chatService = {
         sender_id: senderId,
         content,
         message_type: messageType,
+        reply_to_id: options.replyToId ?? null,
+        client_id: options.clientId ?? null,
+        media_url: options.mediaUrl ?? null,
+        media_metadata: options.mediaMetadata ?? null,
       })
-      .select(`
-        *,
-        sender:user_profiles(*)
-      `)
+      .select(MESSAGE_SELECT)
       .single();
 
+    // Reenvio de uma mensagem que já chegou ao servidor: devolver a existente
+    if (error?.code === '23505' && options.clientId) {
+      const { data: existing, error: existingError } = await supabase
+        .from('messages')
+        .select(MESSAGE_SELECT)
+        .eq('sender_id', senderId)
+        .eq('client_id', options.clientId)
+        .single();
+
+      return { data: existing, error: existingError };
+    }
+
     // Update conversation timestamp
     if (!error) {
       await supabase
@@ -164,16 +611,336 @@ export const chatService = {
     return { data, error };
   },
 
-  async markMessagesAsRead(conversationId: string, userId: string) {
+  async editMessage(messageId: string, editorId: string, newContent: string): Promise<{ data: Message | null; error: any }> {
+    const { data: current, error: fetchError } = await supabase
+      .from('messages')
+      .select('id, sender_id, content, message_type, deleted_at')
+      .eq('id', messageId)
+      .single();
+
+    if (fetchError || !current) return { data: null, error: fetchError };
+
+    if (current.sender_id !== editorId) {
+      return { data: null, error: new Error('Apenas o remetente pode editar a mensagem') };
+    }
+    if (current.deleted_at) {
+      return { data: null, error: new Error('Mensagem apagada não pode ser editada') };
+    }
+    if (current.message_type !== 'text') {
+      return { data: null, error: new Error('Apenas mensagens de texto podem ser editadas') };
+    }
+    if (current.content === newContent) {
+      return this.getMessage(messageId);
+    }
+
+    // O servidor repete as verificações e, numa só transação, guarda a versão anterior como revisão
+    // e grava o novo conteúdo
     const { error } = await supabase
+      .rpc('edit_message', {
+        message_id: messageId,
+        current_user_id: editorId,
+        new_content: newContent
+      });
+
+    if (error) return { data: null, error };
+
+    return this.getMessage(messageId);
+  },
+
+  async getMessageRevisions(messageId: string): Promise<{ data: MessageRevision[] | null; error: any }> {
+    const { data, error } = await supabase
+      .from('message_revisions')
+      .select(`
+        *,
+        editor:user_profiles(id, full_name, username)
+      `)
+      .eq('message_id', messageId)
+      .order('created_at', { ascending: false });
+
+    return { data, error };
+  },
+
+  // Encaminhar uma ou mais mensagens para várias conversas de uma vez; prepare gera o conteúdo
+  // de cada destino (mensagens cifradas e mídia não podem ser reaproveitadas entre conversas)
+  async forwardMessages(
+    messageIds: string[],
+    senderId: string,
+    targetConversationIds: string[],
+    prepare: ForwardPreparer
+  ): Promise<{ data: ForwardResult[]; error: any }> {
+    const { data: sourceMessages, error: fetchError } = await supabase
       .from('messages')
-      .update({ is_read: true })
-      .eq('conversation_id', conversationId)
-      .neq('sender_id', userId);
+      .select('*')
+      .in('id', messageIds)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: true });
+
+    if (fetchError) return { data: [], error: fetchError };
+    if (!sourceMessages || sourceMessages.length === 0) {
+      return { data: [], error: new Error('Nenhuma mensagem disponível para encaminhar') };
+    }
+
+    const results = await Promise.all(
+      targetConversationIds.map(async (conversationId): Promise<ForwardResult> => {
+        const { data: conversation, error: conversationError } = await supabase
+          .from('conversations')
+          .select('id, is_group, participant_1, participant_2')
+          .eq('id', conversationId)
+          .single();
+
+        if (conversationError || !conversation) {
+          return { conversationId, status: 'failed', error: conversationError };
+        }
+
+        if (!conversation.is_group) {
+          const otherUserId = conversation.participant_1 === senderId
+            ? conversation.participant_2
+            : conversation.participant_1;
+          const { data: isBlocked } = await this.isUserBlocked(senderId, otherUserId);
+          if (isBlocked) return { conversationId, status: 'blocked' };
+        }
+
+        let rows;
+        try {
+          rows = await Promise.all(
+            sourceMessages.map(async (source: Message) => ({
+              ...(await prepare(source, conversationId)),
+              conversation_id: conversationId,
+              sender_id: senderId,
+              message_type: source.message_type,
+              // Encaminhamentos em cadeia mantêm o autor original
+              forwarded_from_message_id: source.forwarded_from_message_id ?? source.id,
+              forwarded_from_sender_id: source.forwarded_from_sender_id ?? source.sender_id,
+            }))
+          );
+        } catch (prepareError) {
+          return { conversationId, status: 'failed', error: prepareError };
+        }
+
+        const { error: insertError } = await supabase.from('messages').insert(rows);
+
+        if (insertError) return { conversationId, status: 'failed', error: insertError };
+
+        await supabase
+          .from('conversations')
+          .update({ updated_at: new Date().toISOString() })
+          .eq('id', conversationId);
+
+        return { conversationId, status: 'sent' };
+      })
+    );
+
+    return { data: results, error: null };
+  },
+
+  async getDeleteForEveryoneWindow(): Promise<number> {
+    if (deleteForEveryoneWindowMs !== null) return deleteForEveryoneWindowMs;
+
+    const { data, error } = await supabase.rpc('get_delete_for_everyone_window');
+    if (error || typeof data !== 'number') {
+      console.error('Erro ao ler o prazo para apagar para todos:', error);
+      return DELETE_FOR_EVERYONE_WINDOW_MS;
+    }
+
+    deleteForEveryoneWindowMs = data * 1000; // o servidor guarda em segundos
+    return deleteForEveryoneWindowMs;
+  },
+
+  // Apagar para todos: o servidor confere remetente e prazo e, numa só transação, deixa a linha como
+  // tombstone e remove revisões e reações. A mídia sai do storage a menos que outra mensagem ainda
+  // aponte para o mesmo arquivo (encaminhamentos antigos não tinham cópia própria)
+  async deleteMessageForEveryone(messageId: string, userId: string): Promise<{ data: Message | null; error: any }> {
+    const { data: current, error: fetchError } = await supabase
+      .from('messages')
+      .select('id, sender_id, media_url, created_at, deleted_at')
+      .eq('id', messageId)
+      .single();
+
+    if (fetchError || !current) return { data: null, error: fetchError };
+
+    if (current.sender_id !== userId) {
+      return { data: null, error: new Error('Apenas o remetente pode apagar para todos') };
+    }
+    if (!this.canDeleteForEveryone(current.created_at, await this.getDeleteForEveryoneWindow())) {
+      return { data: null, error: new Error('O prazo para apagar para todos expirou') };
+    }
+    if (current.deleted_at) {
+      return this.getMessage(messageId);
+    }
+
+    const { error: deleteError } = await supabase
+      .rpc('delete_message_for_everyone', {
+        message_id: messageId,
+        current_user_id: userId
+      });
+
+    if (deleteError) return { data: null, error: deleteError };
+
+    if (current.media_url) {
+      const { count: sharedCount, error: sharedError } = await supabase
+        .from('messages')
+        .select('id', { count: 'exact', head: true })
+        .eq('media_url', current.media_url)
+        .neq('id', messageId)
+        .is('deleted_at', null);
+
+      // Na dúvida, o arquivo fica: perder a mídia de outra conversa é pior que deixar um órfão
+      const location = sharedError || sharedCount ? null : parseStorageUrl(current.media_url);
+      if (location) {
+        const { error: storageError } = await supabase.storage.from(location.bucket).remove([location.path]);
+        if (storageError) {
+          console.error('Erro ao remover mídia do storage:', storageError);
+        }
+      }
+    }
+
+    return this.getMessage(messageId);
+  },
+
+  canDeleteForEveryone(createdAt: string, windowMs: number = DELETE_FOR_EVERYONE_WINDOW_MS): boolean {
+    return Date.now() - new Date(createdAt).getTime() <= windowMs;
+  },
+
+  // Reações
+  async addReaction(messageId: string, conversationId: string, userId: string, emoji: string): Promise<{ data: MessageReaction | null; error: any }> {
+    const { data, error } = await supabase
+      .from('message_reactions')
+      .upsert(
+        { message_id: messageId, conversation_id: conversationId, user_id: userId, emoji },
+        { onConflict: 'message_id,user_id,emoji' }
+      )
+      .select('*, user:user_profiles(id, full_name, username)')
+      .single();
+
+    return { data, error };
+  },
+
+  async removeReaction(messageId: string, userId: string, emoji: string) {
+    const { error } = await supabase
+      .from('message_reactions')
+      .delete()
+      .eq('message_id', messageId)
+      .eq('user_id', userId)
+      .eq('emoji', emoji);
+
+    return { error };
+  },
+
+  async getMessageReactions(messageIds: string[]): Promise<{ data: MessageReaction[] | null; error: any }> {
+    if (messageIds.length === 0) return { data: [], error: null };
+
+    const { data, error } = await supabase
+      .from('message_reactions')
+      .select('*, user:user_profiles(id, full_name, username)')
+      .in('message_id', messageIds)
+      .order('created_at', { ascending: true });
+
+    return { data, error };
+  },
+
+  // Apagar para mim: apenas oculta a mensagem para este usuário
+  async deleteMessageForMe(messageId: string, userId: string) {
+    const { error } = await supabase
+      .from('hidden_messages')
+      .upsert(
+        { message_id: messageId, user_id: userId },
+        { onConflict: 'message_id,user_id', ignoreDuplicates: true }
+      );
 
     return { error };
   },
 
+  // Remover mensagens que o usuário apagou apenas para si
+  async filterHiddenMessages(messages: Message[], conversationId: string, viewerId?: string): Promise<Message[]> {
+    if (!viewerId || messages.length === 0) return messages;
+
+    const { data: hiddenIds } = await this.getHiddenMessageIds(conversationId, viewerId);
+    return messages.filter(m => !hiddenIds.has(m.id));
+  },
+
+  async getHiddenMessageIds(conversationId: string, userId: string): Promise<{ data: Set<string>; error: any }> {
+    const { data, error } = await supabase
+      .from('hidden_messages')
+      .select('message_id, messages!inner(conversation_id)')
+      .eq('user_id', userId)
+      .eq('messages.conversation_id', conversationId);
+
+    return { data: new Set((data || []).map((row: any) => row.message_id)), error };
+  },
+
+  // Confirmações de entrega e leitura
+  async markMessagesAsDelivered(conversationId: string, userId: string, messageIds: string[]) {
+    if (messageIds.length === 0) return { error: null };
+
+    // ignoreDuplicates: não sobrescrever confirmações que já existem
+    const { error } = await supabase
+      .from('message_receipts')
+      .upsert(
+        messageIds.map(messageId => ({
+          message_id: messageId,
+          conversation_id: conversationId,
+          user_id: userId,
+          delivered_at: new Date().toISOString(),
+        })),
+        { onConflict: 'message_id,user_id', ignoreDuplicates: true }
+      );
+
+    return { error };
+  },
+
+  // Sem sendReceipt, só a última leitura privada é atualizada (zera o contador de não lidas)
+  async markMessagesAsRead(conversationId: string, userId: string, messageIds: string[], sendReceipt: boolean = true) {
+    const now = new Date().toISOString();
+
+    const { error: readError } = await supabase
+      .from('conversation_reads')
+      .upsert(
+        { conversation_id: conversationId, user_id: userId, last_read_at: now },
+        { onConflict: 'conversation_id,user_id' }
+      );
+
+    if (readError) return { error: readError };
+
+    const { error: deliveredError } = await this.markMessagesAsDelivered(conversationId, userId, messageIds);
+    if (deliveredError || !sendReceipt || messageIds.length === 0) return { error: deliveredError };
+
+    const { error } = await supabase
+      .from('message_receipts')
+      .update({ read_at: now })
+      .eq('user_id', userId)
+      .in('message_id', messageIds)
+      .is('read_at', null);
+
+    return { error };
+  },
+
+  // Status para o remetente: em grupos, só conta como entregue/lida quando todos os destinatários confirmaram
+  getReceiptStatus(message: Message, recipientCount: number = 1): ReceiptStatus {
+    const receipts = (message.receipts || []).filter((r: MessageReceipt) => r.user_id !== message.sender_id);
+    const expected = Math.max(recipientCount, 1);
+
+    if (receipts.filter(r => r.read_at).length >= expected) return 'read';
+    if (receipts.filter(r => r.delivered_at).length >= expected) return 'delivered';
+    return 'sent';
+  },
+
+  subscribeToReceipts(conversationId: string, callback: (payload: any) => void) {
+    return supabase
+      .channel(`message_receipts:${conversationId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'message_receipts',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        callback
+      )
+      .subscribe();
+  },
+
+  // Recebe INSERT, UPDATE (edições e tombstones) e DELETE; use payload.eventType para distinguir
   subscribeToMessages(conversationId: string, callback: (payload: any) => void) {
     return supabase
       .channel(`messages:${conversationId}`)
@@ -187,19 +954,125 @@ export const chatService = {
         },
         callback
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        callback
+      )
+      // O Realtime não aplica filtros em DELETE; o consumidor ignora ids que não conhece
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'messages',
+        },
+        callback
+      )
       .subscribe();
   },
 
-  subscribeToConversations(userId: string, callback: (payload: any) => void) {
+  // INSERT traz a reação completa; DELETE só traz o id (sem filtro, como em subscribeToMessages)
+  subscribeToReactions(conversationId: string, callback: (payload: any) => void) {
     return supabase
-      .channel(`conversations:${userId}`)
+      .channel(`message_reactions:${conversationId}`)
       .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'message_reactions',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        callback
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'message_reactions',
+        },
+        callback
+      )
+      .subscribe();
+  },
+
+  // Sincroniza "apagar para mim" entre os dispositivos do usuário
+  subscribeToHiddenMessages(userId: string, callback: (payload: any) => void) {
+    return supabase
+      .channel(`hidden_messages:${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'hidden_messages',
+          filter: `user_id=eq.${userId}`,
+        },
+        callback
+      )
+      .subscribe();
+  },
+
+  // Mudanças nas conversas do usuário (1:1 e grupos). O filtro do realtime não alcança a tabela de
+  // participantes, então as conversas já conhecidas são filtradas por id; conversas novas chegam como
+  // INSERT (1:1) ou pela tabela conversation_participants (grupos) e a tela assina de novo com a lista atualizada
+  subscribeToConversations(userId: string, conversationIds: string[], callback: (payload: any) => void) {
+    let channel = supabase.channel(`conversations:${userId}:${++conversationChannelSeq}`);
+
+    for (let i = 0; i < conversationIds.length; i += REALTIME_IN_FILTER_LIMIT) {
+      const ids = conversationIds.slice(i, i + REALTIME_IN_FILTER_LIMIT);
+      channel = channel.on(
         'postgres_changes',
         {
           event: '*',
           schema: 'public',
           table: 'conversations',
-          filter: `or(participant_1.eq.${userId},participant_2.eq.${userId})`,
+          filter: `id=in.(${ids.join(',')})`,
+        },
+        callback
+      );
+    }
+
+    // Conversas 1:1 novas não passam por conversation_participants
+    for (const column of ['participant_1', 'participant_2']) {
+      channel = channel.on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'conversations',
+          filter: `${column}=eq.${userId}`,
+        },
+        callback
+      );
+    }
+
+    return channel
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'conversation_participants',
+          filter: `user_id=eq.${userId}`,
+        },
+        callback
+      )
+      // Leituras em outro dispositivo ou na tela do chat zeram o contador de não lidas
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'conversation_reads',
+          filter: `user_id=eq.${userId}`,
         },
         callback
       )
@@ -0,0 +1,68 @@
+import { AnvicCrypto } from './encryption';
+import { chatService, ForwardResult } from './endpoints/chat';
+import { mediaService } from './media';
+import { mediaStorageService } from './media-storage';
+import { Message } from './types';
+
+// Encaminhamento com conteúdo próprio em cada conversa de destino: o texto é cifrado com a chave
+// do destino (envelopes são abertos antes), e a mídia ganha uma cópia independente da original
+class ForwardingService {
+  async forwardMessages(
+    messageIds: string[],
+    senderId: string,
+    targetConversationIds: string[]
+  ): Promise<{ data: ForwardResult[]; error: any }> {
+    return chatService.forwardMessages(messageIds, senderId, targetConversationIds, (source, conversationId) =>
+      this.prepare(source, conversationId, senderId)
+    );
+  }
+
+  private async prepare(
+    source: Message,
+    conversationId: string,
+    userId: string
+  ): Promise<Pick<Message, 'content' | 'media_url' | 'media_metadata'>> {
+    let content = source.content;
+    const envelope = AnvicCrypto.parseEnvelope(source.content);
+    if (envelope) {
+      // Mensagem adulterada não é repassada adiante com a assinatura de quem encaminha
+      const opened = await AnvicCrypto.openMessage(envelope, userId, {
+        senderId: source.sender_id,
+        conversationId: source.conversation_id,
+      });
+      if (opened.content === null || opened.status === 'tampered') {
+        throw new Error('Não foi possível abrir a mensagem para encaminhar');
+      }
+      content = JSON.stringify(await AnvicCrypto.encryptMessage(opened.content, userId, conversationId, envelope.type));
+    } else {
+      // Texto ou rótulo de mídia anterior à criptografia padrão também chega cifrado no destino
+      content = JSON.stringify(await AnvicCrypto.encryptMessage(source.content, userId, conversationId, 'text'));
+    }
+
+    let mediaUrl = source.media_url;
+    if (mediaUrl && source.message_type !== 'text') {
+      const { data, error } = await mediaStorageService.copyToConversation(
+        mediaUrl,
+        conversationId,
+        userId,
+        source.message_type
+      );
+      if (error || !data) throw error || new Error('Não foi possível copiar a mídia');
+      mediaUrl = data.path;
+    }
+
+    // A prévia cifrada também é presa à conversa de origem
+    let mediaMetadata = source.media_metadata;
+    if (mediaMetadata?.sealed_preview && source.message_type !== 'text' && source.message_type !== 'file') {
+      const preview = await mediaService.openPreview(source, userId);
+      mediaMetadata = {
+        ...mediaMetadata,
+        sealed_preview: await mediaService.sealPreview(preview, source.message_type, userId, conversationId),
+      };
+    }
+
+    return { content, media_url: mediaUrl, media_metadata: mediaMetadata };
+  }
+}
+
+export const forwardingService = new ForwardingService();
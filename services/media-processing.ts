@@ -0,0 +1,76 @@
+import * as FileSystem from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { Image } from 'expo-image';
+import { MediaMetadata } from './types';
+
+export interface ProcessedImage {
+  uri: string;
+  size?: number;
+  metadata: MediaMetadata;
+}
+
+interface ImageProfile {
+  maxDimension: number;
+  compress: number;
+}
+
+class MediaProcessingService {
+  // "Imagens em alta qualidade" nas configurações escolhe o perfil
+  private static readonly HIGH_QUALITY: ImageProfile = { maxDimension: 2560, compress: 0.85 };
+  private static readonly STANDARD_QUALITY: ImageProfile = { maxDimension: 1280, compress: 0.7 };
+  private static readonly THUMBNAIL_DIMENSION = 64;
+  private static readonly BLURHASH_COMPONENTS: [number, number] = [4, 3];
+
+  // Redimensiona, recomprime e gera o blurhash usado enquanto a imagem carrega.
+  // Reescrever o JPEG descarta os metadados EXIF (inclusive GPS) da foto original.
+  async processImage(
+    uri: string,
+    width: number,
+    height: number,
+    options: { highQuality: boolean; includePreview: boolean }
+  ): Promise<ProcessedImage> {
+    const profile = options.highQuality
+      ? MediaProcessingService.HIGH_QUALITY
+      : MediaProcessingService.STANDARD_QUALITY;
+
+    const context = ImageManipulator.manipulate(uri);
+    const largestSide = Math.max(width, height);
+    if (largestSide > profile.maxDimension) {
+      context.resize(width >= height ? { width: profile.maxDimension } : { height: profile.maxDimension });
+    }
+
+    const image = await context.renderAsync();
+    const result = await image.saveAsync({ compress: profile.compress, format: SaveFormat.JPEG });
+
+    const info = await FileSystem.getInfoAsync(result.uri);
+    const blurhash = options.includePreview ? await this.generateBlurhash(result.uri, result.width, result.height) : null;
+
+    return {
+      uri: result.uri,
+      size: info.exists ? info.size : undefined,
+      metadata: { width: result.width, height: result.height, blurhash },
+    };
+  }
+
+  // Calculado sobre uma miniatura: o blurhash da imagem inteira seria lento e o resultado é o mesmo
+  private async generateBlurhash(uri: string, width: number, height: number): Promise<string | null> {
+    try {
+      const context = ImageManipulator.manipulate(uri);
+      context.resize(
+        width >= height
+          ? { width: MediaProcessingService.THUMBNAIL_DIMENSION }
+          : { height: MediaProcessingService.THUMBNAIL_DIMENSION }
+      );
+      const thumbnail = await (await context.renderAsync()).saveAsync({ compress: 0.5, format: SaveFormat.JPEG });
+
+      const blurhash = await Image.generateBlurhashAsync(thumbnail.uri, MediaProcessingService.BLURHASH_COMPONENTS);
+      await FileSystem.deleteAsync(thumbnail.uri, { idempotent: true });
+      return blurhash;
+    } catch (error) {
+      console.error('[MEDIA] Erro ao gerar blurhash:', error);
+      return null;
+    }
+  }
+}
+
+export const mediaProcessingService = new MediaProcessingService();
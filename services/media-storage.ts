@@ -0,0 +1,280 @@
+import * as FileSystem from 'expo-file-system';
+import * as Crypto from 'expo-crypto';
+import * as MediaLibrary from 'expo-media-library';
+import { Platform } from 'react-native';
+import { supabase } from './supabase';
+import { mediaService, MediaFile } from './media';
+import { AnvicCrypto, EncryptedMediaHeader } from './encryption';
+import { parseStorageUrl } from './endpoints/chat';
+
+export interface MediaUpload {
+  id: string;
+  conversationId: string;
+  media: MediaFile;
+  progress: number; // 0 a 1
+}
+
+export interface MediaUploadTask {
+  id: string;
+  // Resolve com data null e error null quando o envio é cancelado
+  promise: Promise<{ data: { path: string } | null; error: any }>;
+  cancel: () => Promise<void>;
+}
+
+const CONTENT_TYPES: { [key in MediaFile['type']]: string } = {
+  image: 'image/jpeg',
+  video: 'video/mp4',
+  audio: 'audio/m4a',
+};
+
+const EXTENSIONS: { [key in MediaFile['type']]: string } = {
+  image: 'jpg',
+  video: 'mp4',
+  audio: 'm4a',
+};
+
+class MediaStorageService {
+  private static readonly BUCKET = 'chat-media';
+  private static readonly SIGNED_URL_TTL_SECONDS = 60 * 60;
+  // Renovar antes de expirar para não entregar uma URL que vence durante a reprodução
+  private static readonly SIGNED_URL_MARGIN_MS = 5 * 60 * 1000;
+
+  private signedUrls: Map<string, { url: string; expiresAt: number }> = new Map();
+  // Arquivos já descriptografados nesta sessão, para não repetir download e descriptografia
+  private decryptedFiles: Map<string, string> = new Map();
+
+  // Caminho no bucket: conversa/remetente/arquivo — as políticas do bucket liberam leitura só aos participantes
+  private buildPath(conversationId: string, userId: string, media: MediaFile): string {
+    const extension = media.encrypted ? 'enc' : EXTENSIONS[media.type];
+    return `${conversationId}/${userId}/${Crypto.randomUUID()}.${extension}`;
+  }
+
+  // Arquivos cifrados no aparelho sobem como estão; o servidor nunca vê o conteúdo
+  isEncryptedPath(path: string): boolean {
+    return path.endsWith('.enc');
+  }
+
+  startUpload(
+    media: MediaFile,
+    conversationId: string,
+    userId: string,
+    onProgress?: (progress: number) => void
+  ): MediaUploadTask {
+    const id = Crypto.randomUUID();
+    const path = this.buildPath(conversationId, userId, media);
+    const contentType = media.encrypted ? 'application/octet-stream' : CONTENT_TYPES[media.type];
+
+    if (Platform.OS === 'web') {
+      return { id, ...this.uploadFromWeb(media.uri, path, contentType) };
+    }
+    return { id, ...this.uploadFile(media.uri, path, contentType, onProgress) };
+  }
+
+  private uploadFile(
+    uri: string,
+    path: string,
+    contentType: string,
+    onProgress?: (progress: number) => void
+  ): Omit<MediaUploadTask, 'id'> {
+    let task: FileSystem.UploadTask | null = null;
+    let cancelled = false;
+
+    const promise = (async () => {
+      try {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) throw new Error('Sessão expirada');
+        if (cancelled) return { data: null, error: null };
+
+        task = FileSystem.createUploadTask(
+          `${process.env.EXPO_PUBLIC_SUPABASE_URL}/storage/v1/object/${MediaStorageService.BUCKET}/${path}`,
+          uri,
+          {
+            httpMethod: 'POST',
+            uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+            headers: {
+              Authorization: `Bearer ${session.access_token}`,
+              apikey: process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY!,
+              'Content-Type': contentType,
+              'x-upsert': 'false',
+            },
+          },
+          ({ totalBytesSent, totalBytesExpectedToSend }) => {
+            if (totalBytesExpectedToSend > 0) {
+              onProgress?.(totalBytesSent / totalBytesExpectedToSend);
+            }
+          }
+        );
+
+        const result = await task.uploadAsync();
+        if (cancelled || !result) return { data: null, error: null };
+
+        if (result.status < 200 || result.status >= 300) {
+          throw new Error(`Falha no envio (${result.status}): ${result.body}`);
+        }
+
+        onProgress?.(1);
+        return { data: { path }, error: null };
+      } catch (error) {
+        if (cancelled) return { data: null, error: null };
+        return { data: null, error };
+      }
+    })();
+
+    const cancel = async () => {
+      cancelled = true;
+      await task?.cancelAsync();
+    };
+
+    return { promise, cancel };
+  }
+
+  // Cópia própria da mídia para outra conversa (ex.: encaminhamento), que não some quando a original é
+  // apagada para todos. Mídia cifrada é aberta e cifrada de novo com a chave da conversa de destino
+  async copyToConversation(
+    mediaUrl: string,
+    conversationId: string,
+    userId: string,
+    mediaType: EncryptedMediaHeader['type']
+  ): Promise<{ data: { path: string } | null; error: any }> {
+    const location = parseStorageUrl(mediaUrl);
+    // Mídia fora do bucket do chat (links externos antigos) continua apontando para a origem
+    if (!location || location.bucket !== MediaStorageService.BUCKET) {
+      return { data: { path: mediaUrl }, error: null };
+    }
+
+    const extension = location.path.includes('.') ? location.path.split('.').pop() : 'bin';
+    const path = `${conversationId}/${userId}/${Crypto.randomUUID()}.${extension}`;
+
+    if (!this.isEncryptedPath(location.path)) {
+      const { error } = await supabase.storage.from(MediaStorageService.BUCKET).copy(location.path, path);
+      return error ? { data: null, error } : { data: { path }, error: null };
+    }
+
+    const id = Crypto.randomUUID();
+    const sourceUri = `${FileSystem.cacheDirectory}forward_${id}.enc`;
+    const encryptedUri = `${FileSystem.cacheDirectory}forward_${id}_out.enc`;
+    let decryptedUri: string | null = null;
+
+    try {
+      const { data: signedUrl, error } = await this.getSignedUrl(location.path);
+      if (error || !signedUrl) return { data: null, error };
+
+      await FileSystem.downloadAsync(signedUrl, sourceUri);
+      const fileName = AnvicCrypto.isChunkedMediaFile(sourceUri) ? AnvicCrypto.readMediaHeader(sourceUri).fileName : undefined;
+      decryptedUri = await mediaService.decryptMedia(sourceUri, userId);
+      if (!decryptedUri) throw new Error('Não foi possível descriptografar a mídia');
+
+      await AnvicCrypto.encryptMediaFile(decryptedUri, encryptedUri, userId, conversationId, mediaType, undefined, fileName);
+      return await this.uploadFile(encryptedUri, path, 'application/octet-stream').promise;
+    } catch (error) {
+      return { data: null, error };
+    } finally {
+      await Promise.all(
+        [sourceUri, encryptedUri, decryptedUri]
+          .filter((uri): uri is string => !!uri)
+          .map(uri => FileSystem.deleteAsync(uri, { idempotent: true }))
+      );
+    }
+  }
+
+  // Web não tem tarefa de upload nativa: sem progresso intermediário
+  private uploadFromWeb(uri: string, path: string, contentType: string): Omit<MediaUploadTask, 'id'> {
+    const controller = new AbortController();
+
+    const promise = (async () => {
+      try {
+        const blob = await (await fetch(uri, { signal: controller.signal })).blob();
+        const { error } = await supabase.storage
+          .from(MediaStorageService.BUCKET)
+          .upload(path, blob, { contentType, upsert: false });
+
+        if (controller.signal.aborted) {
+          if (!error) await supabase.storage.from(MediaStorageService.BUCKET).remove([path]);
+          return { data: null, error: null };
+        }
+        return error ? { data: null, error } : { data: { path }, error: null };
+      } catch (error) {
+        if (controller.signal.aborted) return { data: null, error: null };
+        return { data: null, error };
+      }
+    })();
+
+    return { promise, cancel: async () => controller.abort() };
+  }
+
+  async getSignedUrl(path: string): Promise<{ data: string | null; error: any }> {
+    const cached = this.signedUrls.get(path);
+    if (cached && cached.expiresAt - MediaStorageService.SIGNED_URL_MARGIN_MS > Date.now()) {
+      return { data: cached.url, error: null };
+    }
+
+    const { data, error } = await supabase.storage
+      .from(MediaStorageService.BUCKET)
+      .createSignedUrl(path, MediaStorageService.SIGNED_URL_TTL_SECONDS);
+
+    if (error || !data) return { data: null, error };
+
+    this.signedUrls.set(path, {
+      url: data.signedUrl,
+      expiresAt: Date.now() + MediaStorageService.SIGNED_URL_TTL_SECONDS * 1000,
+    });
+    return { data: data.signedUrl, error: null };
+  }
+
+  // URI pronta para exibir: URL assinada ou, para mídia cifrada, arquivo baixado e descriptografado
+  async resolveMediaUri(path: string, userId: string): Promise<{ data: string | null; error: any }> {
+    const cachedPath = this.decryptedFiles.get(path);
+    if (cachedPath && (await FileSystem.getInfoAsync(cachedPath)).exists) {
+      return { data: cachedPath, error: null };
+    }
+
+    const { data: signedUrl, error } = await this.getSignedUrl(path);
+    if (error || !signedUrl) return { data: null, error };
+
+    if (!this.isEncryptedPath(path)) {
+      return { data: signedUrl, error: null };
+    }
+
+    try {
+      const localPath = `${FileSystem.cacheDirectory}media_${path.replace(/\//g, '_')}`;
+      const info = await FileSystem.getInfoAsync(localPath);
+      if (!info.exists) {
+        await FileSystem.downloadAsync(signedUrl, localPath);
+      }
+
+      const decryptedPath = await mediaService.decryptMedia(localPath, userId);
+      if (!decryptedPath) throw new Error('Não foi possível descriptografar a mídia');
+
+      this.decryptedFiles.set(path, decryptedPath);
+      return { data: decryptedPath, error: null };
+    } catch (error) {
+      return { data: null, error };
+    }
+  }
+
+  // Salvar foto ou vídeo da conversa na galeria do aparelho
+  async saveToLibrary(path: string, userId: string, type: MediaFile['type']): Promise<{ error: any }> {
+    try {
+      const permission = await MediaLibrary.requestPermissionsAsync(true);
+      if (!permission.granted) {
+        return { error: new Error('Permissão para salvar na galeria negada') };
+      }
+
+      const { data: uri, error } = await this.resolveMediaUri(path, userId);
+      if (error || !uri) return { error };
+
+      let localUri = uri;
+      if (/^https?:\/\//.test(uri)) {
+        localUri = `${FileSystem.cacheDirectory}save_${Crypto.randomUUID()}.${EXTENSIONS[type]}`;
+        await FileSystem.downloadAsync(uri, localUri);
+      }
+
+      await MediaLibrary.saveToLibraryAsync(localUri);
+      return { error: null };
+    } catch (error) {
+      return { error };
+    }
+  }
+}
+
+export const mediaStorageService = new MediaStorageService();
@@ -3,7 +3,9 @@ import * as Camera from 'expo-camera';
 import * as FileSystem from 'expo-file-system';
 import { Audio } from 'expo-av';
 import { Platform, Alert } from 'react-native';
-import { AnvicCrypto } from './encryption';
+import { AnvicCrypto, EncryptedMediaHeader, MediaDecryptOptions, MessageOrigin } from './encryption';
+import { mediaProcessingService } from './media-processing';
+import { MediaMetadata, MediaPreview, Message } from './types';
 
 export interface MediaFile {
   uri: string;
@@ -12,8 +14,17 @@ export interface MediaFile {
   size?: number;
   duration?: number;
   encrypted?: boolean;
+  metadata?: MediaMetadata;
 }
 
+export interface CaptureOptions {
+  highQuality?: boolean; // AppSettings.highQualityImages
+}
+
+// Barras da forma de onda das mensagens de voz; abaixo de SILENCE_DB conta como silêncio
+const WAVEFORM_BARS = 48;
+const SILENCE_DB = -60;
+
 export interface MediaPermissions {
   camera: boolean;
   microphone: boolean;
@@ -22,6 +33,8 @@ export interface MediaPermissions {
 
 class AnvicMediaService {
   private recording: Audio.Recording | null = null;
+  private meteringSamples: number[] = [];
+  private previewCache: Map<string, MediaPreview> = new Map();
   private permissions: MediaPermissions = {
     camera: false,
     microphone: false,
@@ -55,7 +68,12 @@ class AnvicMediaService {
   }
 
   // ============== CAPTURA DE FOTOS ==============
-  async capturePhoto(encrypt: boolean = false, userId?: string): Promise<MediaFile | null> {
+  async capturePhoto(
+    encrypt: boolean = false,
+    userId?: string,
+    conversationId?: string,
+    options: CaptureOptions = {}
+  ): Promise<MediaFile | null> {
     if (!this.permissions.camera) {
       const permission = await Camera.requestCameraPermissionsAsync();
       if (permission.status !== 'granted') {
@@ -69,32 +87,12 @@ class AnvicMediaService {
         mediaTypes: ImagePicker.MediaTypeOptions.Images,
         allowsEditing: true,
         aspect: [4, 3],
-        quality: 0.8,
-        base64: encrypt, // Só gerar base64 se for criptografar
+        quality: 1, // a compressão é feita depois, conforme a configuração de qualidade
+        exif: false,
       });
 
       if (!result.canceled && result.assets[0]) {
-        const asset = result.assets[0];
-        
-        let finalUri = asset.uri;
-        
-        if (encrypt && userId && asset.base64) {
-          // Criptografar a imagem
-          const encrypted = await AnvicCrypto.encryptMedia(asset.base64, userId, 'image');
-          
-          // Salvar versão criptografada temporariamente
-          const encryptedPath = `${FileSystem.documentDirectory}encrypted_photo_${Date.now()}.enc`;
-          await FileSystem.writeAsStringAsync(encryptedPath, JSON.stringify(encrypted));
-          finalUri = encryptedPath;
-        }
-
-        return {
-          uri: finalUri,
-          type: 'image',
-          name: `photo_${Date.now()}.jpg`,
-          size: asset.fileSize,
-          encrypted: encrypt
-        };
+        return this.prepareImage(result.assets[0], 'photo', encrypt, userId, conversationId, options);
       }
 
       return null;
@@ -105,7 +103,12 @@ class AnvicMediaService {
   }
 
   // ============== SELEÇÃO DE FOTOS DA GALERIA ==============
-  async pickImage(encrypt: boolean = false, userId?: string): Promise<MediaFile | null> {
+  async pickImage(
+    encrypt: boolean = false,
+    userId?: string,
+    conversationId?: string,
+    options: CaptureOptions = {}
+  ): Promise<MediaFile | null> {
     if (!this.permissions.mediaLibrary) {
       const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
       if (permission.status !== 'granted') {
@@ -119,29 +122,12 @@ class AnvicMediaService {
         mediaTypes: ImagePicker.MediaTypeOptions.Images,
         allowsEditing: true,
         aspect: [4, 3],
-        quality: 0.8,
-        base64: encrypt,
+        quality: 1, // a compressão é feita depois, conforme a configuração de qualidade
+        exif: false,
       });
 
       if (!result.canceled && result.assets[0]) {
-        const asset = result.assets[0];
-        
-        let finalUri = asset.uri;
-        
-        if (encrypt && userId && asset.base64) {
-          const encrypted = await AnvicCrypto.encryptMedia(asset.base64, userId, 'image');
-          const encryptedPath = `${FileSystem.documentDirectory}encrypted_image_${Date.now()}.enc`;
-          await FileSystem.writeAsStringAsync(encryptedPath, JSON.stringify(encrypted));
-          finalUri = encryptedPath;
-        }
-
-        return {
-          uri: finalUri,
-          type: 'image',
-          name: `image_${Date.now()}.jpg`,
-          size: asset.fileSize,
-          encrypted: encrypt
-        };
+        return this.prepareImage(result.assets[0], 'image', encrypt, userId, conversationId, options);
       }
 
       return null;
@@ -151,6 +137,46 @@ class AnvicMediaService {
     }
   }
 
+  // Redimensiona e remove metadados antes de cifrar ou enviar
+  private async prepareImage(
+    asset: ImagePicker.ImagePickerAsset,
+    prefix: string,
+    encrypt: boolean,
+    userId?: string,
+    conversationId?: string,
+    options: CaptureOptions = {}
+  ): Promise<MediaFile> {
+    const shouldEncrypt = encrypt && !!userId && !!conversationId;
+
+    const processed = await mediaProcessingService.processImage(asset.uri, asset.width, asset.height, {
+      highQuality: options.highQuality ?? true,
+      includePreview: true,
+    });
+
+    let finalUri = processed.uri;
+    let metadata: MediaMetadata = processed.metadata;
+    if (shouldEncrypt) {
+      finalUri = await this.encryptFile(processed.uri, prefix, 'image', userId!, conversationId!);
+      await FileSystem.deleteAsync(processed.uri, { idempotent: true });
+
+      // Em mídia cifrada o blurhash aberto mostraria a foto ao servidor
+      const { blurhash, ...dimensions } = processed.metadata;
+      metadata = {
+        ...dimensions,
+        sealed_preview: await this.sealPreview({ blurhash }, 'image', userId!, conversationId!),
+      };
+    }
+
+    return {
+      uri: finalUri,
+      type: 'image',
+      name: `${prefix}_${Date.now()}.jpg`,
+      size: processed.size,
+      encrypted: encrypt,
+      metadata,
+    };
+  }
+
   // ============== GRAVAÇÃO DE ÁUDIO ==============
   async startAudioRecording(): Promise<boolean> {
     if (!this.permissions.microphone) {
@@ -173,6 +199,7 @@ class AnvicMediaService {
 
       // Configurações de gravação de alta qualidade
       const recordingOptions = {
+        isMeteringEnabled: true,
         android: {
           extension: '.m4a',
           outputFormat: Audio.RECORDING_OPTION_ANDROID_OUTPUT_FORMAT_MPEG_4,
@@ -200,6 +227,16 @@ class AnvicMediaService {
 
       this.recording = new Audio.Recording();
       await this.recording.prepareToRecordAsync(recordingOptions);
+
+      // Nível do microfone a cada 100ms, usado para desenhar a forma de onda
+      this.meteringSamples = [];
+      this.recording.setProgressUpdateInterval(100);
+      this.recording.setOnRecordingStatusUpdate(status => {
+        if (status.isRecording && status.metering !== undefined) {
+          this.meteringSamples.push(status.metering);
+        }
+      });
+
       await this.recording.startAsync();
       
       return true;
@@ -209,32 +246,32 @@ class AnvicMediaService {
     }
   }
 
-  async stopAudioRecording(encrypt: boolean = false, userId?: string): Promise<MediaFile | null> {
+  async stopAudioRecording(encrypt: boolean = false, userId?: string, conversationId?: string): Promise<MediaFile | null> {
     if (!this.recording) return null;
 
     try {
-      await this.recording.stopAndUnloadAsync();
+      const status = await this.recording.stopAndUnloadAsync();
       const uri = this.recording.getURI();
       
       if (!uri) return null;
 
       // Informações do arquivo
       const fileInfo = await FileSystem.getInfoAsync(uri);
+      const waveform = this.buildWaveform(this.meteringSamples);
       let finalUri = uri;
+      let metadata: MediaMetadata = { duration: status.durationMillis, waveform };
+
+      if (encrypt && userId && conversationId) {
+        finalUri = await this.encryptFile(uri, 'audio', 'audio', userId, conversationId);
 
-      if (encrypt && userId) {
-        // Ler arquivo como base64 e criptografar
-        const base64Audio = await FileSystem.readAsStringAsync(uri, {
-          encoding: FileSystem.EncodingType.Base64
-        });
-        
-        const encrypted = await AnvicCrypto.encryptMedia(base64Audio, userId, 'audio');
-        const encryptedPath = `${FileSystem.documentDirectory}encrypted_audio_${Date.now()}.enc`;
-        await FileSystem.writeAsStringAsync(encryptedPath, JSON.stringify(encrypted));
-        finalUri = encryptedPath;
-        
         // Remover arquivo original não criptografado
         await FileSystem.deleteAsync(uri);
+
+        // Como o blurhash, a forma de onda iria aberta ao servidor: segue cifrada
+        metadata = {
+          duration: status.durationMillis,
+          sealed_preview: await this.sealPreview({ waveform }, 'audio', userId, conversationId),
+        };
       }
 
       const result: MediaFile = {
@@ -242,7 +279,9 @@ class AnvicMediaService {
         type: 'audio',
         name: `audio_${Date.now()}.m4a`,
         size: fileInfo.exists ? fileInfo.size : undefined,
-        encrypted: encrypt
+        duration: status.durationMillis,
+        encrypted: encrypt,
+        metadata,
       };
 
       this.recording = null;
@@ -254,8 +293,26 @@ class AnvicMediaService {
     }
   }
 
+  // Agrupa as leituras do microfone (dBFS) em barras de 0 a 1
+  private buildWaveform(samples: number[]): number[] | null {
+    if (samples.length === 0) return null;
+
+    const bars = Math.min(WAVEFORM_BARS, samples.length);
+    const perBar = samples.length / bars;
+    const waveform: number[] = [];
+
+    for (let i = 0; i < bars; i++) {
+      const slice = samples.slice(Math.floor(i * perBar), Math.floor((i + 1) * perBar));
+      const average = slice.reduce((sum, db) => sum + db, 0) / Math.max(slice.length, 1);
+      const level = (Math.max(average, SILENCE_DB) - SILENCE_DB) / -SILENCE_DB;
+      waveform.push(Math.round(Math.min(level, 1) * 100) / 100);
+    }
+
+    return waveform;
+  }
+
   // ============== GRAVAÇÃO DE VÍDEO ==============
-  async captureVideo(encrypt: boolean = false, userId?: string): Promise<MediaFile | null> {
+  async captureVideo(encrypt: boolean = false, userId?: string, conversationId?: string): Promise<MediaFile | null> {
     if (!this.permissions.camera) {
       const permission = await Camera.requestCameraPermissionsAsync();
       if (permission.status !== 'granted') {
@@ -276,16 +333,11 @@ class AnvicMediaService {
         const asset = result.assets[0];
         let finalUri = asset.uri;
 
-        if (encrypt && userId) {
-          // Para vídeos, criptografar é mais complexo - implementar se necessário
-          const base64Video = await FileSystem.readAsStringAsync(asset.uri, {
-            encoding: FileSystem.EncodingType.Base64
-          });
-          
-          const encrypted = await AnvicCrypto.encryptMedia(base64Video, userId, 'video');
-          const encryptedPath = `${FileSystem.documentDirectory}encrypted_video_${Date.now()}.enc`;
-          await FileSystem.writeAsStringAsync(encryptedPath, JSON.stringify(encrypted));
-          finalUri = encryptedPath;
+        if (encrypt && userId && conversationId) {
+          finalUri = await this.encryptFile(asset.uri, 'video', 'video', userId, conversationId);
+
+          // Cópia da câmera não criptografada
+          await FileSystem.deleteAsync(asset.uri, { idempotent: true });
         }
 
         return {
@@ -305,20 +357,108 @@ class AnvicMediaService {
     }
   }
 
+  // ============== CRIPTOGRAFIA DE MÍDIA ==============
+
+  // Prévia de mídia cifrada: envelope assinado, como o texto das mensagens
+  async sealPreview(
+    preview: MediaPreview,
+    type: MediaFile['type'],
+    userId: string,
+    conversationId: string
+  ): Promise<string> {
+    const envelope = await AnvicCrypto.encryptMessage(JSON.stringify(preview), userId, conversationId, type);
+    return JSON.stringify(envelope);
+  }
+
+  // Blurhash, forma de onda e rótulo da mensagem; os cifrados são abertos uma vez e guardados em memória
+  async openPreview(message: Message, userId: string): Promise<MediaPreview> {
+    const metadata = message.media_metadata;
+    const cacheKey = `${message.sender_id}:${message.content}:${metadata?.sealed_preview ?? ''}`;
+    const cached = this.previewCache.get(cacheKey);
+    if (cached) return cached;
+
+    const origin = { senderId: message.sender_id, conversationId: message.conversation_id };
+    const [label, sealed] = await Promise.all([
+      this.openSealed(message.content, userId, origin),
+      this.openSealed(metadata?.sealed_preview, userId, origin),
+    ]);
+
+    const preview: MediaPreview = {
+      blurhash: metadata?.blurhash ?? null,
+      waveform: metadata?.waveform ?? null,
+      label: label.content,
+    };
+    if (sealed.content) {
+      try {
+        Object.assign(preview, JSON.parse(sealed.content));
+      } catch {
+        sealed.opened = false;
+      }
+    }
+
+    // Envelope que não abriu agora (ex.: chave ainda não disponível) é tentado de novo depois
+    if (label.opened && sealed.opened) {
+      this.previewCache.set(cacheKey, preview);
+    }
+    return preview;
+  }
+
+  private async openSealed(
+    value: string | null | undefined,
+    userId: string,
+    origin: MessageOrigin
+  ): Promise<{ opened: boolean; content: string | null }> {
+    const envelope = AnvicCrypto.parseEnvelope(value);
+    if (!envelope) return { opened: true, content: value ?? null };
+
+    const opened = await AnvicCrypto.openMessage(envelope, userId, origin);
+    if (opened.status === 'tampered') return { opened: true, content: null };
+    return { opened: opened.content !== null, content: opened.content };
+  }
+
+  // Cifra em blocos direto no arquivo .enc, sem passar o conteúdo por base64
+  private async encryptFile(
+    uri: string,
+    prefix: string,
+    mediaType: 'image' | 'audio' | 'video',
+    userId: string,
+    conversationId: string
+  ): Promise<string> {
+    const encryptedPath = `${FileSystem.documentDirectory}encrypted_${prefix}_${Date.now()}.enc`;
+    await AnvicCrypto.encryptMediaFile(uri, encryptedPath, userId, conversationId, mediaType);
+    return encryptedPath;
+  }
+
+  private getExtension(mediaType: EncryptedMediaHeader['type'], fileName?: string): string {
+    if (mediaType === 'file') {
+      return fileName?.includes('.') ? fileName.split('.').pop()! : 'bin';
+    }
+    return mediaType === 'image' ? 'jpg' : mediaType === 'audio' ? 'm4a' : 'mp4';
+  }
+
   // ============== DESCRIPTOGRAFIA DE MÍDIA ==============
-  async decryptMedia(encryptedPath: string, userId: string): Promise<string | null> {
+  async decryptMedia(encryptedPath: string, userId: string, options: MediaDecryptOptions = {}): Promise<string | null> {
     try {
+      if (AnvicCrypto.isChunkedMediaFile(encryptedPath)) {
+        const header = AnvicCrypto.readMediaHeader(encryptedPath);
+        const tempPath = `${FileSystem.documentDirectory}temp_decrypted_${Date.now()}.${this.getExtension(header.type, header.fileName)}`;
+        await AnvicCrypto.decryptMediaFile(encryptedPath, tempPath, userId, options);
+        return tempPath;
+      }
+
+      // Formato antigo: JSON com o conteúdo inteiro em base64
       const encryptedData = await FileSystem.readAsStringAsync(encryptedPath);
       const parsed = JSON.parse(encryptedData);
       
       const decryptedBase64 = await AnvicCrypto.decryptMedia(parsed, userId);
       
       // Criar arquivo temporário descriptografado
-      const tempPath = `${FileSystem.documentDirectory}temp_decrypted_${Date.now()}.${parsed.type === 'image' ? 'jpg' : parsed.type === 'audio' ? 'm4a' : 'mp4'}`;
+      const tempPath = `${FileSystem.documentDirectory}temp_decrypted_${Date.now()}.${this.getExtension(parsed.type)}`;
       await FileSystem.writeAsStringAsync(tempPath, decryptedBase64, {
         encoding: FileSystem.EncodingType.Base64
       });
       
+      options.onReady?.(tempPath);
       return tempPath;
     } catch (error) {
       console.error('[MEDIA] Erro ao descriptografar mídia:', error);
@@ -382,6 +522,7 @@ class AnvicMediaService {
       try {
         await this.recording.stopAndUnloadAsync();
         this.recording = null;
+        this.meteringSamples = [];
       } catch (error) {
         console.error('[MEDIA] Erro ao cancelar gravação:', error);
       }
@@ -0,0 +1,312 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import * as Crypto from 'expo-crypto';
+import { chatService } from './endpoints/chat';
+import { MediaMetadata, Message } from './types';
+
+export interface OutboxEntry {
+  clientId: string; // chave de idempotência enviada junto com a mensagem
+  conversationId: string;
+  senderId: string;
+  content: string;
+  messageType: Message['message_type'];
+  replyToId?: string | null;
+  mediaUrl?: string | null;
+  mediaMetadata?: MediaMetadata | null;
+  status: 'pending' | 'failed';
+  attempts: number;
+  nextAttemptAt: string;
+  createdAt: string;
+  lastError?: string;
+}
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+type SentListener = (message: Message) => void;
+
+class OutboxService {
+  // Fila antiga, compartilhada por todas as contas do aparelho
+  private static readonly LEGACY_OUTBOX_KEY = 'anvic_outbox';
+  private static readonly MAX_ATTEMPTS = 5;
+  private static readonly BASE_DELAY_MS = 2000;
+  private static readonly MAX_DELAY_MS = 60000;
+
+  private entries: OutboxEntry[] = [];
+  private listeners: Set<OutboxListener> = new Set();
+  private sentListeners: Set<SentListener> = new Set();
+  private retryTimeout: ReturnType<typeof setTimeout> | null = null;
+  private isOnline = true;
+  private isFlushing = false;
+  private userId: string | null = null;
+  private ready: Promise<void> = Promise.resolve();
+
+  constructor() {
+    NetInfo.addEventListener(this.handleConnectivityChange);
+  }
+
+  // Carrega a fila do usuário logado; cada conta tem a sua, para que uma mensagem pendente
+  // nunca seja enviada na sessão de outra conta
+  initialize(userId: string): Promise<void> {
+    if (this.userId === userId) return this.ready;
+
+    this.clearRetry();
+    this.userId = userId;
+    this.entries = [];
+    this.ready = this.loadEntries(userId);
+    return this.ready;
+  }
+
+  // Logout: a fila continua salva no aparelho, mas sai da memória
+  cleanup(): void {
+    this.clearRetry();
+    this.userId = null;
+    this.entries = [];
+    this.ready = Promise.resolve();
+    this.listeners.forEach(listener => listener(this.entries));
+  }
+
+  // Enfileirar mensagem e tentar enviar imediatamente
+  async enqueue(
+    conversationId: string,
+    senderId: string,
+    content: string,
+    messageType: Message['message_type'] = 'text',
+    replyToId?: string | null,
+    mediaUrl?: string | null,
+    mediaMetadata?: MediaMetadata | null
+  ): Promise<OutboxEntry> {
+    await this.ready;
+    if (senderId !== this.userId) {
+      throw new Error('Fila de envio não pertence ao usuário da sessão');
+    }
+
+    const now = new Date().toISOString();
+    const entry: OutboxEntry = {
+      clientId: Crypto.randomUUID(),
+      conversationId,
+      senderId,
+      content,
+      messageType,
+      replyToId: replyToId ?? null,
+      mediaUrl: mediaUrl ?? null,
+      mediaMetadata: mediaMetadata ?? null,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+    };
+
+    this.entries = [...this.entries, entry];
+    await this.persist();
+    this.flush();
+
+    return entry;
+  }
+
+  // Reenviar manualmente uma mensagem que esgotou as tentativas
+  async retry(clientId: string): Promise<void> {
+    await this.ready;
+
+    this.entries = this.entries.map(entry =>
+      entry.clientId === clientId
+        ? { ...entry, status: 'pending' as const, attempts: 0, nextAttemptAt: new Date().toISOString() }
+        : entry
+    );
+    await this.persist();
+    this.flush();
+  }
+
+  async discard(clientId: string): Promise<void> {
+    await this.ready;
+
+    this.entries = this.entries.filter(entry => entry.clientId !== clientId);
+    await this.persist();
+    // A mensagem descartada pode ser a que segurava as seguintes da conversa
+    this.flush();
+  }
+
+  async getEntries(conversationId?: string): Promise<OutboxEntry[]> {
+    await this.ready;
+    return conversationId
+      ? this.entries.filter(entry => entry.conversationId === conversationId)
+      : this.entries;
+  }
+
+  // Recebe a fila atual sempre que ela muda; retorna a função para cancelar
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    this.ready.then(() => listener(this.entries));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Recebe a linha gravada no servidor antes de a entrada sair da fila, para a tela trocar a
+  // mensagem otimista pela definitiva sem depender do realtime
+  onSent(listener: SentListener): () => void {
+    this.sentListeners.add(listener);
+    return () => {
+      this.sentListeners.delete(listener);
+    };
+  }
+
+  // Enviar mensagens pendentes cujo próximo horário de tentativa já chegou. Em ordem de criação,
+  // e uma conversa para na primeira mensagem que não saiu, para as seguintes não passarem à frente
+  async flush(): Promise<void> {
+    await this.ready;
+    if (this.isFlushing || !this.isOnline || !this.userId) return;
+
+    const userId = this.userId;
+    this.isFlushing = true;
+    try {
+      const blocked = new Set<string>();
+
+      for (const entry of [...this.entries]) {
+        if (this.userId !== userId) break;
+        if (blocked.has(entry.conversationId)) continue;
+
+        const due = entry.status === 'pending' && new Date(entry.nextAttemptAt).getTime() <= Date.now();
+        if (!due || !(await this.send(entry, userId))) {
+          blocked.add(entry.conversationId);
+        }
+      }
+    } finally {
+      this.isFlushing = false;
+      this.scheduleNextRetry();
+    }
+  }
+
+  // Retorna se a mensagem saiu da fila
+  private async send(entry: OutboxEntry, userId: string): Promise<boolean> {
+    let sent = false;
+    try {
+      const { data, error } = await chatService.sendMessage(
+        entry.conversationId,
+        entry.senderId,
+        entry.content,
+        entry.messageType,
+        { replyToId: entry.replyToId, clientId: entry.clientId, mediaUrl: entry.mediaUrl, mediaMetadata: entry.mediaMetadata }
+      );
+
+      if (error) throw error;
+      // Logout durante o envio: a fila em memória já é de outra sessão
+      if (this.userId !== userId) return true;
+
+      if (data) {
+        this.sentListeners.forEach(listener => listener(data as Message));
+      }
+      this.entries = this.entries.filter(e => e.clientId !== entry.clientId);
+      sent = true;
+    } catch (error: any) {
+      if (this.userId !== userId) return false;
+
+      const attempts = entry.attempts + 1;
+      const delay = Math.min(
+        OutboxService.BASE_DELAY_MS * Math.pow(2, attempts - 1),
+        OutboxService.MAX_DELAY_MS
+      );
+
+      this.entries = this.entries.map(e =>
+        e.clientId === entry.clientId
+          ? {
+              ...e,
+              attempts,
+              status: attempts >= OutboxService.MAX_ATTEMPTS ? 'failed' as const : 'pending' as const,
+              nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+              lastError: error?.message || String(error),
+            }
+          : e
+      );
+    }
+
+    await this.persist();
+    return sent;
+  }
+
+  // Conexão restabelecida: tentar de novo tudo, inclusive o que já tinha falhado
+  private handleConnectivityChange = (state: NetInfoState) => {
+    const wasOnline = this.isOnline;
+    this.isOnline = !!state.isConnected && state.isInternetReachable !== false;
+
+    if (this.isOnline && !wasOnline && this.userId) {
+      const now = new Date().toISOString();
+      this.entries = this.entries.map(entry => ({ ...entry, status: 'pending' as const, nextAttemptAt: now }));
+      this.persist().then(() => this.flush());
+    }
+  };
+
+  private clearRetry(): void {
+    if (this.retryTimeout) {
+      clearTimeout(this.retryTimeout);
+      this.retryTimeout = null;
+    }
+  }
+
+  private scheduleNextRetry(): void {
+    this.clearRetry();
+
+    // Só a primeira mensagem de cada conversa pode sair; as de trás esperam por ela
+    const heads = new Map<string, OutboxEntry>();
+    this.entries.forEach(entry => {
+      if (!heads.has(entry.conversationId)) heads.set(entry.conversationId, entry);
+    });
+    const pending = [...heads.values()].filter(entry => entry.status === 'pending');
+    if (pending.length === 0 || !this.isOnline || !this.userId) return;
+
+    const nextAttempt = Math.min(...pending.map(entry => new Date(entry.nextAttemptAt).getTime()));
+    this.retryTimeout = setTimeout(() => this.flush(), Math.max(nextAttempt - Date.now(), 0));
+  }
+
+  private storageKey(userId: string): string {
+    return `anvic_outbox_${userId}`;
+  }
+
+  private async loadEntries(userId: string): Promise<void> {
+    let entries: OutboxEntry[] = [];
+    try {
+      const data = await AsyncStorage.getItem(this.storageKey(userId));
+      entries = data ? JSON.parse(data) : [];
+      entries = [...entries, ...(await this.takeLegacyEntries(userId))];
+    } catch (error) {
+      console.error('Erro ao carregar fila de envio:', error);
+    }
+
+    // Outro usuário entrou enquanto a fila carregava
+    if (this.userId !== userId) return;
+    this.entries = entries;
+    await this.persist();
+
+    // Mensagens que ficaram na fila da última sessão
+    setTimeout(() => this.flush(), 0);
+  }
+
+  // Migra da fila compartilhada só as mensagens deste usuário; as das outras contas ficam lá
+  // até elas entrarem de novo
+  private async takeLegacyEntries(userId: string): Promise<OutboxEntry[]> {
+    const data = await AsyncStorage.getItem(OutboxService.LEGACY_OUTBOX_KEY);
+    if (!data) return [];
+
+    const legacy: OutboxEntry[] = JSON.parse(data);
+    const own = legacy.filter(entry => entry.senderId === userId);
+    const others = legacy.filter(entry => entry.senderId !== userId);
+
+    if (others.length > 0) {
+      await AsyncStorage.setItem(OutboxService.LEGACY_OUTBOX_KEY, JSON.stringify(others));
+    } else {
+      await AsyncStorage.removeItem(OutboxService.LEGACY_OUTBOX_KEY);
+    }
+    return own;
+  }
+
+  private async persist(): Promise<void> {
+    this.listeners.forEach(listener => listener(this.entries));
+    if (!this.userId) return;
+
+    try {
+      await AsyncStorage.setItem(this.storageKey(this.userId), JSON.stringify(this.entries));
+    } catch (error) {
+      console.error('Erro ao salvar fila de envio:', error);
+    }
+  }
+}
+
+export const outboxService = new OutboxService();
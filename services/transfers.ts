@@ -0,0 +1,394 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import * as FileSystem from 'expo-file-system';
+import { File } from 'expo-file-system/next';
+import * as Crypto from 'expo-crypto';
+import { utf8ToBytes } from '@noble/hashes/utils';
+import { AppState, AppStateStatus } from 'react-native';
+import { supabase } from './supabase';
+import { AnvicCrypto } from './encryption';
+import { outboxService } from './outbox';
+import { SharedFile } from './file-sharing';
+
+export interface TransferEntry {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  file: SharedFile; // uri aponta para a cópia cifrada persistente em documentDirectory
+  uploadSize?: number; // tamanho da cópia cifrada; ausente em envios antigos, que sobem o arquivo original
+  objectPath: string; // caminho final no bucket
+  uploadUrl: string | null; // sessão TUS criada no servidor
+  bytesSent: number;
+  status: 'uploading' | 'paused' | 'failed';
+  createdAt: string;
+  lastError?: string;
+}
+
+type TransferListener = (entries: TransferEntry[]) => void;
+
+// Upload-Metadata do TUS: valores em base64, separados por vírgula
+const encodeMetadataValue = (value: string): string => {
+  let binary = '';
+  utf8ToBytes(value).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+// Envio retomável (protocolo TUS do Supabase Storage) para arquivos grandes
+class TransferService {
+  private static readonly TRANSFERS_KEY = 'anvic_transfers';
+  private static readonly BUCKET = 'chat-media';
+  // O Storage exige blocos de exatamente 6MB (exceto o último)
+  private static readonly CHUNK_SIZE = 6 * 1024 * 1024;
+  private static readonly TUS_VERSION = '1.0.0';
+
+  private entries: TransferEntry[] = [];
+  private listeners: Set<TransferListener> = new Set();
+  // Execução em andamento de cada envio; pausar ou cancelar descarta o token e a execução antiga
+  // para sozinha no próximo passo, mesmo que um resume já tenha marcado o envio como 'uploading'
+  private running: Map<string, number> = new Map();
+  private runSeq = 0;
+  private tasks: Map<string, FileSystem.UploadTask> = new Map();
+  private isOnline = true;
+  private ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.loadEntries();
+    NetInfo.addEventListener(this.handleConnectivityChange);
+    AppState.addEventListener('change', this.handleAppStateChange);
+  }
+
+  // Cifra o arquivo com a chave da conversa numa cópia fora do cache (o sistema pode apagá-lo)
+  // e começa o envio; o servidor só recebe o .enc, como nas demais mídias
+  async enqueue(conversationId: string, senderId: string, file: SharedFile): Promise<TransferEntry> {
+    await this.ready;
+
+    const id = Crypto.randomUUID();
+    const localUri = `${FileSystem.documentDirectory}transfer_${id}.enc`;
+    await AnvicCrypto.encryptMediaFile(file.uri, localUri, senderId, conversationId, 'file', undefined, file.name);
+    const uploadSize = new File(localUri).size ?? 0;
+
+    const entry: TransferEntry = {
+      id,
+      conversationId,
+      senderId,
+      file: { ...file, uri: localUri },
+      uploadSize,
+      objectPath: `${conversationId}/${senderId}/files/${id}.enc`,
+      uploadUrl: null,
+      bytesSent: 0,
+      status: 'uploading',
+      createdAt: new Date().toISOString(),
+    };
+
+    this.entries = [...this.entries, entry];
+    await this.persist();
+    this.run(id);
+
+    return entry;
+  }
+
+  async pause(id: string): Promise<void> {
+    await this.ready;
+
+    const task = this.stopRun(id);
+    this.update(id, { status: 'paused' });
+    await this.persist();
+    await task?.cancelAsync();
+  }
+
+  async resume(id: string): Promise<void> {
+    await this.ready;
+
+    this.update(id, { status: 'uploading', lastError: undefined });
+    await this.persist();
+    this.run(id);
+  }
+
+  async cancel(id: string): Promise<void> {
+    await this.ready;
+
+    const entry = this.entries.find(e => e.id === id);
+    if (!entry) return;
+
+    const task = this.stopRun(id);
+    this.entries = this.entries.filter(e => e.id !== id);
+    await this.persist();
+    await task?.cancelAsync();
+
+    // Libera a sessão no servidor; se falhar, expira sozinha em 24h
+    if (entry.uploadUrl) {
+      this.tusRequest(entry.uploadUrl, 'DELETE').catch(() => {});
+    }
+    await FileSystem.deleteAsync(entry.file.uri, { idempotent: true });
+  }
+
+  async getEntries(conversationId?: string): Promise<TransferEntry[]> {
+    await this.ready;
+    return conversationId
+      ? this.entries.filter(entry => entry.conversationId === conversationId)
+      : this.entries;
+  }
+
+  // Recebe a lista atual sempre que ela muda; retorna a função para cancelar
+  subscribe(listener: TransferListener): () => void {
+    this.listeners.add(listener);
+    this.ready.then(() => listener(this.entries));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async run(id: string): Promise<void> {
+    if (this.running.has(id) || !this.isOnline) return;
+    const token = ++this.runSeq;
+    this.running.set(id, token);
+    const isCurrent = () => this.running.get(id) === token;
+
+    try {
+      let entry = this.entries.find(e => e.id === id);
+      if (!entry || entry.status !== 'uploading') return;
+
+      let offset = entry.uploadUrl ? await this.getServerOffset(entry.uploadUrl) : null;
+      if (!isCurrent()) return;
+      if (offset === null) {
+        // Sessão inexistente ou expirada: recomeçar do zero
+        const uploadUrl = await this.createUpload(entry);
+        if (!isCurrent()) return;
+        this.update(id, { uploadUrl, bytesSent: 0 });
+        offset = 0;
+      } else {
+        this.update(id, { bytesSent: offset });
+      }
+      await this.persist();
+
+      while (offset < this.getUploadSize(entry)) {
+        entry = this.entries.find(e => e.id === id);
+        if (!isCurrent() || !entry || !entry.uploadUrl) return;
+
+        offset = await this.sendChunk(entry, offset, token);
+        if (offset === null || !isCurrent()) return; // pausado ou cancelado durante o bloco
+
+        this.update(id, { bytesSent: offset });
+        await this.persist();
+      }
+
+      if (!isCurrent()) return;
+      await this.complete(entry);
+    } catch (error: any) {
+      if (isCurrent() && this.entries.some(e => e.id === id)) {
+        this.update(id, { status: 'failed', lastError: error?.message || String(error) });
+        await this.persist();
+      }
+    } finally {
+      if (isCurrent()) {
+        this.running.delete(id);
+        this.tasks.delete(id);
+      }
+    }
+  }
+
+  // Invalida a execução atual e devolve a tarefa de envio do bloco em andamento, para cancelar
+  private stopRun(id: string): FileSystem.UploadTask | undefined {
+    const task = this.tasks.get(id);
+    this.running.delete(id);
+    this.tasks.delete(id);
+    return task;
+  }
+
+  // Bloco gravado em arquivo para usar a sessão em segundo plano do sistema; o token separa o
+  // arquivo temporário de uma execução antiga que ainda esteja terminando
+  private async sendChunk(entry: TransferEntry, offset: number, token: number): Promise<number | null> {
+    const length = Math.min(TransferService.CHUNK_SIZE, this.getUploadSize(entry) - offset);
+    const chunkUri = `${FileSystem.cacheDirectory}transfer_${entry.id}_${token}.part`;
+
+    const input = new File(entry.file.uri).open();
+    const chunkFile = new File(chunkUri);
+    chunkFile.create({ overwrite: true });
+    const output = chunkFile.open();
+    try {
+      input.offset = offset;
+      output.writeBytes(input.readBytes(length));
+    } finally {
+      input.close();
+      output.close();
+    }
+
+    try {
+      const task = FileSystem.createUploadTask(entry.uploadUrl!, chunkUri, {
+        httpMethod: 'PATCH',
+        uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+        headers: {
+          ...(await this.getAuthHeaders()),
+          'Tus-Resumable': TransferService.TUS_VERSION,
+          'Upload-Offset': String(offset),
+          'Content-Type': 'application/offset+octet-stream',
+        },
+      });
+      if (this.running.get(entry.id) !== token) return null;
+      this.tasks.set(entry.id, task);
+
+      const result = await task.uploadAsync();
+      if (!result) return null;
+
+      if (result.status !== 204) {
+        throw new Error(`Falha no envio do bloco (${result.status})`);
+      }
+
+      const serverOffset = this.getHeader(result.headers, 'Upload-Offset');
+      return serverOffset ? parseInt(serverOffset, 10) : offset + length;
+    } finally {
+      if (this.running.get(entry.id) === token) {
+        this.tasks.delete(entry.id);
+      }
+      await FileSystem.deleteAsync(chunkUri, { idempotent: true });
+    }
+  }
+
+  private async createUpload(entry: TransferEntry): Promise<string> {
+    const metadata = {
+      bucketName: TransferService.BUCKET,
+      objectName: entry.objectPath,
+      contentType: entry.uploadSize === undefined ? entry.file.mimeType || 'application/octet-stream' : 'application/octet-stream',
+    };
+
+    const response = await fetch(`${process.env.EXPO_PUBLIC_SUPABASE_URL}/storage/v1/upload/resumable`, {
+      method: 'POST',
+      headers: {
+        ...(await this.getAuthHeaders()),
+        'Tus-Resumable': TransferService.TUS_VERSION,
+        'Upload-Length': String(this.getUploadSize(entry)),
+        'Upload-Metadata': Object.entries(metadata)
+          .map(([key, value]) => `${key} ${encodeMetadataValue(value)}`)
+          .join(','),
+        'x-upsert': 'true',
+      },
+    });
+
+    const location = response.headers.get('Location');
+    if (response.status !== 201 || !location) {
+      throw new Error(`Não foi possível iniciar o envio (${response.status})`);
+    }
+    return location;
+  }
+
+  // Quanto o servidor já recebeu; null quando a sessão não existe mais
+  private async getServerOffset(uploadUrl: string): Promise<number | null> {
+    const response = await this.tusRequest(uploadUrl, 'HEAD');
+    if (response.status === 404 || response.status === 410) return null;
+
+    const offset = response.headers.get('Upload-Offset');
+    if (!response.ok || offset === null) {
+      throw new Error(`Não foi possível consultar o envio (${response.status})`);
+    }
+    return parseInt(offset, 10);
+  }
+
+  private async complete(entry: TransferEntry): Promise<void> {
+    // O nome do arquivo vai cifrado como o próprio arquivo
+    const label = await AnvicCrypto.encryptMessage(`📎 ${entry.file.name}`, entry.senderId, entry.conversationId, 'text');
+
+    await outboxService.enqueue(
+      entry.conversationId,
+      entry.senderId,
+      JSON.stringify(label),
+      'file',
+      null,
+      entry.objectPath,
+      { size: entry.file.size }
+    );
+
+    this.entries = this.entries.filter(e => e.id !== entry.id);
+    await this.persist();
+    await FileSystem.deleteAsync(entry.file.uri, { idempotent: true });
+  }
+
+  private async tusRequest(uploadUrl: string, method: 'HEAD' | 'DELETE'): Promise<Response> {
+    return fetch(uploadUrl, {
+      method,
+      headers: {
+        ...(await this.getAuthHeaders()),
+        'Tus-Resumable': TransferService.TUS_VERSION,
+      },
+    });
+  }
+
+  private async getAuthHeaders(): Promise<Record<string, string>> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Sessão expirada');
+
+    return {
+      Authorization: `Bearer ${session.access_token}`,
+      apikey: process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY!,
+    };
+  }
+
+  private getUploadSize(entry: TransferEntry): number {
+    return entry.uploadSize ?? entry.file.size;
+  }
+
+  private getHeader(headers: Record<string, string>, name: string): string | undefined {
+    const key = Object.keys(headers).find(header => header.toLowerCase() === name.toLowerCase());
+    return key ? headers[key] : undefined;
+  }
+
+  private update(id: string, changes: Partial<TransferEntry>): void {
+    this.entries = this.entries.map(entry => (entry.id === id ? { ...entry, ...changes } : entry));
+  }
+
+  // Continuar de onde parou tudo que não foi pausado pelo usuário
+  private resumeInterrupted(includeFailed: boolean): void {
+    this.entries
+      .filter(entry => entry.status === 'uploading' || (includeFailed && entry.status === 'failed'))
+      .forEach(entry => {
+        if (entry.status === 'failed') {
+          this.update(entry.id, { status: 'uploading', lastError: undefined });
+        }
+        this.run(entry.id);
+      });
+    this.persist();
+  }
+
+  // Conexão restabelecida: retomar inclusive o que falhou pela queda de rede
+  private handleConnectivityChange = (state: NetInfoState) => {
+    const wasOnline = this.isOnline;
+    this.isOnline = !!state.isConnected && state.isInternetReachable !== false;
+
+    if (this.isOnline && !wasOnline) {
+      this.resumeInterrupted(true);
+    }
+  };
+
+  // O sistema pode ter encerrado a sessão de envio enquanto o app estava em segundo plano
+  private handleAppStateChange = (state: AppStateStatus) => {
+    if (state === 'active') {
+      this.resumeInterrupted(false);
+    }
+  };
+
+  private async loadEntries(): Promise<void> {
+    try {
+      const data = await AsyncStorage.getItem(TransferService.TRANSFERS_KEY);
+      this.entries = data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('Erro ao carregar transferências:', error);
+      this.entries = [];
+    }
+
+    // Envios interrompidos na última sessão
+    setTimeout(() => this.resumeInterrupted(false), 0);
+  }
+
+  private async persist(): Promise<void> {
+    this.listeners.forEach(listener => listener(this.entries));
+
+    try {
+      await AsyncStorage.setItem(TransferService.TRANSFERS_KEY, JSON.stringify(this.entries));
+    } catch (error) {
+      console.error('Erro ao salvar transferências:', error);
+    }
+  }
+}
+
+export const transferService = new TransferService();
@@ -5,21 +5,40 @@ export interface UserProfile {
   username?: string;
   avatar_url?: string;
   bio?: string;
+  identity_key?: string | null; // chave pública X25519 (base64)
+  signing_key?: string | null; // chave pública Ed25519 (base64)
   is_online: boolean;
   last_seen: string;
   created_at: string;
   updated_at: string;
 }
 
+export type ParticipantRole = 'owner' | 'admin' | 'member';
+
+export interface ConversationParticipant {
+  conversation_id: string;
+  user_id: string;
+  role: ParticipantRole;
+  joined_at: string;
+  user?: UserProfile;
+}
+
 export interface Conversation {
   id: string;
-  participant_1: string;
-  participant_2: string;
+  // Conversas 1:1 usam participant_1/participant_2; grupos usam conversation_participants
+  participant_1: string | null;
+  participant_2: string | null;
+  is_group: boolean;
+  name?: string;
+  avatar_url?: string;
+  created_by?: string;
   created_at: string;
   updated_at: string;
   other_user?: UserProfile;
+  participants?: ConversationParticipant[];
   last_message?: Message;
   unread_count?: number;
+  is_blocked?: boolean; // o usuário atual bloqueou o outro participante
 }
 
 export interface Message {
@@ -27,11 +46,88 @@ export interface Message {
   conversation_id: string;
   sender_id: string;
   content: string;
-  message_type: 'text' | 'image' | 'audio' | 'video';
+  message_type: 'text' | 'image' | 'audio' | 'video' | 'file';
   media_url?: string;
-  is_read: boolean;
+  media_metadata?: MediaMetadata | null;
+  reply_to_id?: string | null;
+  edited_at?: string | null;
+  deleted_at?: string | null; // preenchido quando apagada para todos (tombstone)
+  forwarded_from_message_id?: string | null;
+  forwarded_from_sender_id?: string | null;
+  client_id?: string | null; // chave de idempotência do envio
+  is_read: boolean; // legado: substituído por receipts
   created_at: string;
   sender?: UserProfile;
+  reply_to?: MessagePreview | null;
+  forwarded_from_sender?: Pick<UserProfile, 'id' | 'full_name' | 'username'> | null;
+  reactions?: MessageReaction[];
+  receipts?: MessageReceipt[];
+}
+
+// Dimensões e prévia da mídia, para desenhar o balão antes do download
+export interface MediaMetadata {
+  width?: number; // imagens
+  height?: number;
+  blurhash?: string | null;
+  duration?: number; // áudio, em milissegundos
+  waveform?: number[] | null; // amplitudes de 0 a 1 calculadas na gravação
+  size?: number; // bytes, exibido enquanto a mídia não é baixada
+  sealed_preview?: string | null; // mídia cifrada: envelope com o MediaPreview no lugar de blurhash e waveform
+}
+
+// Prévia desenhada antes do download; em mídia cifrada vai dentro de sealed_preview
+export interface MediaPreview {
+  blurhash?: string | null;
+  waveform?: number[] | null;
+  label?: string | null; // conteúdo da mensagem (ex.: nome do arquivo), já aberto quando cifrado
+}
+
+export type AutoDownloadNetwork = 'wifi' | 'cellular' | 'roaming';
+export type AutoDownloadMediaType = 'image' | 'audio' | 'video' | 'file';
+
+// Tipos de mídia baixados sozinhos em cada tipo de rede
+export type AutoDownloadSettings = { [network in AutoDownloadNetwork]: AutoDownloadMediaType[] };
+
+export type ReceiptStatus = 'sent' | 'delivered' | 'read';
+
+// Confirmação de entrega/leitura de uma mensagem por destinatário
+export interface MessageReceipt {
+  message_id: string;
+  conversation_id: string;
+  user_id: string;
+  delivered_at: string | null;
+  read_at: string | null;
+}
+
+// Reação de um usuário a uma mensagem (um registro por emoji)
+export interface MessageReaction {
+  id: string;
+  message_id: string;
+  conversation_id: string;
+  user_id: string;
+  emoji: string;
+  created_at: string;
+  user?: Pick<UserProfile, 'id' | 'full_name' | 'username'>;
+}
+
+// Conteúdo anterior de uma mensagem editada
+export interface MessageRevision {
+  id: string;
+  message_id: string;
+  editor_id: string;
+  content: string;
+  created_at: string;
+  editor?: Pick<UserProfile, 'id' | 'full_name' | 'username'>;
+}
+
+// Versão resumida de uma mensagem, usada em citações de respostas
+export interface MessagePreview {
+  id: string;
+  sender_id: string;
+  content: string;
+  message_type: Message['message_type'];
+  created_at: string;
+  sender?: Pick<UserProfile, 'id' | 'full_name' | 'username'>;
 }
 
 export interface UserBlock {
@@ -42,6 +138,41 @@ export interface UserBlock {
   blocked_user?: UserProfile;
 }
 
+// Aparelho vinculado à conta; campos sealed_* carregam as chaves até o aparelho novo recebê-las
+export interface UserDevice {
+  id: string;
+  user_id: string;
+  device_name: string;
+  platform: string;
+  public_key: string; // chave X25519 própria do aparelho (base64)
+  sealed_identity: string | null;
+  sealed_nonce: string | null;
+  sealed_ephemeral_key: string | null;
+  session_id: string | null; // sessão do Supabase Auth encerrada na revogação
+  push_token: string | null; // Expo Push; o servidor avisa por ele as chamadas recebidas
+  linked_at: string | null;
+  last_seen_at: string;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+// failed: a chamada caiu antes de a mídia conectar (erro de rede, mídia ou sinalização)
+export type CallOutcome = 'answered' | 'missed' | 'declined' | 'busy' | 'failed';
+
+// Registro de uma chamada na tabela calls; gravado por quem ligou, visível para os dois lados
+export interface CallRecord {
+  id: string; // mesmo id da chamada usado na sinalização
+  caller_id: string;
+  callee_id: string;
+  call_type: 'voice' | 'video';
+  outcome: CallOutcome;
+  duration_seconds: number; // 0 quando não atendida
+  started_at: string;
+  ended_at: string;
+  caller?: UserProfile;
+  callee?: UserProfile;
+}
+
 export interface AuthUser {
   id: string;
   email: string;
@@ -0,0 +1,159 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { sha512 } from '@noble/hashes/sha2';
+import { utf8ToBytes } from '@noble/hashes/utils';
+import { UserProfile } from './types';
+
+type PublicKeys = Pick<UserProfile, 'identity_key' | 'signing_key'>;
+
+export interface ContactKeyRecord {
+  contactId: string;
+  publicKeys: string; // chaves públicas conhecidas do contato (identity|signing)
+  verified: boolean;
+  verifiedAt?: string;
+  keyChangedAt?: string; // aviso de troca de chave ainda não confirmado pelo usuário
+  firstSeenAt: string;
+}
+
+export type ContactKeyStatus = 'new' | 'unchanged' | 'changed' | 'missing';
+
+class VerificationService {
+  private static readonly CONTACT_KEYS_KEY = 'anvic_contact_keys';
+  private static readonly QR_PREFIX = 'ANVIC-VERIFY:1:';
+  private static readonly FINGERPRINT_VERSION = 0;
+  private static readonly FINGERPRINT_ITERATIONS = 1024;
+
+  // Número de segurança: 60 dígitos, igual nos dois aparelhos
+  computeSafetyNumber(userId: string, userKeys: PublicKeys, contactId: string, contactKeys: PublicKeys): string {
+    const mine = this.fingerprint(userId, userKeys);
+    const theirs = this.fingerprint(contactId, contactKeys);
+
+    // Ordem fixa pelo id para os dois lados chegarem ao mesmo número
+    return userId < contactId ? mine + theirs : theirs + mine;
+  }
+
+  // Blocos de 5 dígitos para exibição
+  formatSafetyNumber(safetyNumber: string): string[] {
+    return safetyNumber.match(/.{1,5}/g) || [];
+  }
+
+  getQrPayload(safetyNumber: string): string {
+    return `${VerificationService.QR_PREFIX}${safetyNumber}`;
+  }
+
+  // Compara o código lido da tela do contato com o número calculado localmente
+  matchesQrPayload(payload: string, safetyNumber: string): boolean {
+    if (!payload.startsWith(VerificationService.QR_PREFIX)) return false;
+    return payload.substring(VerificationService.QR_PREFIX.length) === safetyNumber;
+  }
+
+  // Registrar as chaves atuais do contato e detectar se mudaram desde a última vez
+  async checkContactKeys(
+    userId: string,
+    contactId: string,
+    contactKeys: PublicKeys
+  ): Promise<{ status: ContactKeyStatus; record: ContactKeyRecord | null }> {
+    const records = await this.getRecords(userId);
+    const current = records[contactId] || null;
+
+    if (!contactKeys.identity_key || !contactKeys.signing_key) {
+      return { status: 'missing', record: current };
+    }
+
+    const publicKeys = `${contactKeys.identity_key}|${contactKeys.signing_key}`;
+    const now = new Date().toISOString();
+
+    if (!current) {
+      const record: ContactKeyRecord = { contactId, publicKeys, verified: false, firstSeenAt: now };
+      await this.saveRecord(userId, record);
+      return { status: 'new', record };
+    }
+
+    if (current.publicKeys === publicKeys) {
+      return { status: 'unchanged', record: current };
+    }
+
+    // Chave nova: a verificação anterior deixa de valer
+    const record: ContactKeyRecord = {
+      ...current,
+      publicKeys,
+      verified: false,
+      verifiedAt: undefined,
+      keyChangedAt: now,
+    };
+    await this.saveRecord(userId, record);
+    return { status: 'changed', record };
+  }
+
+  async getContactRecord(userId: string, contactId: string): Promise<ContactKeyRecord | null> {
+    const records = await this.getRecords(userId);
+    return records[contactId] || null;
+  }
+
+  async setVerified(userId: string, contactId: string, verified: boolean): Promise<ContactKeyRecord | null> {
+    const record = await this.getContactRecord(userId, contactId);
+    if (!record) return null;
+
+    const updated: ContactKeyRecord = {
+      ...record,
+      verified,
+      verifiedAt: verified ? new Date().toISOString() : undefined,
+      keyChangedAt: verified ? undefined : record.keyChangedAt,
+    };
+    await this.saveRecord(userId, updated);
+    return updated;
+  }
+
+  // Usuário viu o aviso de troca de chave e decidiu continuar sem verificar
+  async acknowledgeKeyChange(userId: string, contactId: string): Promise<ContactKeyRecord | null> {
+    const record = await this.getContactRecord(userId, contactId);
+    if (!record) return null;
+
+    const updated: ContactKeyRecord = { ...record, keyChangedAt: undefined };
+    await this.saveRecord(userId, updated);
+    return updated;
+  }
+
+  // 30 dígitos por identidade: hash iterado das chaves públicas + id do usuário
+  private fingerprint(userId: string, keys: PublicKeys): string {
+    const publicKeys = utf8ToBytes(`${keys.identity_key}|${keys.signing_key}`);
+    const id = utf8ToBytes(userId);
+
+    let hash: Uint8Array = new Uint8Array([VerificationService.FINGERPRINT_VERSION, ...publicKeys, ...id]);
+    for (let i = 0; i < VerificationService.FINGERPRINT_ITERATIONS; i++) {
+      hash = sha512(new Uint8Array([...hash, ...publicKeys]));
+    }
+
+    let digits = '';
+    for (let offset = 0; offset < 30; offset += 5) {
+      // 5 bytes → número de 40 bits → 5 dígitos
+      let chunk = 0;
+      for (let j = 0; j < 5; j++) {
+        chunk = chunk * 256 + hash[offset + j];
+      }
+      digits += String(chunk % 100000).padStart(5, '0');
+    }
+    return digits;
+  }
+
+  private async getRecords(userId: string): Promise<Record<string, ContactKeyRecord>> {
+    try {
+      const data = await AsyncStorage.getItem(`${VerificationService.CONTACT_KEYS_KEY}_${userId}`);
+      return data ? JSON.parse(data) : {};
+    } catch (error) {
+      console.error('Erro ao carregar chaves dos contatos:', error);
+      return {};
+    }
+  }
+
+  private async saveRecord(userId: string, record: ContactKeyRecord): Promise<void> {
+    try {
+      const records = await this.getRecords(userId);
+      records[record.contactId] = record;
+      await AsyncStorage.setItem(`${VerificationService.CONTACT_KEYS_KEY}_${userId}`, JSON.stringify(records));
+    } catch (error) {
+      console.error('Erro ao salvar chaves do contato:', error);
+    }
+  }
+}
+
+export const verificationService = new VerificationService();
@@ -0,0 +1,302 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Audio, AVPlaybackStatus } from 'expo-av';
+import { mediaStorageService } from './media-storage';
+import { Message } from './types';
+
+export type PlaybackRate = 1 | 1.5 | 2;
+
+export const PLAYBACK_RATES: PlaybackRate[] = [1, 1.5, 2];
+
+export interface VoiceNotePlayback {
+  messageId: string | null; // mensagem carregada no player (tocando ou pausada)
+  isPlaying: boolean;
+  isLoading: boolean;
+  position: number; // milissegundos
+  duration: number;
+  rate: PlaybackRate;
+}
+
+type VoiceNoteListener = (playback: VoiceNotePlayback) => void;
+
+// Player único das mensagens de voz: uma toca por vez, a posição fica salva por mensagem
+// e, ao terminar, a próxima mensagem de voz não ouvida da conversa começa sozinha
+class VoiceNoteService {
+  private static readonly POSITIONS_KEY = 'anvic_voice_positions';
+  private static readonly PLAYED_KEY = 'anvic_voice_played';
+  private static readonly RATE_KEY = 'anvic_voice_rate';
+  private static readonly MAX_TRACKED = 500;
+  private static readonly POSITION_SAVE_INTERVAL_MS = 5000;
+
+  private sound: Audio.Sound | null = null;
+  private playback: VoiceNotePlayback = {
+    messageId: null,
+    isPlaying: false,
+    isLoading: false,
+    position: 0,
+    duration: 0,
+    rate: 1,
+  };
+  private positions: { [messageId: string]: number } = {};
+  private played: string[] = [];
+  private playlist: Message[] = [];
+  private userId: string | null = null;
+  private listeners: Set<VoiceNoteListener> = new Set();
+  private lastPositionSave = 0;
+  private loadToken = 0;
+  private ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.load();
+  }
+
+  // Mensagens da conversa aberta, em ordem cronológica, para tocar as seguintes em sequência
+  setPlaylist(messages: Message[], userId: string): void {
+    this.playlist = messages;
+    this.userId = userId;
+  }
+
+  getPlayback(): VoiceNotePlayback {
+    return this.playback;
+  }
+
+  getPosition(messageId: string): number {
+    return this.playback.messageId === messageId ? this.playback.position : this.positions[messageId] || 0;
+  }
+
+  isPlayed(messageId: string): boolean {
+    return this.played.includes(messageId);
+  }
+
+  subscribe(listener: VoiceNoteListener): () => void {
+    this.listeners.add(listener);
+    this.ready.then(() => listener(this.playback));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async toggle(message: Message): Promise<void> {
+    if (this.playback.messageId === message.id && this.sound) {
+      if (this.playback.isPlaying) {
+        await this.sound.pauseAsync();
+        await this.savePosition(message.id, this.playback.position);
+      } else {
+        await this.sound.playAsync();
+      }
+      return;
+    }
+
+    await this.play(message);
+  }
+
+  async play(message: Message): Promise<void> {
+    if (!message.media_url || !this.userId) return;
+    await this.ready;
+
+    const token = ++this.loadToken;
+    await this.unloadCurrent();
+
+    const startPosition = this.positions[message.id] || 0;
+    this.update({
+      messageId: message.id,
+      isPlaying: false,
+      isLoading: true,
+      position: startPosition,
+      duration: message.media_metadata?.duration || 0,
+    });
+
+    try {
+      const { data: uri, error } = await mediaStorageService.resolveMediaUri(message.media_url, this.userId);
+      if (error || !uri) throw error || new Error('Áudio indisponível');
+      if (token !== this.loadToken) return;
+
+      // A gravação deixa o iOS no fone de ouvido; voltar ao alto-falante para reproduzir
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: false, playsInSilentModeIOS: true });
+
+      const { sound } = await Audio.Sound.createAsync(
+        { uri },
+        {
+          shouldPlay: true,
+          positionMillis: startPosition,
+          rate: this.playback.rate,
+          shouldCorrectPitch: true,
+        },
+        status => this.handleStatus(message.id, status)
+      );
+
+      if (token !== this.loadToken) {
+        await sound.unloadAsync();
+        return;
+      }
+
+      this.sound = sound;
+      await this.markPlayed(message.id);
+    } catch (error) {
+      console.error('Erro ao reproduzir mensagem de voz:', error);
+      if (token === this.loadToken) {
+        this.update({ messageId: null, isPlaying: false, isLoading: false });
+      }
+    }
+  }
+
+  // Arrastar na forma de onda: mensagens fora do player guardam a posição para quando tocarem
+  async seek(messageId: string, position: number): Promise<void> {
+    if (this.playback.messageId === messageId && this.sound) {
+      this.update({ position });
+      await this.sound.setPositionAsync(position);
+      return;
+    }
+
+    await this.savePosition(messageId, position);
+    this.notify();
+  }
+
+  async cycleRate(): Promise<void> {
+    const index = PLAYBACK_RATES.indexOf(this.playback.rate);
+    const rate = PLAYBACK_RATES[(index + 1) % PLAYBACK_RATES.length];
+    this.update({ rate });
+
+    try {
+      await this.sound?.setRateAsync(rate, true);
+      await AsyncStorage.setItem(VoiceNoteService.RATE_KEY, String(rate));
+    } catch (error) {
+      console.error('Erro ao alterar velocidade:', error);
+    }
+  }
+
+  // Ao sair da conversa: guarda onde parou e libera o áudio
+  async stop(): Promise<void> {
+    this.loadToken++;
+    this.playlist = [];
+    await this.unloadCurrent();
+    this.update({ messageId: null, isPlaying: false, isLoading: false, position: 0, duration: 0 });
+  }
+
+  private handleStatus(messageId: string, status: AVPlaybackStatus): void {
+    if (this.playback.messageId !== messageId || !status.isLoaded) return;
+
+    if (status.didJustFinish) {
+      this.finish(messageId);
+      return;
+    }
+
+    this.update({
+      isPlaying: status.isPlaying,
+      isLoading: false,
+      position: status.positionMillis,
+      duration: status.durationMillis || this.playback.duration,
+    });
+
+    if (Date.now() - this.lastPositionSave > VoiceNoteService.POSITION_SAVE_INTERVAL_MS) {
+      this.savePosition(messageId, status.positionMillis);
+    }
+  }
+
+  private async finish(messageId: string): Promise<void> {
+    delete this.positions[messageId];
+    await this.persistPositions();
+
+    const sound = this.sound;
+    this.sound = null;
+    this.update({ messageId: null, isPlaying: false, isLoading: false, position: 0, duration: 0 });
+    await sound?.unloadAsync();
+
+    const next = this.findNext(messageId);
+    if (next) {
+      await this.play(next);
+    }
+  }
+
+  // Só segue para a mensagem imediatamente seguinte, se for voz recebida e ainda não ouvida
+  private findNext(messageId: string): Message | null {
+    const index = this.playlist.findIndex(message => message.id === messageId);
+    const next = index >= 0 ? this.playlist[index + 1] : undefined;
+
+    if (
+      !next ||
+      next.message_type !== 'audio' ||
+      !next.media_url ||
+      next.sender_id === this.userId ||
+      this.isPlayed(next.id)
+    ) {
+      return null;
+    }
+    return next;
+  }
+
+  private async unloadCurrent(): Promise<void> {
+    const sound = this.sound;
+    const { messageId, position } = this.playback;
+    this.sound = null;
+    if (!sound) return;
+
+    try {
+      if (messageId && position > 0) {
+        await this.savePosition(messageId, position);
+      }
+      await sound.unloadAsync();
+    } catch (error) {
+      console.error('Erro ao liberar áudio:', error);
+    }
+  }
+
+  private async savePosition(messageId: string, position: number): Promise<void> {
+    this.positions[messageId] = position;
+    this.lastPositionSave = Date.now();
+    await this.persistPositions();
+  }
+
+  private async markPlayed(messageId: string): Promise<void> {
+    if (this.played.includes(messageId)) return;
+
+    this.played = [...this.played, messageId].slice(-VoiceNoteService.MAX_TRACKED);
+    try {
+      await AsyncStorage.setItem(VoiceNoteService.PLAYED_KEY, JSON.stringify(this.played));
+    } catch (error) {
+      console.error('Erro ao salvar mensagens de voz ouvidas:', error);
+    }
+  }
+
+  private async persistPositions(): Promise<void> {
+    const entries = Object.entries(this.positions);
+    if (entries.length > VoiceNoteService.MAX_TRACKED) {
+      this.positions = Object.fromEntries(entries.slice(-VoiceNoteService.MAX_TRACKED));
+    }
+
+    try {
+      await AsyncStorage.setItem(VoiceNoteService.POSITIONS_KEY, JSON.stringify(this.positions));
+    } catch (error) {
+      console.error('Erro ao salvar posição da mensagem de voz:', error);
+    }
+  }
+
+  private update(changes: Partial<VoiceNotePlayback>): void {
+    this.playback = { ...this.playback, ...changes };
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.playback));
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const [positions, played, rate] = await Promise.all([
+        AsyncStorage.getItem(VoiceNoteService.POSITIONS_KEY),
+        AsyncStorage.getItem(VoiceNoteService.PLAYED_KEY),
+        AsyncStorage.getItem(VoiceNoteService.RATE_KEY),
+      ]);
+
+      this.positions = positions ? JSON.parse(positions) : {};
+      this.played = played ? JSON.parse(played) : [];
+      const savedRate = Number(rate) as PlaybackRate;
+      if (PLAYBACK_RATES.includes(savedRate)) {
+        this.playback = { ...this.playback, rate: savedRate };
+      }
+    } catch (error) {
+      console.error('Erro ao carregar estado das mensagens de voz:', error);
+    }
+  }
+}
+
+export const voiceNoteService = new VoiceNoteService();